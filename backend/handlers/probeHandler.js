@@ -0,0 +1,50 @@
+
+const { probeHost, DEFAULT_PROBE_PORTS, DEFAULT_PROBE_TIMEOUT } = require('../utils/probe');
+const { isValidIpAddress } = require('../utils/validation');
+
+// Keep a single request from opening thousands of sockets at once
+const MAX_HOSTS_PER_REQUEST = 256;
+const PROBE_CONCURRENCY = 16;
+const MAX_PROBE_TIMEOUT = 10000;
+
+/**
+ * Check whether hosts are really reachable using ICMP and TCP connects
+ * Accepts a single `ip` or an `ips` array; results are returned in request order
+ */
+exports.probe = async (req, res) => {
+  try {
+    const { ip, ips, ports = DEFAULT_PROBE_PORTS, timeout = DEFAULT_PROBE_TIMEOUT } = req.body;
+    const targets = Array.isArray(ips) ? ips : ip ? [ip] : [];
+
+    if (targets.length === 0) {
+      return res.status(400).json({ error: 'IP address is required' });
+    }
+
+    if (targets.length > MAX_HOSTS_PER_REQUEST) {
+      return res.status(400).json({ error: `At most ${MAX_HOSTS_PER_REQUEST} hosts can be probed per request` });
+    }
+
+    const invalid = targets.filter(target => !isValidIpAddress(target));
+    if (invalid.length > 0) {
+      return res.status(400).json({ error: `Invalid IP address: ${invalid.join(', ')}` });
+    }
+
+    const probePorts = ports.map(port => parseInt(port, 10)).filter(port => port > 0 && port < 65536);
+    const probeTimeout = Math.min(Math.max(parseInt(timeout, 10) || DEFAULT_PROBE_TIMEOUT, 100), MAX_PROBE_TIMEOUT);
+
+    logger.info(`[PROBE] Probing ${targets.length} hosts on ports ${probePorts.join(', ')} with ${probeTimeout}ms timeout`);
+
+    const results = [];
+    for (let i = 0; i < targets.length; i += PROBE_CONCURRENCY) {
+      const batch = targets.slice(i, i + PROBE_CONCURRENCY);
+      results.push(...await Promise.all(batch.map(target => probeHost(target, { ports: probePorts, timeout: probeTimeout }))));
+    }
+
+    const reachableCount = results.filter(result => result.reachable).length;
+    logger.info(`[PROBE] ${reachableCount} of ${targets.length} hosts reachable`);
+    res.json({ results, reachableCount });
+  } catch (error) {
+    logger.error('[PROBE] Probe error:', error);
+    res.status(500).json({ error: error.message });
+  }
+};
@@ -0,0 +1,15 @@
+
+const { createDiscoveryHandler } = require('./discoveryHandlerFactory');
+const { discoverArpEntries } = require('../../utils/arpDiscovery');
+
+/**
+ * Harvest IP <-> MAC <-> VLAN bindings from a router or L3 switch's ARP cache
+ */
+exports.discoverArp = createDiscoveryHandler(
+  'ARP',
+  async (session) => {
+    const entries = await discoverArpEntries(session);
+    return { entries, count: entries.length };
+  },
+  ({ count }) => `found ${count} bindings`
+);
@@ -1,5 +1,5 @@
 
-const snmp = require('net-snmp');
+const { createSession } = require('../../utils/snmpSession');
 
 // In-memory session store
 const sessions = {};
@@ -9,18 +9,15 @@ const sessions = {};
  */
 exports.connect = (req, res) => {
   try {
-    const { ip, community = 'public', version = '2c', port = 161 } = req.body;
+    const { ip, community = 'public', version = '2c', port = 161, v3 } = req.body;
     
     if (!ip) {
       return res.status(400).json({ error: 'IP address is required' });
     }
     
-    const snmpVersion = version === '1' ? snmp.Version1 : snmp.Version2c;
-    
     // Create session with reduced timeout and no retries
-    const session = snmp.createSession(ip, community, {
+    const session = createSession(ip, community, version, v3, {
       port,
-      version: snmpVersion,
       retries: 0, // No retries
       timeout: 2000 // Reduced timeout to 2 seconds
     });
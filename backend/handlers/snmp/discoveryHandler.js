@@ -1,5 +1,7 @@
 
+const snmp = require('net-snmp');
 const deviceDiscovery = require('../../utils/deviceDiscovery');
+const { createSession } = require('../../utils/snmpSession');
 const vlanHandler = require('../vlanHandler');
 
 /**
@@ -8,7 +10,7 @@ const vlanHandler = require('../vlanHandler');
  */
 exports.discoverDevice = async (req, res) => {
   try {
-    const { ip, community = 'public', version = '2c' } = req.body;
+    const { ip, community = 'public', version = '2c', v3 } = req.body;
     
     if (!ip) {
       return res.status(400).json({ error: 'IP address is required' });
@@ -18,7 +20,7 @@ exports.discoverDevice = async (req, res) => {
     logger.info(`[SNMP] Will query the essential system OIDs and Entity MIB for precise model identification`);
     
     // First get the standard device info
-    const deviceInfo = await deviceDiscovery.discoverDeviceInfo(ip, community, version);
+    const deviceInfo = await deviceDiscovery.discoverDeviceInfo(ip, community, version, v3);
     
     // If this is a Cisco device, attempt to get the precise model information from Entity MIB
     if (deviceInfo.manufacturer === 'Cisco') {
@@ -27,10 +29,7 @@ exports.discoverDevice = async (req, res) => {
         const entityMibOid = '1.3.6.1.2.1.47.1.1.1.1.13';
         
         // Create a new SNMP session for this specific query
-        const snmp = require('net-snmp');
-        const snmpVersion = version === '1' ? snmp.Version1 : snmp.Version2c;
-        const session = snmp.createSession(ip, community, {
-          version: snmpVersion,
+        const session = createSession(ip, community, version, v3, {
           retries: 1,
           timeout: 5000
         });
@@ -106,10 +105,7 @@ exports.discoverDevice = async (req, res) => {
       const entityClassOid = '1.3.6.1.2.1.47.1.1.1.1.5'; // physical class
       
       // Create a new SNMP session for this specific query
-      const snmp = require('net-snmp');
-      const snmpVersion = version === '1' ? snmp.Version1 : snmp.Version2c;
-      const session = snmp.createSession(ip, community, {
-        version: snmpVersion,
+      const session = createSession(ip, community, version, v3, {
         retries: 1,
         timeout: 5000
       });
@@ -152,8 +148,7 @@ exports.discoverDevice = async (req, res) => {
           const ifTypeOid = '1.3.6.1.2.1.2.2.1.3'; // ifType
           
           const ifTypeData = await new Promise((resolve, reject) => {
-            const session = snmp.createSession(ip, community, {
-              version: snmpVersion,
+            const session = createSession(ip, community, version, v3, {
               retries: 1,
               timeout: 5000
             });
@@ -218,7 +213,7 @@ exports.discoverDevice = async (req, res) => {
  */
 exports.discoverVlans = async (req, res) => {
   try {
-    const { ip, community = 'public', version = '2c', make } = req.body;
+    const { ip, community = 'public', version = '2c', make, v3 } = req.body;
     
     if (!ip) {
       return res.status(400).json({ error: 'IP address is required' });
@@ -226,26 +221,33 @@ exports.discoverVlans = async (req, res) => {
     
     logger.info(`[SNMP] Starting STRICTLY focused VLAN discovery for ${ip} using SNMPv${version}`);
     logger.info(`[SNMP] Will execute sequential targeted operations ONLY:`);
-    logger.info(`[SNMP] 1. VLAN ID OID subtree: 1.3.6.1.4.1.9.9.46.1.3.1.1.2`);
-    logger.info(`[SNMP] 2. VLAN name OID subtree: 1.3.6.1.4.1.9.9.46.1.3.1.1.4`);
+    logger.info(`[SNMP] 1. VLAN ID OID subtree: 1.3.6.1.4.1.9.9.46.1.3.1.1.2 (Cisco) or 1.3.6.1.2.1.17.7.1.4.3.1.1 (Q-BRIDGE)`);
+    logger.info(`[SNMP] 2. VLAN name/member OID subtree: 1.3.6.1.4.1.9.9.46.1.3.1.1.4 (Cisco) or 1.3.6.1.2.1.17.7.1.4.2.1.4 (Q-BRIDGE)`);
     logger.info(`[SNMP] 3. IP address interface index OID subtree: 1.3.6.1.2.1.4.20.1.2`);
     logger.info(`[SNMP] 4. IP address subnet mask OID subtree: 1.3.6.1.2.1.4.20.1.3`);
     logger.info(`[SNMP] 5. Interface description OID subtree: 1.3.6.1.2.1.2.2.1.2`);
     logger.info(`[SNMP] 6. System name OID: 1.3.6.1.2.1.1.5.0`);
     
-    // Get device hostname first
+    // Get device hostname and make first
     let deviceHostname = null;
+    let detectedMake = null;
     try {
-      const deviceInfo = await deviceDiscovery.discoverDeviceInfo(ip, community, version);
+      const deviceInfo = await deviceDiscovery.discoverDeviceInfo(ip, community, version, v3);
       if (deviceInfo && deviceInfo.sysName) {
         deviceHostname = deviceInfo.sysName.split('.')[0]; // Get hostname part before domain
         logger.info(`[SNMP] Device hostname: ${deviceHostname}`);
       }
+      if (deviceInfo && deviceInfo.manufacturer) {
+        detectedMake = deviceInfo.manufacturer;
+        logger.info(`[SNMP] Device make from sysObjectID: ${detectedMake}`);
+      }
     } catch (e) {
       logger.warn(`[SNMP] Could not retrieve device hostname: ${e.message}`);
     }
     
-    const result = await vlanHandler.discoverVlans(ip, community, version, make);
+    // The make detected from sysObjectID selects VTP (Cisco) or Q-BRIDGE-MIB (everyone else);
+    // the make sent by the client is only a hint for when the device can't be identified
+    const result = await vlanHandler.discoverVlans(ip, community, version, detectedMake || make, v3);
     
     // If we have a hostname, add it to the result
     if (deviceHostname) {
@@ -0,0 +1,41 @@
+const { createSession, describeCredentials } = require('../../utils/snmpSession');
+
+/**
+ * Build an Express handler for a single-device SNMP discovery
+ * The handler validates the target IP, opens a session with the credentials in the request body,
+ * runs the discovery and always closes the session again
+ * @param {string} name - Discovery name used in log messages (e.g. 'PoE')
+ * @param {Function} discover - async (session, body) => response body sent as JSON
+ * @param {Function} summarize - (response) => result summary for the completion log (e.g. 'found 12 ports')
+ * @returns {Function} - Express handler
+ */
+exports.createDiscoveryHandler = (name, discover, summarize) => async (req, res) => {
+  const label = name.charAt(0).toUpperCase() + name.slice(1);
+  let session;
+  try {
+    const { ip, community = 'public', version = '2c', v3 } = req.body;
+
+    if (!ip) {
+      return res.status(400).json({ error: 'IP address is required' });
+    }
+
+    logger.info(`[SNMP] Starting ${name} discovery for ${ip} with ${describeCredentials(community, version, v3)}`);
+
+    session = createSession(ip, community, version, v3);
+    const response = await discover(session, req.body);
+
+    logger.info(`[SNMP] ${label} discovery completed for ${ip}: ${summarize(response)}`);
+    res.json(response);
+  } catch (error) {
+    logger.error(`[SNMP] ${label} discovery error:`, error);
+    res.status(500).json({ error: error.message });
+  } finally {
+    if (session) {
+      try {
+        session.close();
+      } catch (e) {
+        logger.error(`[SNMP] Error closing ${name} discovery session: ${e.message}`);
+      }
+    }
+  }
+};
@@ -0,0 +1,14 @@
+const { createDiscoveryHandler } = require('./discoveryHandlerFactory');
+const { discoverEntities } = require('../../utils/entityDiscovery');
+
+/**
+ * Discover a device's physical inventory (chassis, stack members, modules, power supplies) from ENTITY-MIB
+ */
+exports.discoverEntities = createDiscoveryHandler(
+  'entity',
+  async (session) => {
+    const entities = await discoverEntities(session);
+    return { entities, count: entities.length };
+  },
+  ({ count }) => `found ${count} entities`
+);
@@ -0,0 +1,14 @@
+const { createDiscoveryHandler } = require('./discoveryHandlerFactory');
+const { discoverInterfaces } = require('../../utils/interfaceDiscovery');
+
+/**
+ * Discover a device's interface inventory (names, descriptions, speeds and status)
+ */
+exports.discoverInterfaces = createDiscoveryHandler(
+  'interface',
+  async (session) => {
+    const interfaces = await discoverInterfaces(session);
+    return { interfaces, count: interfaces.length };
+  },
+  ({ count }) => `found ${count} interfaces`
+);
@@ -2,22 +2,33 @@
 const snmp = require('net-snmp');
 const { getSessions } = require('./connectionHandler');
 const vlanHandler = require('../vlanHandler');
+const { createSession, performTargetedOperation } = require('../../utils/snmpSession');
+const { getBridgePortMap, getInterfaceDetails, getOidIndex, valueToString } = require('../../utils/bridgePorts');
+const { isValidVlanId } = require('../../utils/validation');
+const { getPortRoleSignals, tagPortRoles, DEFAULT_UPLINK_MAC_THRESHOLD } = require('../../utils/portRoles');
 
 /**
  * OIDs for MAC address discovery
  */
 const MAC_OIDS = {
   // Bridge MIB - MAC to port mapping (targeted OID for MAC address table)
-  bridgeMacToPort: '1.3.6.1.2.1.17.4.3.1.2'  // dot1dTpFdbPort
+  bridgeMacToPort: '1.3.6.1.2.1.17.4.3.1.2',  // dot1dTpFdbPort
+  // Q-BRIDGE MIB - MAC to port mapping for every VLAN in one table, indexed by FDB id and MAC
+  qbridgeMacToPort: '1.3.6.1.2.1.17.7.1.2.2.1.2',  // dot1qTpFdbPort
+  // Q-BRIDGE MIB - FDB id used by each VLAN, indexed by time mark and VLAN ID
+  qbridgeVlanFdbId: '1.3.6.1.2.1.17.7.1.4.2.1.3'  // dot1qVlanFdbId
 };
 
 /**
- * Discover MAC addresses on a device using targeted SNMP walks for each VLAN
+ * Discover MAC addresses on a device
+ * Uses a single Q-BRIDGE (dot1qTpFdbPort) walk where supported, falling back to
+ * targeted per-VLAN dot1dTpFdbPort walks for Cisco and agents without Q-BRIDGE
+ * Each MAC is tagged with the role of its port so transit MACs on trunks/uplinks can be excluded
  */
 exports.discoverMacAddresses = async (req, res) => {
   try {
     // Extract session ID and VLAN ID from request
-    const { sessionId, ip, community = 'public', version = '2c', vlanId, vlanIds, priorityOnly = false } = req.body;
+    const { sessionId, ip, community = 'public', version = '2c', v3, make, vlanId, vlanIds, priorityOnly = false, uplinkMacThreshold = DEFAULT_UPLINK_MAC_THRESHOLD } = req.body;
     
     if (!ip && !sessionId) {
       logger.error('[SNMP] MAC discovery error: Missing IP address or session ID');
@@ -31,11 +42,37 @@ exports.discoverMacAddresses = async (req, res) => {
       sessionId,
       community: community ? `${community.slice(0,2)}***` : null, // Mask the community string
       version,
+      securityName: v3 ? v3.securityName : null,
+      make,
       vlanId,
       vlanIds: vlanIds ? `Array with ${vlanIds.length} VLANs` : null,
       priorityOnly
     }, null, 2));
     
+    // Cisco keeps a separate bridge table per VLAN, so Q-BRIDGE is only tried for other or unknown makes
+    if (!/cisco/i.test(make || '')) {
+      const qbridgeMacs = await discoverQBridgeMacAddresses(ip, community, version, v3, uplinkMacThreshold);
+      
+      if (qbridgeMacs.length > 0) {
+        // The priority subset only limits per-VLAN walks - a Q-BRIDGE walk already covers every VLAN
+        const requestedVlans = priorityOnly ? [] : (Array.isArray(vlanIds) && vlanIds.length > 0 ? vlanIds : (vlanId ? [vlanId] : []));
+        const filteredMacs = requestedVlans.length > 0
+          ? qbridgeMacs.filter(mac => requestedVlans.includes(mac.vlanId))
+          : qbridgeMacs;
+        const foundVlans = [...new Set(filteredMacs.map(mac => mac.vlanId))].sort((a, b) => a - b);
+        
+        res.setHeader('Content-Type', 'application/json');
+        res.write(`{"status":"processing","macAddresses":${JSON.stringify(filteredMacs)}`);
+        res.write(`,"vlanIds":[${foundVlans.join(',')}],"discoveryMethod":"qbridge","status":"success"}`);
+        res.end();
+        
+        logger.info(`[SNMP] MAC address discovery complete via Q-BRIDGE, found ${filteredMacs.length} MAC addresses across ${foundVlans.length} VLANs`);
+        return;
+      }
+      
+      logger.info(`[SNMP] Q-BRIDGE forwarding table empty on ${ip}, falling back to per-VLAN bridge table walks`);
+    }
+    
     // Determine which VLANs to query
     let vlans = [];
     
@@ -59,7 +96,7 @@ exports.discoverMacAddresses = async (req, res) => {
       // First discover VLANs, then query each one
       try {
         logger.info(`[SNMP] No VLANs specified, discovering VLANs first`);
-        const vlanResult = await vlanHandler.discoverVlans(ip, community, version);
+        const vlanResult = await vlanHandler.discoverVlans(ip, community, version, undefined, v3);
         // Ensure unique VLAN IDs and sort in ascending order
         vlans = [...new Set(vlanResult.vlans.map(vlan => vlan.vlanId))];
         vlans.sort((a, b) => a - b);
@@ -83,6 +120,18 @@ exports.discoverMacAddresses = async (req, res) => {
     
     let isFirstChunk = true;
     
+    // Interface names and port roles live in the default context, so look them up once rather than per VLAN
+    let interfaces = { names: {}, aliases: {} };
+    let portRoleSignals = { trunkIfIndexes: new Set(), neighborIfIndexes: new Set() };
+    try {
+      const interfaceSession = createSession(ip, community, version, v3);
+      interfaces = await getInterfaceDetails(interfaceSession);
+      portRoleSignals = await getPortRoleSignals(interfaceSession, interfaces.names);
+      interfaceSession.close();
+    } catch (error) {
+      logger.warn(`[SNMP] Could not read interface names from ${ip}: ${error.message}`);
+    }
+    
     // Execute a targeted walk for each VLAN, one at a time
     for (const vlan of vlans) {
       // Skip if we've already processed this VLAN
@@ -95,20 +144,33 @@ exports.discoverMacAddresses = async (req, res) => {
       
       try {
         // Create community string with VLAN ID as per the requested format: "public@101"
+        // SNMPv3 has no community, so the per-VLAN bridge table is selected with the "vlan-101" context instead
         const vlanCommunity = vlan === 1 ? community : `${community}@${vlan}`;
-        logger.info(`[SNMP] Executing targeted walk for VLAN ${vlan} using community string "${vlanCommunity}" and OID ${MAC_OIDS.bridgeMacToPort}`);
+        const vlanContext = vlan === 1 ? undefined : `vlan-${vlan}`;
+        if (version === '3') {
+          logger.info(`[SNMP] Executing targeted walk for VLAN ${vlan} using SNMPv3 context "${vlanContext || 'default'}" and OID ${MAC_OIDS.bridgeMacToPort}`);
+        } else {
+          logger.info(`[SNMP] Executing targeted walk for VLAN ${vlan} using community string "${vlanCommunity}" and OID ${MAC_OIDS.bridgeMacToPort}`);
+        }
         
         // Create a new session for this specific VLAN with reduced timeout and no retries
-        const snmpVersion = version === '1' ? snmp.Version1 : snmp.Version2c;
-        const session = snmp.createSession(ip, vlanCommunity, {
-          version: snmpVersion,
+        const session = createSession(ip, vlanCommunity, version, v3, {
           retries: 0, // No retries
-          timeout: 2000 // Reduced timeout to 2 seconds
+          timeout: 2000, // Reduced timeout to 2 seconds
+          context: vlanContext
         });
         
         // Execute the specifically targeted walk for the MAC address table for this VLAN
         const vlanMacs = await walkMacAddressTable(session, MAC_OIDS.bridgeMacToPort, vlan);
         
+        // Bridge port numbers are per VLAN instance on Cisco, so resolve them in the same context
+        if (vlanMacs.length > 0) {
+          const portMap = await getBridgePortMap(session, interfaces).catch(() => ({}));
+          resolvePortNames(vlanMacs, portMap);
+          // Results are streamed per VLAN, so the MAC-count threshold applies within this VLAN
+          tagPortRoles(vlanMacs, portRoleSignals, uplinkMacThreshold);
+        }
+        
         // Add the collected MAC addresses from this VLAN to the overall results
         macAddresses.push(...vlanMacs);
         
@@ -118,7 +180,12 @@ exports.discoverMacAddresses = async (req, res) => {
             return {
               macAddress: mac.macAddress,
               vlanId: mac.vlanId,
-              deviceType: mac.deviceType
+              deviceType: mac.deviceType,
+              bridgePort: mac.bridgePort,
+              ifIndex: mac.ifIndex,
+              port: mac.port,
+              portDescription: mac.portDescription,
+              portRole: mac.portRole
             };
           });
           
@@ -150,7 +217,7 @@ exports.discoverMacAddresses = async (req, res) => {
     }
     
     // Complete the response
-    res.write(`],"vlanIds":[${Array.from(processedVlans).join(',')}],"status":"success"}`);
+    res.write(`],"vlanIds":[${Array.from(processedVlans).join(',')}],"discoveryMethod":"per-vlan","status":"success"}`);
     res.end();
     
     logger.info(`[SNMP] MAC address discovery complete, found ${macAddresses.length} MAC addresses across ${processedVlans.size} VLANs`);
@@ -190,7 +257,7 @@ function walkMacAddressTable(session, oid, vlanId) {
           logger.warn(`[SNMP] Walk varbind error: ${snmp.varbindError(varbind)}`);
         } else {
           const oid = varbind.oid;
-          const bridgePort = varbind.value;
+          const bridgePort = parseInt(valueToString(varbind.value), 10);
           
           // Extract MAC from OID
           const macParts = oid.replace(`${MAC_OIDS.bridgeMacToPort}.`, '').split('.');
@@ -201,7 +268,8 @@ function walkMacAddressTable(session, oid, vlanId) {
             vlanMacs.push({
               macAddress: mac,
               vlanId: vlanId,
-              deviceType: getMacDeviceType(mac)
+              deviceType: getMacDeviceType(mac),
+              bridgePort: isNaN(bridgePort) ? undefined : bridgePort
             });
             
             logger.info(`[SNMP] Found MAC ${mac} on VLAN ${vlanId}`);
@@ -215,6 +283,94 @@ function walkMacAddressTable(session, oid, vlanId) {
   });
 }
 
+/**
+ * Walk the Q-BRIDGE forwarding table (dot1qTpFdbPort), which returns MAC, FDB id and
+ * bridge port for every VLAN in one walk and works with SNMPv3 without per-VLAN contexts
+ * @returns {Promise<Array>} - MAC entries, empty if the agent does not implement Q-BRIDGE
+ */
+async function discoverQBridgeMacAddresses(ip, community, version, v3, uplinkMacThreshold) {
+  const session = createSession(ip, community, version, v3);
+  
+  try {
+    logger.info(`[SNMP] Executing Q-BRIDGE forwarding table walk on ${ip} with OID ${MAC_OIDS.qbridgeMacToPort}`);
+    const fdbResults = await performTargetedOperation(session, MAC_OIDS.qbridgeMacToPort);
+    
+    if (fdbResults.length === 0) {
+      return [];
+    }
+    
+    // Map FDB ids back to VLAN IDs - on independent VLAN learning switches the FDB id is the VLAN ID
+    const fdbToVlan = {};
+    const vlanFdbResults = await performTargetedOperation(session, MAC_OIDS.qbridgeVlanFdbId).catch(() => []);
+    for (const result of vlanFdbResults) {
+      const index = getOidIndex(result.oid, MAC_OIDS.qbridgeVlanFdbId);
+      const vlanId = index[index.length - 1];
+      const fdbId = parseInt(valueToString(result.value), 10);
+      if (!isNaN(fdbId) && isValidVlanId(vlanId) && (fdbToVlan[fdbId] === undefined || vlanId < fdbToVlan[fdbId])) {
+        fdbToVlan[fdbId] = vlanId;
+      }
+    }
+    
+    const macs = [];
+    for (const result of fdbResults) {
+      // Index is <fdbId>.<6 MAC octets>
+      const index = getOidIndex(result.oid, MAC_OIDS.qbridgeMacToPort);
+      if (index.length !== 7) continue;
+      
+      const fdbId = index[0];
+      const vlanId = fdbToVlan[fdbId] !== undefined ? fdbToVlan[fdbId] : fdbId;
+      const bridgePort = parseInt(valueToString(result.value), 10);
+      
+      // Port 0 is the switch itself, and FDB ids that do not resolve to a VLAN cannot be placed
+      if (!isValidVlanId(vlanId) || isNaN(bridgePort) || bridgePort === 0) continue;
+      
+      const mac = index.slice(1).map(p => p.toString(16).padStart(2, '0')).join(':').toUpperCase();
+      macs.push({
+        macAddress: mac,
+        vlanId,
+        deviceType: getMacDeviceType(mac),
+        bridgePort
+      });
+    }
+    
+    if (macs.length > 0) {
+      const interfaces = await getInterfaceDetails(session);
+      const portMap = await getBridgePortMap(session, interfaces).catch(() => ({}));
+      resolvePortNames(macs, portMap);
+      tagPortRoles(macs, await getPortRoleSignals(session, interfaces.names), uplinkMacThreshold);
+    }
+    
+    logger.info(`[SNMP] Q-BRIDGE forwarding table on ${ip} returned ${macs.length} MAC addresses`);
+    return macs;
+  } catch (error) {
+    logger.warn(`[SNMP] Q-BRIDGE forwarding table walk failed on ${ip}: ${error.message}`);
+    return [];
+  } finally {
+    try {
+      session.close();
+    } catch (e) {
+      logger.error(`[SNMP] Error closing Q-BRIDGE session: ${e.message}`);
+    }
+  }
+}
+
+/**
+ * Replace bridge port numbers with interface names (dot1dBasePortIfIndex -> ifName) in place
+ * MACs whose bridge port cannot be resolved keep only their bridgePort number
+ */
+function resolvePortNames(macs, portMap) {
+  for (const mac of macs) {
+    const entry = portMap[mac.bridgePort];
+    if (entry) {
+      mac.ifIndex = entry.ifIndex;
+    }
+    if (entry && entry.ifName) {
+      mac.port = entry.ifName;
+      mac.portDescription = entry.ifAlias || undefined;
+    }
+  }
+}
+
 /**
  * Try to determine device type from MAC address
  */
@@ -0,0 +1,21 @@
+
+const { createDiscoveryHandler } = require('./discoveryHandlerFactory');
+const { discoverLldpNeighbors, discoverCdpNeighbors } = require('../../utils/neighborDiscovery');
+
+/**
+ * Discover the neighbors (switches, APs, phones) attached to a device's ports via LLDP and/or CDP
+ */
+exports.discoverNeighbors = createDiscoveryHandler(
+  'neighbor',
+  async (session, { protocols = ['lldp', 'cdp'] }) => {
+    const neighbors = [];
+    if (protocols.includes('lldp')) {
+      neighbors.push(...await discoverLldpNeighbors(session));
+    }
+    if (protocols.includes('cdp')) {
+      neighbors.push(...await discoverCdpNeighbors(session));
+    }
+    return { neighbors, count: neighbors.length };
+  },
+  ({ count }) => `found ${count} neighbors`
+);
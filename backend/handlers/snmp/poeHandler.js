@@ -0,0 +1,11 @@
+const { createDiscoveryHandler } = require('./discoveryHandlerFactory');
+const { discoverPoe } = require('../../utils/poeDiscovery');
+
+/**
+ * Discover a switch's PoE budget per PSE and power draw per port
+ */
+exports.discoverPoe = createDiscoveryHandler(
+  'PoE',
+  (session) => discoverPoe(session),
+  ({ supplies, ports }) => `found ${supplies.length} supplies and ${ports.length} ports`
+);
@@ -0,0 +1,14 @@
+const { createDiscoveryHandler } = require('./discoveryHandlerFactory');
+const { discoverPortVlans } = require('../../utils/portVlanDiscovery');
+
+/**
+ * Discover the VLAN mode, access, native, allowed and voice VLANs of each switchport
+ */
+exports.discoverPortVlans = createDiscoveryHandler(
+  'port VLAN',
+  async (session) => {
+    const { ports, source } = await discoverPortVlans(session);
+    return { ports, source, count: ports.length };
+  },
+  ({ count }) => `found ${count} ports`
+);
@@ -0,0 +1,12 @@
+
+const { createDiscoveryHandler } = require('./discoveryHandlerFactory');
+const { discoverRoutingInfo } = require('../../utils/routeDiscovery');
+
+/**
+ * Discover a device's connected subnets (ipAddrTable) and next-hop routers (ipRouteTable)
+ */
+exports.discoverRoutes = createDiscoveryHandler(
+  'route',
+  (session) => discoverRoutingInfo(session),
+  ({ interfaces, nextHops }) => `${interfaces.length} interfaces, ${nextHops.length} next hops`
+);
@@ -9,6 +9,13 @@ const queryHandler = require('./snmp/queryHandler');
 const discoveryHandler = require('./snmp/discoveryHandler');
 const healthHandler = require('./snmp/healthHandler');
 const macAddressHandler = require('./snmp/macAddressHandler');
+const neighborHandler = require('./snmp/neighborHandler');
+const routeHandler = require('./snmp/routeHandler');
+const arpHandler = require('./snmp/arpHandler');
+const poeHandler = require('./snmp/poeHandler');
+const interfaceHandler = require('./snmp/interfaceHandler');
+const entityHandler = require('./snmp/entityHandler');
+const portVlanHandler = require('./snmp/portVlanHandler');
 
 // Re-export functionality from refactored modules
 exports.connect = connectionHandler.connect;
@@ -19,3 +26,10 @@ exports.discoverVlans = discoveryHandler.discoverVlans;
 exports.health = healthHandler.health;
 exports.getSessionCount = connectionHandler.getSessionCount;
 exports.discoverMacAddresses = macAddressHandler.discoverMacAddresses;
+exports.discoverNeighbors = neighborHandler.discoverNeighbors;
+exports.discoverRoutes = routeHandler.discoverRoutes;
+exports.discoverArp = arpHandler.discoverArp;
+exports.discoverPoe = poeHandler.discoverPoe;
+exports.discoverInterfaces = interfaceHandler.discoverInterfaces;
+exports.discoverEntities = entityHandler.discoverEntities;
+exports.discoverPortVlans = portVlanHandler.discoverPortVlans;
@@ -1,6 +1,8 @@
 
-const snmp = require('net-snmp');
 const { isValidVlanId } = require('../utils/validation');
+const { createSession, describeCredentials, performTargetedOperation } = require('../utils/snmpSession');
+const { decodePortList, getBridgePortMap, getOidIndex, valueToString } = require('../utils/bridgePorts');
+const { discoverCdpNeighbors } = require('../utils/neighborDiscovery');
 
 // Constants for Cisco VLAN OIDs - using specific OIDs as specified
 const VLAN_OIDS = {
@@ -10,6 +12,14 @@ const VLAN_OIDS = {
   vlanName: "1.3.6.1.4.1.9.9.46.1.3.1.1.4"
 };
 
+// Standard 802.1Q Q-BRIDGE-MIB VLAN OIDs for non-Cisco switches
+const QBRIDGE_VLAN_OIDS = {
+  // dot1qVlanStaticName - administratively assigned VLAN names, indexed by VLAN ID
+  staticName: "1.3.6.1.2.1.17.7.1.4.3.1.1",
+  // dot1qVlanCurrentEgressPorts - PortList of member ports, indexed by time mark and VLAN ID
+  currentEgressPorts: "1.3.6.1.2.1.17.7.1.4.2.1.4"
+};
+
 // IP and Interface OIDs for subnet discovery
 const SUBNET_OIDS = {
   // ipAdEntIfIndex - maps IP addresses to interface indices
@@ -25,162 +35,60 @@ const SUBNET_OIDS = {
  * @param {string} ip - The IP address of the device
  * @param {string} community - The SNMP community string
  * @param {string} version - The SNMP version
- * @param {string} make - The device manufacturer
+ * @param {string} make - The device manufacturer, selects Cisco VTP or Q-BRIDGE-MIB discovery
+ * @param {Object} v3 - SNMPv3 credentials, used when version is '3'
  * @returns {Object} - Object containing discovered VLANs info
  */
-exports.discoverVlans = async (ip, community = 'public', version = '2c', make) => {
-  logger.info(`[SNMP] Discovering VLANs from ${ip} using community ${community} (v${version})`);
+exports.discoverVlans = async (ip, community = 'public', version = '2c', make, v3 = null) => {
+  logger.info(`[SNMP] Discovering VLANs from ${ip} using ${describeCredentials(community, version, v3)}`);
   
   // Create temporary session
-  const snmpVersion = version === '1' ? snmp.Version1 : snmp.Version2c;
-  const session = snmp.createSession(ip, community, {
-    version: snmpVersion,
+  const session = createSession(ip, community, version, v3, {
     retries: 1,
     timeout: 5000
   });
   
   const vlans = [];
   const invalidVlans = [];
-  const processedVlanIds = new Set(); // Track already processed VLAN IDs to prevent duplicates
+  let discoveryMethod = 'vtp';
+  let neighbors = [];
   
   // Store raw SNMP responses for logging
   const rawResponses = {
     vlanState: [],
     vlanName: [],
+    qbridgeName: [],
+    qbridgeEgress: [],
     ipAddrIfIndex: [],
     ipAddrNetMask: [],
     ifDescr: []
   };
   
   try {
-    // Log the exact OIDs we're querying - be very explicit
-    logger.info(`[SNMP] STRICT TARGET: Using ONLY the following OIDs:`);
-    logger.info(`[SNMP] STRICT TARGET: 1. VLAN state OID: ${VLAN_OIDS.vlanList} (for VLAN IDs)`);
-    logger.info(`[SNMP] STRICT TARGET: 2. VLAN name OID: ${VLAN_OIDS.vlanName} (for VLAN names)`);
-    
-    // STEP 1: Execute a targeted subtree method call for VLAN IDs 
-    logger.info(`[SNMP] Executing targeted subtree call for VLAN IDs with base OID ${VLAN_OIDS.vlanList}`);
-    
-    const vlanIdResults = await performTargetedOperation(session, VLAN_OIDS.vlanList);
-    logger.info(`[SNMP] VLAN ID discovery complete - received ${vlanIdResults.length} OID responses`);
+    // STEP 1 & 2: Discover VLAN IDs and names, choosing the MIB from the device make
+    const isCisco = !make || /cisco/i.test(make);
     
-    // Process VLAN ID results
-    for (const result of vlanIdResults) {
-      if (result && result.oid && result.value !== undefined) {
-        // Log in the raw SNMP format
-        const oidStr = Array.isArray(result.oid) ? result.oid.join('.') : result.oid.toString();
-        const valueStr = result.value.toString();
-        
-        // Add to raw responses for logging
-        rawResponses.vlanState.push({
-          oid: oidStr,
-          value: valueStr
-        });
-        
-        logger.info(`[RAW SNMP VLAN ID] SNMPv2-SMI::enterprises.${oidStr.replace(/^1\.3\.6\.1\.4\.1\./g, '')} = INTEGER: ${valueStr}`);
-        
-        // Parse the VLAN ID from the OID
-        const oidParts = oidStr.split('.');
-        const vlanId = parseInt(oidParts[oidParts.length - 1], 10);
-        
-        // Skip if we've already processed this VLAN ID or it's not a number
-        if (processedVlanIds.has(vlanId) || isNaN(vlanId)) {
-          continue;
-        }
-        
-        // Extra validation for VLAN ID range - must be 1-4094
-        if (vlanId < 1 || vlanId > 4094) {
-          invalidVlans.push({
-            vlanId,
-            reason: 'Invalid VLAN ID range'
-          });
-          processedVlanIds.add(vlanId); // Mark as processed anyway to avoid duplicates
-          continue;
-        }
-        
-        // Parse the state value (1 = operational, 2 = suspended, etc.)
-        let stateValue = 0;
-        if (Buffer.isBuffer(result.value)) {
-          stateValue = parseInt(result.value.toString(), 10);
-        } else if (typeof result.value === 'number') {
-          stateValue = result.value;
-        }
-        
-        // Mark this VLAN ID as processed
-        processedVlanIds.add(vlanId);
-        
-        // Only include VLANs with state value of 1 (active)
-        if (stateValue === 1) {
-          logger.info(`[SNMP] Found active VLAN ${vlanId} with state ${stateValue} on ${ip}`);
-          vlans.push({
-            vlanId,
-            name: `VLAN${vlanId}`, // Default name, will be updated
-            state: 'active',
-            usedBy: [ip]
-          });
-        } else {
-          invalidVlans.push({
-            vlanId,
-            reason: 'Inactive VLAN (status not 1)'
-          });
-        }
-      }
-    }
-    
-    // Log the actual VLANs found for debugging
-    logger.info(`[SNMP] VLAN ID discovery found ${vlans.length} active VLANs: ${vlans.map(v => v.vlanId).join(', ')}`);
-    
-    // Reset the processed set for name lookups
-    processedVlanIds.clear();
-    
-    // STEP 2: Get names for the VLANs we already found (if any)
-    if (vlans.length > 0) {
-      logger.info(`[SNMP] Executing targeted subtree call for VLAN names with base OID ${VLAN_OIDS.vlanName}`);
-      
-      const vlanNameResults = await performTargetedOperation(session, VLAN_OIDS.vlanName);
-      logger.info(`[SNMP] VLAN name discovery complete - received ${vlanNameResults.length} OID responses`);
+    if (isCisco) {
+      await discoverCiscoVtpVlans(session, ip, vlans, invalidVlans, rawResponses).catch(error => {
+        logger.warn(`[SNMP] VTP VLAN walk failed on ${ip}: ${error.message}`);
+      });
       
-      // Process VLAN name results
-      for (const result of vlanNameResults) {
-        if (result && result.oid && result.value !== undefined) {
-          // Log in the raw SNMP format
-          const oidStr = Array.isArray(result.oid) ? result.oid.join('.') : result.oid.toString();
-          let valueStr = "";
-          
-          if (Buffer.isBuffer(result.value)) {
-            valueStr = result.value.toString().trim();
-          } else {
-            valueStr = result.value.toString().trim();
-          }
-          
-          // Add to raw responses for logging
-          rawResponses.vlanName.push({
-            oid: oidStr,
-            value: valueStr
-          });
-          
-          logger.info(`[RAW SNMP VLAN NAME] SNMPv2-SMI::enterprises.${oidStr.replace(/^1\.3\.6\.1\.4\.1\./g, '')} = STRING: ${valueStr}`);
-          
-          // Parse the VLAN ID from the OID
-          const oidParts = oidStr.split('.');
-          const vlanId = parseInt(oidParts[oidParts.length - 1], 10);
-          
-          // Skip if we've already processed this VLAN ID for names or it's invalid
-          if (processedVlanIds.has(vlanId) || isNaN(vlanId) || vlanId < 1 || vlanId > 4094) {
-            continue;
-          }
-          
-          processedVlanIds.add(vlanId);
-          
-          // Only update names for VLANs we've already identified
-          const vlan = vlans.find(v => v.vlanId === vlanId);
-          if (vlan) {
-            // Always use the returned name value directly without filtering
-            vlan.name = valueStr || `VLAN${vlanId}`;
-            logger.info(`[SNMP] VLAN ${vlanId} name: "${vlan.name}"`);
-          }
-        }
+      // Cisco platforms without VTP (e.g. SMB/Nexus) still implement Q-BRIDGE-MIB
+      if (vlans.length === 0) {
+        logger.info(`[SNMP] VTP returned no VLANs for ${ip}, falling back to Q-BRIDGE-MIB`);
+        discoveryMethod = 'qbridge';
+        await discoverQBridgeVlans(session, ip, vlans, invalidVlans, rawResponses);
       }
+      
+      // Legacy Cisco sites often run CDP with LLDP disabled, so collect CDP neighbors here too
+      neighbors = await discoverCdpNeighbors(session).catch(error => {
+        logger.warn(`[SNMP] CDP neighbor walk failed on ${ip}: ${error.message}`);
+        return [];
+      });
+    } else {
+      logger.info(`[SNMP] Device make "${make}" is not Cisco - using standards-based Q-BRIDGE-MIB VLAN discovery`);
+      discoveryMethod = 'qbridge';
+      await discoverQBridgeVlans(session, ip, vlans, invalidVlans, rawResponses);
     }
     
     // STEP 3: Discover subnet information for the VLANs
@@ -389,6 +297,8 @@ exports.discoverVlans = async (ip, community = 'public', version = '2c', make) =
     return { 
       vlans,
       invalidVlans,
+      discoveryMethod,
+      neighbors,
       totalDiscovered: vlans.length + invalidVlans.length,
       validCount: vlans.length,
       invalidCount: invalidVlans.length,
@@ -398,6 +308,8 @@ exports.discoverVlans = async (ip, community = 'public', version = '2c', make) =
       rawData: {
         vlanState: rawResponses.vlanState,
         vlanName: rawResponses.vlanName,
+        qbridgeName: rawResponses.qbridgeName,
+        qbridgeEgress: rawResponses.qbridgeEgress,
         ipAddrIfIndex: rawResponses.ipAddrIfIndex,
         ipAddrNetMask: rawResponses.ipAddrNetMask,
         ifDescr: rawResponses.ifDescr
@@ -410,43 +322,245 @@ exports.discoverVlans = async (ip, community = 'public', version = '2c', make) =
 };
 
 /**
- * Performs a targeted SNMP operation on a specific OID
- * Using subtree as a more efficient alternative to generic walk
- * 
- * @param {Object} session - SNMP session
- * @param {string} baseOid - The base OID to query
- * @returns {Promise<Array>} - Array of results with oid and value
+ * Discover VLAN IDs and names from the Cisco VTP MIB (vtpVlanState / vtpVlanName)
+ * Populates the vlans and invalidVlans arrays in place
  */
-async function performTargetedOperation(session, baseOid) {
-  return new Promise((resolve, reject) => {
-    const results = [];
-    
-    // Use subtree method which is more targeted than general walk
-    session.subtree(baseOid, (varbinds) => {
-      if (varbinds === null) {
-        // End of MIB view or other error, but just consider it the end
-        resolve(results);
-        return;
+async function discoverCiscoVtpVlans(session, ip, vlans, invalidVlans, rawResponses) {
+  const processedVlanIds = new Set(); // Track already processed VLAN IDs to prevent duplicates
+  
+  // Log the exact OIDs we're querying - be very explicit
+  logger.info(`[SNMP] STRICT TARGET: Using ONLY the following OIDs:`);
+  logger.info(`[SNMP] STRICT TARGET: 1. VLAN state OID: ${VLAN_OIDS.vlanList} (for VLAN IDs)`);
+  logger.info(`[SNMP] STRICT TARGET: 2. VLAN name OID: ${VLAN_OIDS.vlanName} (for VLAN names)`);
+  
+  // STEP 1: Execute a targeted subtree method call for VLAN IDs 
+  logger.info(`[SNMP] Executing targeted subtree call for VLAN IDs with base OID ${VLAN_OIDS.vlanList}`);
+  
+  const vlanIdResults = await performTargetedOperation(session, VLAN_OIDS.vlanList);
+  logger.info(`[SNMP] VLAN ID discovery complete - received ${vlanIdResults.length} OID responses`);
+  
+  // Process VLAN ID results
+  for (const result of vlanIdResults) {
+    if (result && result.oid && result.value !== undefined) {
+      // Log in the raw SNMP format
+      const oidStr = Array.isArray(result.oid) ? result.oid.join('.') : result.oid.toString();
+      const valueStr = result.value.toString();
+      
+      // Add to raw responses for logging
+      rawResponses.vlanState.push({
+        oid: oidStr,
+        value: valueStr
+      });
+      
+      logger.info(`[RAW SNMP VLAN ID] SNMPv2-SMI::enterprises.${oidStr.replace(/^1\.3\.6\.1\.4\.1\./g, '')} = INTEGER: ${valueStr}`);
+      
+      // Parse the VLAN ID from the OID
+      const oidParts = oidStr.split('.');
+      const vlanId = parseInt(oidParts[oidParts.length - 1], 10);
+      
+      // Skip if we've already processed this VLAN ID or it's not a number
+      if (processedVlanIds.has(vlanId) || isNaN(vlanId)) {
+        continue;
       }
       
-      // Process this batch of results
-      for (const varbind of varbinds) {
-        if (!snmp.isVarbindError(varbind)) {
-          results.push({
-            oid: varbind.oid,
-            value: varbind.value
-          });
-        }
+      // Extra validation for VLAN ID range - must be 1-4094
+      if (vlanId < 1 || vlanId > 4094) {
+        invalidVlans.push({
+          vlanId,
+          reason: 'Invalid VLAN ID range'
+        });
+        processedVlanIds.add(vlanId); // Mark as processed anyway to avoid duplicates
+        continue;
+      }
+      
+      // Parse the state value (1 = operational, 2 = suspended, etc.)
+      let stateValue = 0;
+      if (Buffer.isBuffer(result.value)) {
+        stateValue = parseInt(result.value.toString(), 10);
+      } else if (typeof result.value === 'number') {
+        stateValue = result.value;
       }
-    }, (error) => {
-      if (error) {
-        logger.error(`[SNMP] Error in subtree operation for ${baseOid}:`, error);
-        reject(error);
+      
+      // Mark this VLAN ID as processed
+      processedVlanIds.add(vlanId);
+      
+      // Only include VLANs with state value of 1 (active)
+      if (stateValue === 1) {
+        logger.info(`[SNMP] Found active VLAN ${vlanId} with state ${stateValue} on ${ip}`);
+        vlans.push({
+          vlanId,
+          name: `VLAN${vlanId}`, // Default name, will be updated
+          state: 'active',
+          usedBy: [ip]
+        });
       } else {
-        resolve(results);
+        invalidVlans.push({
+          vlanId,
+          reason: 'Inactive VLAN (status not 1)'
+        });
       }
-    });
+    }
+  }
+  
+  // Log the actual VLANs found for debugging
+  logger.info(`[SNMP] VLAN ID discovery found ${vlans.length} active VLANs: ${vlans.map(v => v.vlanId).join(', ')}`);
+  
+  // Reset the processed set for name lookups
+  processedVlanIds.clear();
+  
+  // STEP 2: Get names for the VLANs we already found (if any)
+  if (vlans.length > 0) {
+    logger.info(`[SNMP] Executing targeted subtree call for VLAN names with base OID ${VLAN_OIDS.vlanName}`);
+    
+    const vlanNameResults = await performTargetedOperation(session, VLAN_OIDS.vlanName);
+    logger.info(`[SNMP] VLAN name discovery complete - received ${vlanNameResults.length} OID responses`);
+    
+    // Process VLAN name results
+    for (const result of vlanNameResults) {
+      if (result && result.oid && result.value !== undefined) {
+        // Log in the raw SNMP format
+        const oidStr = Array.isArray(result.oid) ? result.oid.join('.') : result.oid.toString();
+        let valueStr = "";
+        
+        if (Buffer.isBuffer(result.value)) {
+          valueStr = result.value.toString().trim();
+        } else {
+          valueStr = result.value.toString().trim();
+        }
+        
+        // Add to raw responses for logging
+        rawResponses.vlanName.push({
+          oid: oidStr,
+          value: valueStr
+        });
+        
+        logger.info(`[RAW SNMP VLAN NAME] SNMPv2-SMI::enterprises.${oidStr.replace(/^1\.3\.6\.1\.4\.1\./g, '')} = STRING: ${valueStr}`);
+        
+        // Parse the VLAN ID from the OID
+        const oidParts = oidStr.split('.');
+        const vlanId = parseInt(oidParts[oidParts.length - 1], 10);
+        
+        // Skip if we've already processed this VLAN ID for names or it's invalid
+        if (processedVlanIds.has(vlanId) || isNaN(vlanId) || vlanId < 1 || vlanId > 4094) {
+          continue;
+        }
+        
+        processedVlanIds.add(vlanId);
+        
+        // Only update names for VLANs we've already identified
+        const vlan = vlans.find(v => v.vlanId === vlanId);
+        if (vlan) {
+          // Always use the returned name value directly without filtering
+          vlan.name = valueStr || `VLAN${vlanId}`;
+          logger.info(`[SNMP] VLAN ${vlanId} name: "${vlan.name}"`);
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Discover VLAN IDs, names and member ports from the standard 802.1Q Q-BRIDGE-MIB
+ * (dot1qVlanStaticName / dot1qVlanCurrentEgressPorts) for non-Cisco switches
+ * Populates the vlans and invalidVlans arrays in place
+ */
+async function discoverQBridgeVlans(session, ip, vlans, invalidVlans, rawResponses) {
+  logger.info(`[SNMP] STRICT TARGET: Using ONLY the following Q-BRIDGE-MIB OIDs:`);
+  logger.info(`[SNMP] STRICT TARGET: 1. dot1qVlanStaticName: ${QBRIDGE_VLAN_OIDS.staticName} (for VLAN IDs and names)`);
+  logger.info(`[SNMP] STRICT TARGET: 2. dot1qVlanCurrentEgressPorts: ${QBRIDGE_VLAN_OIDS.currentEgressPorts} (for member ports)`);
+  
+  const vlanMap = new Map();
+  
+  const addVlan = (vlanId) => {
+    if (vlanMap.has(vlanId)) return vlanMap.get(vlanId);
+    
+    if (!isValidVlanId(vlanId)) {
+      invalidVlans.push({
+        vlanId,
+        reason: 'Invalid VLAN ID range'
+      });
+      vlanMap.set(vlanId, null);
+      return null;
+    }
+    
+    const vlan = {
+      vlanId,
+      name: `VLAN${vlanId}`,
+      state: 'active',
+      usedBy: [ip],
+      ports: []
+    };
+    vlanMap.set(vlanId, vlan);
+    return vlan;
+  };
+  
+  // STEP 1: VLAN names, indexed by dot1qVlanIndex
+  const nameResults = await performTargetedOperation(session, QBRIDGE_VLAN_OIDS.staticName).catch(error => {
+    logger.warn(`[SNMP] dot1qVlanStaticName walk failed on ${ip}: ${error.message}`);
+    return [];
   });
+  logger.info(`[SNMP] Q-BRIDGE VLAN name discovery complete - received ${nameResults.length} OID responses`);
+  
+  for (const result of nameResults) {
+    const oidStr = result.oid.toString();
+    const [vlanId] = getOidIndex(oidStr, QBRIDGE_VLAN_OIDS.staticName);
+    const name = valueToString(result.value);
+    
+    rawResponses.qbridgeName.push({ oid: oidStr, value: name });
+    logger.info(`[RAW SNMP QBRIDGE NAME] Q-BRIDGE-MIB::dot1qVlanStaticName.${vlanId} = STRING: ${name}`);
+    
+    if (isNaN(vlanId)) continue;
+    
+    const vlan = addVlan(vlanId);
+    if (vlan && name) {
+      vlan.name = name;
+    }
+  }
+  
+  // STEP 2: Current egress ports, indexed by dot1qVlanTimeMark.dot1qVlanIndex
+  const egressResults = await performTargetedOperation(session, QBRIDGE_VLAN_OIDS.currentEgressPorts).catch(error => {
+    logger.warn(`[SNMP] dot1qVlanCurrentEgressPorts walk failed on ${ip}: ${error.message}`);
+    return [];
+  });
+  logger.info(`[SNMP] Q-BRIDGE egress port discovery complete - received ${egressResults.length} OID responses`);
+  
+  // Without egress rows the VLANs named in STEP 1 are still kept, just without member ports
+  if (egressResults.length > 0) {
+    const bridgePortMap = await getBridgePortMap(session);
+  
+    for (const result of egressResults) {
+      const oidStr = result.oid.toString();
+      const index = getOidIndex(oidStr, QBRIDGE_VLAN_OIDS.currentEgressPorts);
+      const vlanId = index[index.length - 1];
+      if (isNaN(vlanId)) continue;
+    
+      const bridgePorts = decodePortList(result.value);
+      rawResponses.qbridgeEgress.push({
+        oid: oidStr,
+        value: Buffer.isBuffer(result.value) ? result.value.toString('hex') : valueToString(result.value),
+        bridgePorts
+      });
+      logger.info(`[RAW SNMP QBRIDGE EGRESS] Q-BRIDGE-MIB::dot1qVlanCurrentEgressPorts.${index.join('.')} = ports ${bridgePorts.join(',')}`);
+    
+      const vlan = addVlan(vlanId);
+      if (!vlan) continue;
+    
+      const portNames = bridgePorts.map(port => {
+        const entry = bridgePortMap[port];
+        return (entry && entry.ifName) || `port ${port}`;
+      });
+      vlan.ports = [...new Set([...vlan.ports, ...portNames])];
+    }
+  }
+  
+  for (const vlan of vlanMap.values()) {
+    if (vlan) {
+      vlans.push(vlan);
+      logger.info(`[SNMP] Found VLAN ${vlan.vlanId} "${vlan.name}" on ${ip} with ${vlan.ports.length} member ports`);
+    }
+  }
+  
+  vlans.sort((a, b) => a.vlanId - b.vlanId);
 }
 
 /**
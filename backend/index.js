@@ -4,6 +4,7 @@ const cors = require('cors');
 const snmpHandler = require('./handlers/snmpHandler');
 const sshHandler = require('./handlers/sshHandler');
 const telnetHandler = require('./handlers/telnetHandler');
+const probeHandler = require('./handlers/probeHandler');
 
 const app = express();
 const PORT = process.env.PORT || 3001;
@@ -82,6 +83,9 @@ app.get('/api/logs', (req, res) => {
   }
 });
 
+// Reachability probing (ICMP + TCP connect)
+app.post('/api/probe', probeHandler.probe);
+
 // SNMP endpoints
 app.post('/api/snmp/connect', snmpHandler.connect);
 app.post('/api/snmp/get', snmpHandler.get);
@@ -89,6 +93,13 @@ app.post('/api/snmp/walk', snmpHandler.walk);
 app.post('/api/snmp/discover-vlans', snmpHandler.discoverVlans);
 app.post('/api/snmp/discover-device', snmpHandler.discoverDevice);
 app.post('/api/snmp/discover-mac-addresses', snmpHandler.discoverMacAddresses);
+app.post('/api/snmp/discover-neighbors', snmpHandler.discoverNeighbors);
+app.post('/api/snmp/discover-routes', snmpHandler.discoverRoutes);
+app.post('/api/snmp/discover-arp', snmpHandler.discoverArp);
+app.post('/api/snmp/discover-poe', snmpHandler.discoverPoe);
+app.post('/api/snmp/discover-interfaces', snmpHandler.discoverInterfaces);
+app.post('/api/snmp/discover-entities', snmpHandler.discoverEntities);
+app.post('/api/snmp/discover-port-vlans', snmpHandler.discoverPortVlans);
 
 // SSH endpoints
 app.post('/api/ssh/connect', sshHandler.connect);
@@ -0,0 +1,88 @@
+const { performTargetedOperation } = require('./snmpSession');
+const { getInterfaceNames, getOidIndex } = require('./bridgePorts');
+
+// IP-MIB address translation tables
+const ARP_OIDS = {
+  // ipNetToPhysicalPhysAddress - indexed by ifIndex, address type, address length and address
+  ipNetToPhysicalPhysAddress: '1.3.6.1.2.1.4.35.1.4',
+  // ipNetToMediaPhysAddress (deprecated, but the only table many agents implement) - indexed by ifIndex and IPv4 address
+  ipNetToMediaPhysAddress: '1.3.6.1.2.1.4.22.1.2',
+  // ipNetToMediaType - 2 = invalid (stale entry awaiting removal)
+  ipNetToMediaType: '1.3.6.1.2.1.4.22.1.4'
+};
+
+const INET_ADDRESS_TYPE_IPV4 = 1;
+
+/**
+ * Derive the VLAN an ARP entry belongs to from the name of its layer 3 interface
+ * Matches SVI naming such as "Vlan20" (Cisco), "vlan.20" (Juniper) and "VLAN 20" (Aruba/HP)
+ */
+function vlanFromInterfaceName(name) {
+  const match = /^vlan[\s.-]?(\d{1,4})$/i.exec(name || '');
+  if (!match) return null;
+  const vlanId = parseInt(match[1], 10);
+  return vlanId >= 1 && vlanId <= 4094 ? vlanId : null;
+}
+
+/**
+ * Format a 6-octet physical address the same way MAC discovery does
+ */
+function formatPhysAddress(value) {
+  if (!Buffer.isBuffer(value) || value.length !== 6) return null;
+  const mac = Array.from(value).map(b => b.toString(16).padStart(2, '0')).join(':').toUpperCase();
+  // Incomplete entries report all zeros, broadcast/multicast entries are not endpoints
+  if (mac === '00:00:00:00:00:00' || (value[0] & 0x01)) return null;
+  return mac;
+}
+
+/**
+ * Walk the ARP cache of a router or L3 switch into IP <-> MAC <-> VLAN bindings
+ * Prefers ipNetToPhysicalTable and falls back to ipNetToMediaTable
+ * @param {Object} session - SNMP session
+ * @returns {Promise<Array>} - [{ ipAddress, macAddress, ifIndex, interface, vlanId }]
+ */
+exports.discoverArpEntries = async (session) => {
+  const interfaceNames = await getInterfaceNames(session).catch(() => ({}));
+  const entries = new Map();
+
+  const addEntry = (ifIndex, ipAddress, value) => {
+    const macAddress = formatPhysAddress(value);
+    if (!macAddress || isNaN(ifIndex)) return;
+    const name = interfaceNames[ifIndex] || null;
+    entries.set(`${ipAddress}|${macAddress}`, {
+      ipAddress,
+      macAddress,
+      ifIndex,
+      interface: name,
+      vlanId: vlanFromInterfaceName(name)
+    });
+  };
+
+  const physicalResults = await performTargetedOperation(session, ARP_OIDS.ipNetToPhysicalPhysAddress).catch(() => []);
+  for (const result of physicalResults) {
+    const [ifIndex, addressType, addressLength, ...address] = getOidIndex(result.oid, ARP_OIDS.ipNetToPhysicalPhysAddress);
+    if (addressType === INET_ADDRESS_TYPE_IPV4 && addressLength === 4 && address.length === 4) {
+      addEntry(ifIndex, address.join('.'), result.value);
+    }
+  }
+
+  if (entries.size === 0) {
+    const invalid = new Set();
+    const typeResults = await performTargetedOperation(session, ARP_OIDS.ipNetToMediaType).catch(() => []);
+    for (const result of typeResults) {
+      if (parseInt(result.value, 10) === 2) {
+        invalid.add(getOidIndex(result.oid, ARP_OIDS.ipNetToMediaType).join('.'));
+      }
+    }
+
+    const mediaResults = await performTargetedOperation(session, ARP_OIDS.ipNetToMediaPhysAddress).catch(() => []);
+    for (const result of mediaResults) {
+      const index = getOidIndex(result.oid, ARP_OIDS.ipNetToMediaPhysAddress);
+      if (index.length !== 5 || invalid.has(index.join('.'))) continue;
+      addEntry(index[0], index.slice(1).join('.'), result.value);
+    }
+  }
+
+  logger.info(`[SNMP] Found ${entries.size} ARP entries`);
+  return Array.from(entries.values());
+};
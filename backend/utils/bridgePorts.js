@@ -0,0 +1,173 @@
+const { performTargetedOperation } = require('./snmpSession');
+
+// BRIDGE-MIB and IF-MIB OIDs used to turn bridge port numbers into interface names
+const BRIDGE_PORT_OIDS = {
+  // dot1dBasePortIfIndex - maps bridge port number to ifIndex
+  basePortIfIndex: '1.3.6.1.2.1.17.1.4.1.2',
+  // ifName - short interface name (e.g. Gi1/0/1)
+  ifName: '1.3.6.1.2.1.31.1.1.1.1',
+  // ifDescr - fallback for agents that do not implement ifXTable
+  ifDescr: '1.3.6.1.2.1.2.2.1.2',
+  // ifAlias - administrator-assigned interface description
+  ifAlias: '1.3.6.1.2.1.31.1.1.1.18'
+};
+
+/**
+ * Get the numeric index suffix of an OID below a base OID
+ * @param {string} oid - Full OID returned by the agent
+ * @param {string} baseOid - Table column OID
+ * @returns {number[]} - Index components
+ */
+function getOidIndex(oid, baseOid) {
+  return oid.toString().slice(baseOid.length + 1).split('.').map(part => parseInt(part, 10));
+}
+
+/**
+ * Convert an SNMP value (Buffer, number or string) to a trimmed string
+ */
+function valueToString(value) {
+  if (value === undefined || value === null) return '';
+  return Buffer.isBuffer(value) ? value.toString().trim() : value.toString().trim();
+}
+
+/**
+ * Convert an SNMP value to an integer
+ * @returns {number|null} - null when the value is missing or not numeric
+ */
+function toInt(value) {
+  const number = parseInt(valueToString(value), 10);
+  return isNaN(number) ? null : number;
+}
+
+/**
+ * Walk a table column into a map of raw values keyed by its index
+ * Multi-part indexes are joined with dots (e.g. "group.port"); single-part indexes are plain ifIndex/entPhysicalIndex keys
+ * @param {Object} session - SNMP session
+ * @param {string} baseOid - Table column OID
+ * @returns {Promise<Object>} - { [index]: value }, empty when the agent does not implement the column
+ */
+async function walkColumn(session, baseOid) {
+  const values = {};
+  const results = await performTargetedOperation(session, baseOid).catch(() => []);
+  for (const result of results) {
+    const index = getOidIndex(result.oid, baseOid);
+    if (!index.some(isNaN)) {
+      values[index.join('.')] = result.value;
+    }
+  }
+  return values;
+}
+
+/**
+ * Decode a Q-BRIDGE PortList bitmap into bridge port numbers
+ * The most significant bit of the first octet is port 1
+ * @param {Buffer} portList - PortList octet string
+ * @returns {number[]} - Bridge port numbers that are set in the list
+ */
+exports.decodePortList = (portList) => {
+  const ports = [];
+  if (!Buffer.isBuffer(portList)) return ports;
+
+  for (let byteIndex = 0; byteIndex < portList.length; byteIndex++) {
+    const octet = portList[byteIndex];
+    if (octet === 0) continue;
+    for (let bit = 0; bit < 8; bit++) {
+      if (octet & (0x80 >> bit)) {
+        ports.push(byteIndex * 8 + bit + 1);
+      }
+    }
+  }
+
+  return ports;
+};
+
+/**
+ * Build a map of bridge port number to interface details
+ * @param {Object} session - SNMP session
+ * @param {Object} interfaces - Optional { names, aliases } from a previous lookup, so per-VLAN
+ *                              sessions only need to walk dot1dBasePortIfIndex
+ * @returns {Promise<Object>} - { [bridgePort]: { ifIndex, ifName, ifAlias } }
+ */
+exports.getBridgePortMap = async (session, interfaces = null) => {
+  const portMap = {};
+
+  const basePortResults = await performTargetedOperation(session, BRIDGE_PORT_OIDS.basePortIfIndex).catch(() => []);
+  for (const result of basePortResults) {
+    const [bridgePort] = getOidIndex(result.oid, BRIDGE_PORT_OIDS.basePortIfIndex);
+    const ifIndex = parseInt(valueToString(result.value), 10);
+    if (!isNaN(bridgePort) && !isNaN(ifIndex)) {
+      portMap[bridgePort] = { ifIndex, ifName: null, ifAlias: null };
+    }
+  }
+
+  if (Object.keys(portMap).length === 0) {
+    logger.warn(`[SNMP] dot1dBasePortIfIndex returned no entries - bridge ports cannot be resolved to interfaces`);
+    return portMap;
+  }
+
+  const { names, aliases } = interfaces || await exports.getInterfaceDetails(session);
+  for (const entry of Object.values(portMap)) {
+    entry.ifName = names[entry.ifIndex] || null;
+    entry.ifAlias = aliases[entry.ifIndex] || null;
+  }
+
+  logger.info(`[SNMP] Resolved ${Object.keys(portMap).length} bridge ports to interfaces`);
+  return portMap;
+};
+
+/**
+ * Get interface names keyed by ifIndex, preferring ifName over ifDescr
+ * @param {Object} session - SNMP session
+ * @returns {Promise<Object>} - { [ifIndex]: name }
+ */
+exports.getInterfaceNames = async (session) => {
+  const names = {};
+
+  const ifNameResults = await performTargetedOperation(session, BRIDGE_PORT_OIDS.ifName).catch(() => []);
+  for (const result of ifNameResults) {
+    const [ifIndex] = getOidIndex(result.oid, BRIDGE_PORT_OIDS.ifName);
+    const name = valueToString(result.value);
+    if (!isNaN(ifIndex) && name) {
+      names[ifIndex] = name;
+    }
+  }
+
+  if (Object.keys(names).length === 0) {
+    const ifDescrResults = await performTargetedOperation(session, BRIDGE_PORT_OIDS.ifDescr).catch(() => []);
+    for (const result of ifDescrResults) {
+      const [ifIndex] = getOidIndex(result.oid, BRIDGE_PORT_OIDS.ifDescr);
+      const name = valueToString(result.value);
+      if (!isNaN(ifIndex) && name) {
+        names[ifIndex] = name;
+      }
+    }
+  }
+
+  return names;
+};
+
+/**
+ * Get interface names and aliases keyed by ifIndex
+ * @param {Object} session - SNMP session
+ * @returns {Promise<Object>} - { names: { [ifIndex]: name }, aliases: { [ifIndex]: alias } }
+ */
+exports.getInterfaceDetails = async (session) => {
+  const names = await exports.getInterfaceNames(session);
+  const aliases = {};
+
+  const ifAliasResults = await performTargetedOperation(session, BRIDGE_PORT_OIDS.ifAlias).catch(() => []);
+  for (const result of ifAliasResults) {
+    const [ifIndex] = getOidIndex(result.oid, BRIDGE_PORT_OIDS.ifAlias);
+    const alias = valueToString(result.value);
+    if (!isNaN(ifIndex) && alias) {
+      aliases[ifIndex] = alias;
+    }
+  }
+
+  return { names, aliases };
+};
+
+exports.getOidIndex = getOidIndex;
+exports.valueToString = valueToString;
+exports.toInt = toInt;
+exports.walkColumn = walkColumn;
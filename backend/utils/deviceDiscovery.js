@@ -1,18 +1,18 @@
 
 const snmp = require('net-snmp');
+const { createSession, describeCredentials } = require('./snmpSession');
 
 /**
  * Discover device information using SNMP
  * @param {string} ip - The IP address of the device
  * @param {string} community - The SNMP community string
  * @param {string} version - The SNMP version
+ * @param {Object} v3 - SNMPv3 credentials, used when version is '3'
  * @returns {Object} - Object containing device information
  */
-exports.discoverDeviceInfo = async (ip, community = 'public', version = '2c') => {
+exports.discoverDeviceInfo = async (ip, community = 'public', version = '2c', v3 = null) => {
   // Create a temporary session for discovery
-  const snmpVersion = version === '1' ? snmp.Version1 : snmp.Version2c;
-  const session = snmp.createSession(ip, community, {
-    version: snmpVersion,
+  const session = createSession(ip, community, version, v3, {
     retries: 1,
     timeout: 5000
   });
@@ -33,7 +33,7 @@ exports.discoverDeviceInfo = async (ip, community = 'public', version = '2c') =>
     logger.info(`[SNMP] STRICT GET: 2. sysObjectID: 1.3.6.1.2.1.1.2.0`);
     logger.info(`[SNMP] STRICT GET: 3. sysName: 1.3.6.1.2.1.1.5.0`);
     logger.info(`[SNMP] STRICT GET: 4. sysLocation: 1.3.6.1.2.1.1.6.0`);
-    logger.info(`[SNMP] Command equivalent: snmpget -v${version} -c ${community} ${ip} ${oids.join(' ')}`);
+    logger.info(`[SNMP] Querying ${ip} with ${describeCredentials(community, version, v3)}`);
     
     await new Promise((resolve, reject) => {
       session.get(oids, (error, varbinds) => {
@@ -0,0 +1,107 @@
+const { toInt, valueToString, walkColumn } = require('./bridgePorts');
+
+// ENTITY-MIB entPhysicalTable columns, indexed by entPhysicalIndex
+const ENTITY_OIDS = {
+  entPhysicalDescr: '1.3.6.1.2.1.47.1.1.1.1.2',
+  entPhysicalContainedIn: '1.3.6.1.2.1.47.1.1.1.1.4', // entPhysicalIndex of the parent, 0 at the top
+  entPhysicalClass: '1.3.6.1.2.1.47.1.1.1.1.5',
+  entPhysicalParentRelPos: '1.3.6.1.2.1.47.1.1.1.1.6', // position among siblings, e.g. stack member or slot number
+  entPhysicalName: '1.3.6.1.2.1.47.1.1.1.1.7',
+  entPhysicalHardwareRev: '1.3.6.1.2.1.47.1.1.1.1.8',
+  entPhysicalFirmwareRev: '1.3.6.1.2.1.47.1.1.1.1.9',
+  entPhysicalSoftwareRev: '1.3.6.1.2.1.47.1.1.1.1.10',
+  entPhysicalSerialNum: '1.3.6.1.2.1.47.1.1.1.1.11',
+  entPhysicalMfgName: '1.3.6.1.2.1.47.1.1.1.1.12',
+  entPhysicalModelName: '1.3.6.1.2.1.47.1.1.1.1.13',
+  entPhysicalIsFRU: '1.3.6.1.2.1.47.1.1.1.1.16'
+};
+
+const PHYSICAL_CLASSES = {
+  1: 'other',
+  2: 'unknown',
+  3: 'chassis',
+  4: 'backplane',
+  5: 'container',
+  6: 'powerSupply',
+  7: 'fan',
+  8: 'sensor',
+  9: 'module',
+  10: 'port',
+  11: 'stack',
+  12: 'cpu'
+};
+
+// Entity classes kept in the inventory - ports, sensors, CPUs and containers (slots) run to hundreds per stack
+const INVENTORY_CLASSES = ['chassis', 'stack', 'module', 'powerSupply', 'fan'];
+
+function toText(value) {
+  const text = valueToString(value).trim();
+  return text && text !== '""' ? text : null;
+}
+
+/**
+ * Discover a device's physical inventory from entPhysicalTable
+ * Stacked switches report one chassis per member under a stack entity, and modular chassis report
+ * their line cards as modules contained in slots, so containment is kept to rebuild the tree
+ * Only chassis, stacks, modules, power supplies and fans are returned, each contained in its nearest returned ancestor
+ * @param {Object} session - SNMP session
+ * @returns {Promise<Array>} - [{ entIndex, containedIn, class, relPos, name, description, model, serialNumber,
+ *   manufacturer, hardwareRev, firmwareRev, softwareRev, isFru }]
+ */
+exports.discoverEntities = async (session) => {
+  const classes = await walkColumn(session, ENTITY_OIDS.entPhysicalClass);
+  const entIndexes = Object.keys(classes).map(entIndex => parseInt(entIndex, 10)).sort((a, b) => a - b);
+
+  if (entIndexes.length === 0) {
+    logger.info(`[SNMP] entPhysicalTable is empty - no hardware inventory found`);
+    return [];
+  }
+
+  const descriptions = await walkColumn(session, ENTITY_OIDS.entPhysicalDescr);
+  const containedIn = await walkColumn(session, ENTITY_OIDS.entPhysicalContainedIn);
+  const relPositions = await walkColumn(session, ENTITY_OIDS.entPhysicalParentRelPos);
+  const names = await walkColumn(session, ENTITY_OIDS.entPhysicalName);
+  const hardwareRevs = await walkColumn(session, ENTITY_OIDS.entPhysicalHardwareRev);
+  const firmwareRevs = await walkColumn(session, ENTITY_OIDS.entPhysicalFirmwareRev);
+  const softwareRevs = await walkColumn(session, ENTITY_OIDS.entPhysicalSoftwareRev);
+  const serials = await walkColumn(session, ENTITY_OIDS.entPhysicalSerialNum);
+  const manufacturers = await walkColumn(session, ENTITY_OIDS.entPhysicalMfgName);
+  const models = await walkColumn(session, ENTITY_OIDS.entPhysicalModelName);
+  const fruFlags = await walkColumn(session, ENTITY_OIDS.entPhysicalIsFRU);
+
+  const allEntities = entIndexes.map(entIndex => ({
+    entIndex,
+    containedIn: toInt(containedIn[entIndex]) || null,
+    class: PHYSICAL_CLASSES[toInt(classes[entIndex])] || 'unknown',
+    relPos: toInt(relPositions[entIndex]),
+    name: toText(names[entIndex]),
+    description: toText(descriptions[entIndex]),
+    model: toText(models[entIndex]),
+    serialNumber: toText(serials[entIndex]),
+    manufacturer: toText(manufacturers[entIndex]),
+    hardwareRev: toText(hardwareRevs[entIndex]),
+    firmwareRev: toText(firmwareRevs[entIndex]),
+    softwareRev: toText(softwareRevs[entIndex]),
+    // TruthValue: 1 = true, 2 = false
+    isFru: toInt(fruFlags[entIndex]) === 1
+  }));
+
+  // Re-parent kept entities onto their nearest kept ancestor, so a line card in a slot hangs off its chassis
+  const byIndex = new Map(allEntities.map(entity => [entity.entIndex, entity]));
+  const entities = allEntities
+    .filter(entity => INVENTORY_CLASSES.includes(entity.class))
+    .map(entity => {
+      const visited = new Set([entity.entIndex]);
+      let parent = byIndex.get(entity.containedIn);
+      while (parent && !INVENTORY_CLASSES.includes(parent.class) && !visited.has(parent.entIndex)) {
+        visited.add(parent.entIndex);
+        parent = byIndex.get(parent.containedIn);
+      }
+      return { ...entity, containedIn: parent && INVENTORY_CLASSES.includes(parent.class) ? parent.entIndex : null };
+    });
+
+  const chassis = entities.filter(entity => entity.class === 'chassis').length;
+  const withSerial = entities.filter(entity => entity.serialNumber).length;
+  logger.info(`[SNMP] Kept ${entities.length} of ${allEntities.length} physical entities (${chassis} chassis, ${withSerial} with serial numbers)`);
+  return entities;
+};
@@ -0,0 +1,87 @@
+const { performTargetedOperation } = require('./snmpSession');
+const { toInt, valueToString, walkColumn } = require('./bridgePorts');
+
+// IF-MIB ifTable/ifXTable columns, indexed by ifIndex
+const IF_OIDS = {
+  ifDescr: '1.3.6.1.2.1.2.2.1.2',
+  ifType: '1.3.6.1.2.1.2.2.1.3',
+  ifSpeed: '1.3.6.1.2.1.2.2.1.5', // bits per second, saturates at 4294967295
+  ifAdminStatus: '1.3.6.1.2.1.2.2.1.7',
+  ifOperStatus: '1.3.6.1.2.1.2.2.1.8',
+  ifLastChange: '1.3.6.1.2.1.2.2.1.9', // sysUpTime at the last oper status change
+  ifName: '1.3.6.1.2.1.31.1.1.1.1',
+  ifHighSpeed: '1.3.6.1.2.1.31.1.1.1.15', // megabits per second
+  ifAlias: '1.3.6.1.2.1.31.1.1.1.18'
+};
+
+const SYS_UPTIME = '1.3.6.1.2.1.1.3';
+
+const ADMIN_STATUS = {
+  1: 'up',
+  2: 'down',
+  3: 'testing'
+};
+
+const OPER_STATUS = {
+  1: 'up',
+  2: 'down',
+  3: 'testing',
+  4: 'unknown',
+  5: 'dormant',
+  6: 'notPresent',
+  7: 'lowerLayerDown'
+};
+
+/**
+ * Discover a device's interfaces from ifTable and ifXTable
+ * @param {Object} session - SNMP session
+ * @returns {Promise<Array>} - [{ ifIndex, name, description, alias, type, speedMbps, adminStatus, operStatus, lastChange }]
+ *   where lastChange is an ISO timestamp of the last oper status change (device boot time if it never changed)
+ */
+exports.discoverInterfaces = async (session) => {
+  const descriptions = await walkColumn(session, IF_OIDS.ifDescr);
+  const ifIndexes = Object.keys(descriptions).map(ifIndex => parseInt(ifIndex, 10));
+
+  if (ifIndexes.length === 0) {
+    logger.info(`[SNMP] ifTable is empty - no interfaces found`);
+    return [];
+  }
+
+  const names = await walkColumn(session, IF_OIDS.ifName);
+  const aliases = await walkColumn(session, IF_OIDS.ifAlias);
+  const types = await walkColumn(session, IF_OIDS.ifType);
+  const highSpeeds = await walkColumn(session, IF_OIDS.ifHighSpeed);
+  const speeds = await walkColumn(session, IF_OIDS.ifSpeed);
+  const adminStatuses = await walkColumn(session, IF_OIDS.ifAdminStatus);
+  const operStatuses = await walkColumn(session, IF_OIDS.ifOperStatus);
+  const lastChanges = await walkColumn(session, IF_OIDS.ifLastChange);
+
+  // TimeTicks are hundredths of a second since the agent started
+  const upTimeResults = await performTargetedOperation(session, SYS_UPTIME).catch(() => []);
+  const sysUpTime = upTimeResults.length > 0 ? toInt(upTimeResults[0].value) : null;
+  const now = Date.now();
+
+  const interfaces = ifIndexes.map(ifIndex => {
+    const highSpeed = toInt(highSpeeds[ifIndex]);
+    const speed = toInt(speeds[ifIndex]);
+    const lastChange = toInt(lastChanges[ifIndex]);
+
+    return {
+      ifIndex,
+      name: valueToString(names[ifIndex]) || valueToString(descriptions[ifIndex]),
+      description: valueToString(descriptions[ifIndex]) || null,
+      alias: valueToString(aliases[ifIndex]) || null,
+      type: toInt(types[ifIndex]),
+      speedMbps: highSpeed || (speed ? Math.round(speed / 1000000) : null),
+      adminStatus: ADMIN_STATUS[toInt(adminStatuses[ifIndex])] || null,
+      operStatus: OPER_STATUS[toInt(operStatuses[ifIndex])] || null,
+      lastChange: sysUpTime !== null && lastChange !== null && lastChange <= sysUpTime
+        ? new Date(now - (sysUpTime - lastChange) * 10).toISOString()
+        : null
+    };
+  });
+
+  const up = interfaces.filter(iface => iface.operStatus === 'up').length;
+  logger.info(`[SNMP] Found ${interfaces.length} interfaces (${up} up)`);
+  return interfaces;
+};
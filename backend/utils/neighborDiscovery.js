@@ -0,0 +1,283 @@
+const { performTargetedOperation } = require('./snmpSession');
+const { getInterfaceNames, getOidIndex, valueToString } = require('./bridgePorts');
+
+// LLDP-MIB (IEEE 802.1AB) OIDs
+const LLDP_OIDS = {
+  // lldpRemTable columns, indexed by time mark, local port number and remote index
+  remChassisIdSubtype: '1.0.8802.1.1.2.1.4.1.1.4',
+  remChassisId: '1.0.8802.1.1.2.1.4.1.1.5',
+  remPortIdSubtype: '1.0.8802.1.1.2.1.4.1.1.6',
+  remPortId: '1.0.8802.1.1.2.1.4.1.1.7',
+  remPortDesc: '1.0.8802.1.1.2.1.4.1.1.8',
+  remSysName: '1.0.8802.1.1.2.1.4.1.1.9',
+  remSysDesc: '1.0.8802.1.1.2.1.4.1.1.10',
+  remSysCapEnabled: '1.0.8802.1.1.2.1.4.1.1.12',
+  // lldpRemManAddrIfSubtype - management addresses are encoded in the index of this table
+  remManAddrIfSubtype: '1.0.8802.1.1.2.1.4.2.1.3',
+  // lldpLocPortId / lldpLocPortDesc - local port identifiers, indexed by local port number
+  locPortId: '1.0.8802.1.1.2.1.3.7.1.3',
+  locPortDesc: '1.0.8802.1.1.2.1.3.7.1.4',
+  // LLDP-EXT-MED-MIB lldpXMedRemDeviceClass - same index as lldpRemTable, only sent by LLDP-MED endpoints
+  medRemDeviceClass: '1.0.8802.1.1.2.1.5.4795.1.3.1.1.3'
+};
+
+// CISCO-CDP-MIB cdpCacheTable columns, indexed by ifIndex and device index
+const CDP_OIDS = {
+  address: '1.3.6.1.4.1.9.9.23.1.2.1.1.4',
+  version: '1.3.6.1.4.1.9.9.23.1.2.1.1.5',
+  deviceId: '1.3.6.1.4.1.9.9.23.1.2.1.1.6',
+  devicePort: '1.3.6.1.4.1.9.9.23.1.2.1.1.7',
+  platform: '1.3.6.1.4.1.9.9.23.1.2.1.1.8',
+  capabilities: '1.3.6.1.4.1.9.9.23.1.2.1.1.9',
+  nativeVlan: '1.3.6.1.4.1.9.9.23.1.2.1.1.11'
+};
+
+// CDP capability bits mapped onto the LLDP capability names used by the shared neighbor model
+const CDP_CAPABILITIES = [
+  { bit: 0x01, name: 'router' },
+  { bit: 0x02, name: 'bridge' }, // transparent bridge - also advertised by Cisco APs
+  { bit: 0x08, name: 'bridge' }, // switch
+  { bit: 0x10, name: 'stationOnly' }, // host
+  { bit: 0x40, name: 'repeater' },
+  { bit: 0x80, name: 'telephone' }
+];
+
+// Bit positions of LldpSystemCapabilitiesMap, most significant bit of the first octet first
+const LLDP_CAPABILITIES = [
+  'other',
+  'repeater',
+  'bridge',
+  'wlanAccessPoint',
+  'router',
+  'telephone',
+  'docsisCableDevice',
+  'stationOnly'
+];
+
+// LldpXMedDeviceClass values - class 3 endpoints are voice devices such as IP phones
+const LLDP_MED_DEVICE_CLASSES = {
+  1: 'endpointClass1',
+  2: 'endpointClass2',
+  3: 'endpointClass3',
+  4: 'networkConnectivity'
+};
+
+// Chassis/port ID subtypes that carry a MAC address or a network address
+const ID_SUBTYPE_MAC = { chassis: 4, port: 3 };
+const ID_SUBTYPE_NETWORK_ADDRESS = { chassis: 5, port: 4 };
+
+/**
+ * Format a 6-octet buffer as a colon-separated MAC address
+ */
+function formatMac(buffer) {
+  return Array.from(buffer).map(b => b.toString(16).padStart(2, '0')).join(':').toUpperCase();
+}
+
+/**
+ * Format an LLDP chassis or port ID according to its subtype
+ * @param {Buffer|string} value - Raw ID value
+ * @param {number} subtype - LldpChassisIdSubtype / LldpPortIdSubtype
+ * @param {string} kind - 'chassis' or 'port'
+ * @returns {string} - Human readable ID
+ */
+function formatLldpId(value, subtype, kind) {
+  if (!Buffer.isBuffer(value)) return valueToString(value);
+
+  if (subtype === ID_SUBTYPE_MAC[kind] && value.length === 6) {
+    return formatMac(value);
+  }
+  // networkAddress: first octet is the IANA address family, 1 = IPv4
+  if (subtype === ID_SUBTYPE_NETWORK_ADDRESS[kind] && value.length === 5 && value[0] === 1) {
+    return Array.from(value.slice(1)).join('.');
+  }
+  // Anything printable (interface names, local IDs) is shown as text, otherwise as hex
+  if (/^[\x20-\x7e]*$/.test(value.toString())) {
+    return value.toString().trim();
+  }
+  return Array.from(value).map(b => b.toString(16).padStart(2, '0')).join(':');
+}
+
+/**
+ * Decode an LldpSystemCapabilitiesMap BITS value into capability names
+ */
+function decodeCapabilities(value) {
+  if (!Buffer.isBuffer(value)) return [];
+  const capabilities = [];
+  LLDP_CAPABILITIES.forEach((name, bit) => {
+    const octet = value[Math.floor(bit / 8)];
+    if (octet !== undefined && octet & (0x80 >> (bit % 8))) {
+      capabilities.push(name);
+    }
+  });
+  return capabilities;
+}
+
+/**
+ * Decode the 32-bit cdpCacheCapabilities octet string into LLDP capability names
+ */
+function decodeCdpCapabilities(value) {
+  if (!Buffer.isBuffer(value) || value.length < 4) return [];
+  const bits = value.readUInt32BE(0);
+  return [...new Set(CDP_CAPABILITIES.filter(cap => bits & cap.bit).map(cap => cap.name))];
+}
+
+/**
+ * Walk a neighbor table column into a map keyed by the two index components after skipFirst
+ * lldpRemTable is indexed by timeMark.localPort.remIndex (skip 1), cdpCacheTable by ifIndex.deviceIndex (skip 0)
+ */
+async function walkRemoteColumn(session, baseOid, skipFirst = 1) {
+  const values = {};
+  const results = await performTargetedOperation(session, baseOid).catch(() => []);
+  for (const result of results) {
+    const index = getOidIndex(result.oid, baseOid).slice(skipFirst);
+    const [localPort, remIndex] = index;
+    if (!isNaN(localPort) && !isNaN(remIndex)) {
+      values[`${localPort}.${remIndex}`] = result.value;
+    }
+  }
+  return values;
+}
+
+/**
+ * Resolve LLDP local port numbers to interface names
+ * lldpLocPortId is usually the interface name; when it is not, fall back to the description
+ * or treat the local port number as an ifIndex
+ */
+async function getLocalPortNames(session) {
+  const ifNames = await getInterfaceNames(session);
+  const knownNames = new Set(Object.values(ifNames));
+  const portNames = {};
+
+  const portIds = await performTargetedOperation(session, LLDP_OIDS.locPortId).catch(() => []);
+  const portDescs = await performTargetedOperation(session, LLDP_OIDS.locPortDesc).catch(() => []);
+  const descByPort = {};
+  for (const result of portDescs) {
+    const [localPort] = getOidIndex(result.oid, LLDP_OIDS.locPortDesc);
+    descByPort[localPort] = valueToString(result.value);
+  }
+
+  for (const result of portIds) {
+    const [localPort] = getOidIndex(result.oid, LLDP_OIDS.locPortId);
+    const portId = valueToString(result.value);
+    if (knownNames.has(portId)) {
+      portNames[localPort] = portId;
+    } else if (knownNames.has(descByPort[localPort])) {
+      portNames[localPort] = descByPort[localPort];
+    } else {
+      portNames[localPort] = ifNames[localPort] || descByPort[localPort] || portId || null;
+    }
+  }
+
+  return { portNames, ifNames };
+}
+
+/**
+ * Discover LLDP neighbors from lldpRemTable
+ * @param {Object} session - SNMP session
+ * @returns {Promise<Array>} - Neighbor entries in the shared neighbor model
+ */
+exports.discoverLldpNeighbors = async (session) => {
+  const chassisSubtypes = await walkRemoteColumn(session, LLDP_OIDS.remChassisIdSubtype);
+  const neighborKeys = Object.keys(chassisSubtypes);
+
+  if (neighborKeys.length === 0) {
+    logger.info(`[SNMP] lldpRemTable is empty - no LLDP neighbors`);
+    return [];
+  }
+
+  const chassisIds = await walkRemoteColumn(session, LLDP_OIDS.remChassisId);
+  const portSubtypes = await walkRemoteColumn(session, LLDP_OIDS.remPortIdSubtype);
+  const portIds = await walkRemoteColumn(session, LLDP_OIDS.remPortId);
+  const portDescs = await walkRemoteColumn(session, LLDP_OIDS.remPortDesc);
+  const sysNames = await walkRemoteColumn(session, LLDP_OIDS.remSysName);
+  const sysDescs = await walkRemoteColumn(session, LLDP_OIDS.remSysDesc);
+  const capabilities = await walkRemoteColumn(session, LLDP_OIDS.remSysCapEnabled);
+  const medDeviceClasses = await walkRemoteColumn(session, LLDP_OIDS.medRemDeviceClass);
+
+  // Index: timeMark.localPort.remIndex.addrSubtype.addrLength.addr... - keep the first IPv4 address
+  const managementAddresses = {};
+  const manAddrResults = await performTargetedOperation(session, LLDP_OIDS.remManAddrIfSubtype).catch(() => []);
+  for (const result of manAddrResults) {
+    const [, localPort, remIndex, addrSubtype, addrLength, ...addr] = getOidIndex(result.oid, LLDP_OIDS.remManAddrIfSubtype);
+    const key = `${localPort}.${remIndex}`;
+    if (addrSubtype === 1 && addrLength === 4 && addr.length === 4 && !managementAddresses[key]) {
+      managementAddresses[key] = addr.join('.');
+    }
+  }
+
+  const { portNames } = await getLocalPortNames(session);
+
+  const neighbors = neighborKeys.map(key => {
+    const localPortNum = parseInt(key.split('.')[0], 10);
+    const chassisSubtype = parseInt(valueToString(chassisSubtypes[key]), 10);
+    const portSubtype = parseInt(valueToString(portSubtypes[key]), 10);
+
+    return {
+      protocol: 'lldp',
+      localPortNum,
+      localPort: portNames[localPortNum] || `port ${localPortNum}`,
+      remoteChassisId: formatLldpId(chassisIds[key], chassisSubtype, 'chassis'),
+      remotePortId: formatLldpId(portIds[key], portSubtype, 'port'),
+      remotePortDescription: valueToString(portDescs[key]) || null,
+      remoteSysName: valueToString(sysNames[key]) || null,
+      remoteSysDescription: valueToString(sysDescs[key]) || null,
+      remoteCapabilities: decodeCapabilities(capabilities[key]),
+      remoteManagementAddress: managementAddresses[key] || null,
+      medDeviceClass: LLDP_MED_DEVICE_CLASSES[parseInt(valueToString(medDeviceClasses[key]), 10)] || null
+    };
+  });
+
+  logger.info(`[SNMP] Found ${neighbors.length} LLDP neighbors: ${neighbors.map(n => `${n.localPort} -> ${n.remoteSysName || n.remoteChassisId}`).join(', ')}`);
+  return neighbors;
+};
+
+/**
+ * Discover CDP neighbors from cdpCacheTable (Cisco estates that run without LLDP)
+ * Results use the same neighbor model as LLDP, plus the CDP platform string and native VLAN
+ * @param {Object} session - SNMP session
+ * @returns {Promise<Array>} - Neighbor entries in the shared neighbor model
+ */
+exports.discoverCdpNeighbors = async (session) => {
+  const deviceIds = await walkRemoteColumn(session, CDP_OIDS.deviceId, 0);
+  const neighborKeys = Object.keys(deviceIds);
+
+  if (neighborKeys.length === 0) {
+    logger.info(`[SNMP] cdpCacheTable is empty - no CDP neighbors`);
+    return [];
+  }
+
+  const addresses = await walkRemoteColumn(session, CDP_OIDS.address, 0);
+  const versions = await walkRemoteColumn(session, CDP_OIDS.version, 0);
+  const devicePorts = await walkRemoteColumn(session, CDP_OIDS.devicePort, 0);
+  const platforms = await walkRemoteColumn(session, CDP_OIDS.platform, 0);
+  const capabilities = await walkRemoteColumn(session, CDP_OIDS.capabilities, 0);
+  const nativeVlans = await walkRemoteColumn(session, CDP_OIDS.nativeVlan, 0);
+  const ifNames = await getInterfaceNames(session);
+
+  const neighbors = neighborKeys.map(key => {
+    const ifIndex = parseInt(key.split('.')[0], 10);
+    const address = addresses[key];
+    const nativeVlan = parseInt(valueToString(nativeVlans[key]), 10);
+
+    return {
+      protocol: 'cdp',
+      localPortNum: ifIndex,
+      localPort: ifNames[ifIndex] || `ifIndex ${ifIndex}`,
+      // CDP has no chassis ID; the device ID (hostname or serial) plays that role
+      remoteChassisId: valueToString(deviceIds[key]),
+      remotePortId: valueToString(devicePorts[key]),
+      remotePortDescription: null,
+      remoteSysName: valueToString(deviceIds[key]).split('(')[0].trim() || null,
+      remoteSysDescription: valueToString(versions[key]) || null,
+      remoteCapabilities: decodeCdpCapabilities(capabilities[key]),
+      remoteManagementAddress: Buffer.isBuffer(address) && address.length === 4 ? Array.from(address).join('.') : null,
+      platform: valueToString(platforms[key]) || null,
+      nativeVlan: isNaN(nativeVlan) || nativeVlan === 0 ? null : nativeVlan
+    };
+  });
+
+  logger.info(`[SNMP] Found ${neighbors.length} CDP neighbors: ${neighbors.map(n => `${n.localPort} -> ${n.remoteSysName} (${n.platform})`).join(', ')}`);
+  return neighbors;
+};
+
+exports.decodeCapabilities = decodeCapabilities;
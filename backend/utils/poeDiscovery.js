@@ -0,0 +1,139 @@
+const { performTargetedOperation } = require('./snmpSession');
+const { getInterfaceNames, getOidIndex, valueToString, toInt, walkColumn } = require('./bridgePorts');
+
+// POWER-ETHERNET-MIB (RFC 3621) OIDs
+const POE_OIDS = {
+  // pethPsePortTable columns, indexed by PSE group and port
+  portAdminEnable: '1.3.6.1.2.1.105.1.1.1.3',
+  portDetectionStatus: '1.3.6.1.2.1.105.1.1.1.6',
+  portPowerClassifications: '1.3.6.1.2.1.105.1.1.1.10',
+  // pethMainPseTable columns, indexed by PSE group (one per stack member or line card)
+  mainPsePower: '1.3.6.1.2.1.105.1.3.1.1.2',
+  mainPseOperStatus: '1.3.6.1.2.1.105.1.3.1.1.3',
+  mainPseConsumptionPower: '1.3.6.1.2.1.105.1.3.1.1.4',
+  mainPseUsageThreshold: '1.3.6.1.2.1.105.1.3.1.1.5'
+};
+
+// RFC 3621 has no per-port power reading, so use CISCO-POWER-ETHERNET-EXT-MIB where it exists (milliwatts)
+const CISCO_POE_OIDS = {
+  portPwrAllocated: '1.3.6.1.4.1.9.9.402.1.2.1.7',
+  portPwrConsumption: '1.3.6.1.4.1.9.9.402.1.2.1.9',
+  portEntPhyIndex: '1.3.6.1.4.1.9.9.402.1.2.1.11'
+};
+
+// ENTITY-MIB entAliasMappingIdentifier - maps an entPhysicalIndex to an ifIndex OID
+const ENT_ALIAS_MAPPING_IDENTIFIER = '1.3.6.1.2.1.47.1.3.2.1.2';
+const IF_INDEX_OID = '1.3.6.1.2.1.2.2.1.1';
+
+const DETECTION_STATUS = {
+  1: 'disabled',
+  2: 'searching',
+  3: 'deliveringPower',
+  4: 'fault',
+  5: 'test',
+  6: 'otherFault'
+};
+
+const OPER_STATUS = {
+  1: 'on',
+  2: 'off',
+  3: 'faulty'
+};
+
+/**
+ * Resolve PSE group.port indexes to ifIndexes
+ * Cisco exposes the port's entPhysicalIndex, which ENTITY-MIB maps to an ifIndex; other agents
+ * commonly number PSE ports by ifIndex within a single group
+ */
+async function getPortIfIndexes(session, portKeys) {
+  const ifIndexes = {};
+
+  const entPhyIndexes = await walkColumn(session, CISCO_POE_OIDS.portEntPhyIndex);
+  if (Object.keys(entPhyIndexes).length > 0) {
+    const aliasResults = await performTargetedOperation(session, ENT_ALIAS_MAPPING_IDENTIFIER).catch(() => []);
+    const ifIndexByEntity = {};
+    for (const result of aliasResults) {
+      const [entPhysicalIndex] = getOidIndex(result.oid, ENT_ALIAS_MAPPING_IDENTIFIER);
+      const target = valueToString(result.value);
+      if (target.startsWith(`${IF_INDEX_OID}.`)) {
+        ifIndexByEntity[entPhysicalIndex] = parseInt(target.slice(IF_INDEX_OID.length + 1), 10);
+      }
+    }
+    for (const key of portKeys) {
+      const ifIndex = ifIndexByEntity[toInt(entPhyIndexes[key])];
+      if (ifIndex) {
+        ifIndexes[key] = ifIndex;
+      }
+    }
+  }
+
+  const groups = new Set(portKeys.map(key => key.split('.')[0]));
+  for (const key of portKeys) {
+    if (!ifIndexes[key] && groups.size === 1) {
+      ifIndexes[key] = parseInt(key.split('.')[1], 10);
+    }
+  }
+
+  return ifIndexes;
+}
+
+/**
+ * Discover the PoE power budget of each PSE and the power state of each PoE port
+ * @param {Object} session - SNMP session
+ * @returns {Promise<Object>} - { supplies: [{ group, powerW, consumptionW, operStatus, usageThreshold }],
+ *   ports: [{ group, port, ifIndex, interface, adminEnabled, detectionStatus, powerClass, powerMw, allocatedMw }] }
+ */
+exports.discoverPoe = async (session) => {
+  const supplyPower = await walkColumn(session, POE_OIDS.mainPsePower);
+  const supplyGroups = Object.keys(supplyPower);
+
+  const operStatuses = await walkColumn(session, POE_OIDS.mainPseOperStatus);
+  const consumption = await walkColumn(session, POE_OIDS.mainPseConsumptionPower);
+  const thresholds = await walkColumn(session, POE_OIDS.mainPseUsageThreshold);
+
+  const supplies = supplyGroups.map(group => ({
+    group: parseInt(group, 10),
+    powerW: toInt(supplyPower[group]),
+    consumptionW: toInt(consumption[group]),
+    operStatus: OPER_STATUS[toInt(operStatuses[group])] || null,
+    usageThreshold: toInt(thresholds[group])
+  }));
+
+  const detectionStatuses = await walkColumn(session, POE_OIDS.portDetectionStatus);
+  const portKeys = Object.keys(detectionStatuses);
+
+  if (portKeys.length === 0) {
+    logger.info(`[SNMP] pethPsePortTable is empty - device has no PoE ports`);
+    return { supplies, ports: [] };
+  }
+
+  const adminEnabled = await walkColumn(session, POE_OIDS.portAdminEnable);
+  const powerClasses = await walkColumn(session, POE_OIDS.portPowerClassifications);
+  const powerConsumption = await walkColumn(session, CISCO_POE_OIDS.portPwrConsumption);
+  const powerAllocated = await walkColumn(session, CISCO_POE_OIDS.portPwrAllocated);
+  const ifIndexes = await getPortIfIndexes(session, portKeys);
+  const ifNames = await getInterfaceNames(session).catch(() => ({}));
+
+  const ports = portKeys.map(key => {
+    const [group, port] = key.split('.').map(part => parseInt(part, 10));
+    const ifIndex = ifIndexes[key] || null;
+    const powerClass = toInt(powerClasses[key]);
+
+    return {
+      group,
+      port,
+      ifIndex,
+      interface: (ifIndex && ifNames[ifIndex]) || null,
+      adminEnabled: toInt(adminEnabled[key]) !== 2,
+      detectionStatus: DETECTION_STATUS[toInt(detectionStatuses[key])] || null,
+      // pethPsePortPowerClassifications is class0(1) .. class4(5)
+      powerClass: powerClass ? powerClass - 1 : null,
+      powerMw: toInt(powerConsumption[key]),
+      allocatedMw: toInt(powerAllocated[key])
+    };
+  });
+
+  const powered = ports.filter(port => port.detectionStatus === 'deliveringPower').length;
+  logger.info(`[SNMP] Found ${supplies.length} PoE supplies and ${ports.length} PoE ports (${powered} delivering power)`);
+  return { supplies, ports };
+};
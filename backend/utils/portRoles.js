@@ -0,0 +1,108 @@
+const { performTargetedOperation } = require('./snmpSession');
+const { getOidIndex, valueToString } = require('./bridgePorts');
+const { decodeCapabilities } = require('./neighborDiscovery');
+
+// OIDs used to tell access ports apart from trunks and uplinks
+const PORT_ROLE_OIDS = {
+  // vlanTrunkPortDynamicStatus (CISCO-VTP-MIB) - 1 = trunking, 2 = notTrunking, indexed by ifIndex
+  trunkDynamicStatus: '1.3.6.1.4.1.9.9.46.1.6.1.1.14',
+  // lldpRemSysCapEnabled - enabled capabilities of each LLDP neighbor, indexed by time mark, local port and neighbor index
+  lldpRemSysCapEnabled: '1.0.8802.1.1.2.1.4.1.1.12',
+  // lldpLocPortId - local port identifier (usually the interface name), indexed by local port number
+  lldpLocPortId: '1.0.8802.1.1.2.1.3.7.1.3'
+};
+
+// Neighbor capabilities that mark the link as switch-to-switch rather than an endpoint such as a phone or AP
+const INFRASTRUCTURE_CAPABILITIES = ['bridge', 'router'];
+
+// A port with more learned MACs than this is treated as an uplink to another switch
+const DEFAULT_UPLINK_MAC_THRESHOLD = 10;
+
+/**
+ * Collect the ifIndexes of trunking ports and ports with a bridge or router LLDP neighbor
+ * Both walks are optional - agents that do not implement a MIB simply contribute nothing
+ * @param {Object} session - SNMP session in the default context
+ * @param {Object} interfaceNames - { [ifIndex]: name } used to resolve LLDP local ports
+ * @returns {Promise<Object>} - { trunkIfIndexes: Set<number>, neighborIfIndexes: Set<number> }
+ */
+exports.getPortRoleSignals = async (session, interfaceNames = {}) => {
+  const trunkIfIndexes = new Set();
+  const neighborIfIndexes = new Set();
+
+  const trunkResults = await performTargetedOperation(session, PORT_ROLE_OIDS.trunkDynamicStatus).catch(() => []);
+  for (const result of trunkResults) {
+    const [ifIndex] = getOidIndex(result.oid, PORT_ROLE_OIDS.trunkDynamicStatus);
+    if (!isNaN(ifIndex) && parseInt(valueToString(result.value), 10) === 1) {
+      trunkIfIndexes.add(ifIndex);
+    }
+  }
+
+  const neighborResults = await performTargetedOperation(session, PORT_ROLE_OIDS.lldpRemSysCapEnabled).catch(() => []);
+  if (neighborResults.length > 0) {
+    // LLDP local port numbers are not guaranteed to be ifIndexes, so match them by name where possible
+    const ifIndexByName = {};
+    for (const [ifIndex, name] of Object.entries(interfaceNames)) {
+      ifIndexByName[name] = parseInt(ifIndex, 10);
+    }
+
+    const localPortIfIndex = {};
+    const localPortResults = await performTargetedOperation(session, PORT_ROLE_OIDS.lldpLocPortId).catch(() => []);
+    for (const result of localPortResults) {
+      const [localPort] = getOidIndex(result.oid, PORT_ROLE_OIDS.lldpLocPortId);
+      const ifIndex = ifIndexByName[valueToString(result.value)];
+      if (!isNaN(localPort) && ifIndex !== undefined) {
+        localPortIfIndex[localPort] = ifIndex;
+      }
+    }
+
+    for (const result of neighborResults) {
+      // Phones and access points also speak LLDP but their ports stay access ports
+      const capabilities = decodeCapabilities(result.value);
+      if (!capabilities.some(capability => INFRASTRUCTURE_CAPABILITIES.includes(capability))) {
+        continue;
+      }
+
+      const [, localPort] = getOidIndex(result.oid, PORT_ROLE_OIDS.lldpRemSysCapEnabled);
+      if (!isNaN(localPort)) {
+        neighborIfIndexes.add(localPortIfIndex[localPort] !== undefined ? localPortIfIndex[localPort] : localPort);
+      }
+    }
+  }
+
+  logger.info(`[SNMP] Port role signals: ${trunkIfIndexes.size} trunking ports, ${neighborIfIndexes.size} ports with bridge/router LLDP neighbors`);
+  return { trunkIfIndexes, neighborIfIndexes };
+};
+
+/**
+ * Tag each MAC with the role of the port it was learned on ('access', 'trunk' or 'uplink')
+ * Trunk status and bridge/router LLDP neighbors win; otherwise ports above the MAC threshold are uplinks
+ * @param {Array} macs - MAC entries with ifIndex and/or bridgePort, modified in place
+ * @param {Object} signals - Result of getPortRoleSignals
+ * @param {number} threshold - MAC count above which a port is treated as an uplink
+ * @returns {Array} - The same MAC entries
+ */
+exports.tagPortRoles = (macs, signals, threshold = DEFAULT_UPLINK_MAC_THRESHOLD) => {
+  const portKey = mac => (mac.ifIndex !== undefined ? `if:${mac.ifIndex}` : `bp:${mac.bridgePort}`);
+
+  const macCounts = {};
+  for (const mac of macs) {
+    const key = portKey(mac);
+    macCounts[key] = (macCounts[key] || 0) + 1;
+  }
+
+  for (const mac of macs) {
+    if (mac.ifIndex !== undefined && signals.trunkIfIndexes.has(mac.ifIndex)) {
+      mac.portRole = 'trunk';
+    } else if (mac.ifIndex !== undefined && signals.neighborIfIndexes.has(mac.ifIndex)) {
+      mac.portRole = 'uplink';
+    } else if (mac.bridgePort !== undefined && macCounts[portKey(mac)] > threshold) {
+      mac.portRole = 'uplink';
+    } else {
+      mac.portRole = 'access';
+    }
+  }
+
+  return macs;
+};
+
+exports.DEFAULT_UPLINK_MAC_THRESHOLD = DEFAULT_UPLINK_MAC_THRESHOLD;
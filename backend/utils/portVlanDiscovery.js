@@ -0,0 +1,214 @@
+const { performTargetedOperation } = require('./snmpSession');
+const { getOidIndex, valueToString, toInt, walkColumn, decodePortList, getBridgePortMap, getInterfaceNames } = require('./bridgePorts');
+
+const PORT_VLAN_OIDS = {
+  // CISCO-VLAN-MEMBERSHIP-MIB, indexed by ifIndex
+  vmVlan: '1.3.6.1.4.1.9.9.68.1.2.2.1.2', // access VLAN of a static/dynamic access port
+  vmVoiceVlanId: '1.3.6.1.4.1.9.9.68.1.5.1.1.1', // 1-4094 = voice VLAN, 4095 = dot1p, 4096 = untagged
+  // CISCO-VTP-MIB vlanTrunkPortTable, indexed by ifIndex
+  vlanTrunkPortNativeVlan: '1.3.6.1.4.1.9.9.46.1.6.1.1.5',
+  vlanTrunkPortDynamicStatus: '1.3.6.1.4.1.9.9.46.1.6.1.1.14', // 1 = trunking, 2 = notTrunking
+  // Allowed VLAN bitmaps, 1024 VLANs each, starting at VLAN 0, 1024, 2048 and 3072
+  vlanTrunkPortVlansEnabled: '1.3.6.1.4.1.9.9.46.1.6.1.1.4',
+  vlanTrunkPortVlansEnabled2k: '1.3.6.1.4.1.9.9.46.1.6.1.1.17',
+  vlanTrunkPortVlansEnabled3k: '1.3.6.1.4.1.9.9.46.1.6.1.1.18',
+  vlanTrunkPortVlansEnabled4k: '1.3.6.1.4.1.9.9.46.1.6.1.1.19',
+  // Q-BRIDGE-MIB
+  dot1qPvid: '1.3.6.1.2.1.17.7.1.4.5.1.1', // untagged VLAN of a bridge port
+  dot1qVlanCurrentEgressPorts: '1.3.6.1.2.1.17.7.1.4.2.1.4', // indexed by time mark and VLAN ID
+  dot1qVlanCurrentUntaggedPorts: '1.3.6.1.2.1.17.7.1.4.2.1.5',
+  dot1qVlanStaticName: '1.3.6.1.2.1.17.7.1.4.3.1.1'
+};
+
+// A tagged VLAN with one of these names on an otherwise untagged port is a voice VLAN
+const VOICE_VLAN_NAME = /voice|voip|phone/i;
+
+/**
+ * Walk a column indexed by ifIndex into a map of integers
+ */
+async function walkIntColumn(session, baseOid) {
+  const values = {};
+  for (const [ifIndex, value] of Object.entries(await walkColumn(session, baseOid))) {
+    const number = toInt(value);
+    if (number !== null) {
+      values[ifIndex] = number;
+    }
+  }
+  return values;
+}
+
+/**
+ * Format VLAN IDs as a compact range list such as "1,10,20-30"
+ * @param {number[]} vlanIds - VLAN IDs in any order
+ * @returns {string}
+ */
+function formatVlanRanges(vlanIds) {
+  const sorted = Array.from(new Set(vlanIds)).sort((a, b) => a - b);
+  const ranges = [];
+  let start = null;
+  let previous = null;
+
+  for (const vlanId of sorted) {
+    if (start !== null && vlanId === previous + 1) {
+      previous = vlanId;
+      continue;
+    }
+    if (start !== null) {
+      ranges.push(start === previous ? `${start}` : `${start}-${previous}`);
+    }
+    start = vlanId;
+    previous = vlanId;
+  }
+  if (start !== null) {
+    ranges.push(start === previous ? `${start}` : `${start}-${previous}`);
+  }
+
+  return ranges.join(',');
+}
+
+/**
+ * Cisco: access VLAN and voice VLAN from vmMembershipTable, native and allowed VLANs from vlanTrunkPortTable
+ */
+async function discoverCiscoPortVlans(session, names) {
+  const trunkStatus = await walkIntColumn(session, PORT_VLAN_OIDS.vlanTrunkPortDynamicStatus);
+  const accessVlans = await walkIntColumn(session, PORT_VLAN_OIDS.vmVlan);
+
+  if (Object.keys(trunkStatus).length === 0 && Object.keys(accessVlans).length === 0) {
+    return [];
+  }
+
+  const voiceVlans = await walkIntColumn(session, PORT_VLAN_OIDS.vmVoiceVlanId);
+  const nativeVlans = await walkIntColumn(session, PORT_VLAN_OIDS.vlanTrunkPortNativeVlan);
+
+  // Each bitmap column covers 1024 VLANs; the most significant bit of its first octet is the lowest VLAN
+  const allowed = {};
+  const bitmapColumns = [
+    [PORT_VLAN_OIDS.vlanTrunkPortVlansEnabled, 0],
+    [PORT_VLAN_OIDS.vlanTrunkPortVlansEnabled2k, 1024],
+    [PORT_VLAN_OIDS.vlanTrunkPortVlansEnabled3k, 2048],
+    [PORT_VLAN_OIDS.vlanTrunkPortVlansEnabled4k, 3072]
+  ];
+  for (const [baseOid, offset] of bitmapColumns) {
+    const results = await performTargetedOperation(session, baseOid).catch(() => []);
+    for (const result of results) {
+      const [ifIndex] = getOidIndex(result.oid, baseOid);
+      if (isNaN(ifIndex) || trunkStatus[ifIndex] !== 1) continue;
+      allowed[ifIndex] = allowed[ifIndex] || [];
+      for (const bit of decodePortList(result.value)) {
+        const vlanId = offset + bit - 1;
+        if (vlanId >= 1 && vlanId <= 4094) {
+          allowed[ifIndex].push(vlanId);
+        }
+      }
+    }
+  }
+
+  const ifIndexes = new Set([...Object.keys(trunkStatus), ...Object.keys(accessVlans)].map(ifIndex => parseInt(ifIndex, 10)));
+  const ports = [];
+  for (const ifIndex of Array.from(ifIndexes).sort((a, b) => a - b)) {
+    const isTrunk = trunkStatus[ifIndex] === 1;
+    // vlanTrunkPortTable has a row for every switchport, so a non-trunking port needs a vmVlan to be an access port
+    if (!isTrunk && accessVlans[ifIndex] === undefined) continue;
+
+    const voiceVlan = voiceVlans[ifIndex];
+    ports.push({
+      ifIndex,
+      interface: names[ifIndex] || null,
+      mode: isTrunk ? 'trunk' : 'access',
+      accessVlan: isTrunk ? null : accessVlans[ifIndex],
+      nativeVlan: isTrunk ? (nativeVlans[ifIndex] || null) : null,
+      allowedVlans: isTrunk && allowed[ifIndex] ? formatVlanRanges(allowed[ifIndex]) : null,
+      voiceVlan: voiceVlan >= 1 && voiceVlan <= 4094 ? voiceVlan : null
+    });
+  }
+  return ports;
+}
+
+/**
+ * Q-BRIDGE: a port that egresses any VLAN tagged is a trunk, unless the only tagged VLAN is named as a voice VLAN
+ */
+async function discoverQBridgePortVlans(session, names) {
+  const egress = {};
+  const untagged = {};
+  for (const [baseOid, target] of [
+    [PORT_VLAN_OIDS.dot1qVlanCurrentEgressPorts, egress],
+    [PORT_VLAN_OIDS.dot1qVlanCurrentUntaggedPorts, untagged]
+  ]) {
+    const results = await performTargetedOperation(session, baseOid).catch(() => []);
+    for (const result of results) {
+      const index = getOidIndex(result.oid, baseOid);
+      const vlanId = index[index.length - 1];
+      if (isNaN(vlanId)) continue;
+      for (const bridgePort of decodePortList(result.value)) {
+        target[bridgePort] = target[bridgePort] || new Set();
+        target[bridgePort].add(vlanId);
+      }
+    }
+  }
+
+  if (Object.keys(egress).length === 0) {
+    return [];
+  }
+
+  const pvids = await walkIntColumn(session, PORT_VLAN_OIDS.dot1qPvid);
+  const vlanNames = {};
+  const nameResults = await performTargetedOperation(session, PORT_VLAN_OIDS.dot1qVlanStaticName).catch(() => []);
+  for (const result of nameResults) {
+    const [vlanId] = getOidIndex(result.oid, PORT_VLAN_OIDS.dot1qVlanStaticName);
+    vlanNames[vlanId] = valueToString(result.value);
+  }
+
+  const portMap = await getBridgePortMap(session, { names, aliases: {} });
+  const ports = [];
+  for (const bridgePort of Object.keys(egress).map(port => parseInt(port, 10)).sort((a, b) => a - b)) {
+    const ifIndex = portMap[bridgePort] ? portMap[bridgePort].ifIndex : bridgePort;
+    const untaggedVlans = untagged[bridgePort] || new Set();
+    const taggedVlans = Array.from(egress[bridgePort]).filter(vlanId => !untaggedVlans.has(vlanId));
+    const pvid = pvids[bridgePort] || Array.from(untaggedVlans)[0] || null;
+    const voiceVlan = taggedVlans.length === 1 && VOICE_VLAN_NAME.test(vlanNames[taggedVlans[0]] || '')
+      ? taggedVlans[0]
+      : null;
+    const isTrunk = taggedVlans.length > 0 && voiceVlan === null;
+
+    ports.push({
+      ifIndex,
+      interface: names[ifIndex] || null,
+      mode: isTrunk ? 'trunk' : 'access',
+      accessVlan: isTrunk ? null : pvid,
+      nativeVlan: isTrunk ? pvid : null,
+      allowedVlans: isTrunk ? formatVlanRanges(Array.from(egress[bridgePort])) : null,
+      voiceVlan
+    });
+  }
+  return ports;
+}
+
+/**
+ * Discover the VLAN configuration of each switchport
+ * Cisco agents are read from CISCO-VLAN-MEMBERSHIP-MIB and CISCO-VTP-MIB; other agents fall back to Q-BRIDGE-MIB
+ * egress and untagged port sets
+ * @param {Object} session - SNMP session
+ * @returns {Promise<Object>} - { ports: [{ ifIndex, interface, mode, accessVlan, nativeVlan, allowedVlans, voiceVlan }], source }
+ */
+exports.discoverPortVlans = async (session) => {
+  const names = await getInterfaceNames(session);
+
+  let ports = await discoverCiscoPortVlans(session, names);
+  let source = 'cisco';
+  if (ports.length === 0) {
+    ports = await discoverQBridgePortVlans(session, names);
+    source = 'qbridge';
+  }
+
+  if (ports.length === 0) {
+    logger.info(`[SNMP] No per-port VLAN configuration found`);
+    return { ports: [], source: null };
+  }
+
+  const trunks = ports.filter(port => port.mode === 'trunk').length;
+  const voicePorts = ports.filter(port => port.voiceVlan !== null).length;
+  logger.info(`[SNMP] Found VLAN configuration for ${ports.length} ports via ${source} (${trunks} trunks, ${voicePorts} with a voice VLAN)`);
+  return { ports, source };
+};
+
+exports.formatVlanRanges = formatVlanRanges;
@@ -0,0 +1,83 @@
+const net = require('net');
+const { execFile } = require('child_process');
+
+// Management ports checked by default: SSH, Telnet, HTTP, SNMP (over TCP) and HTTPS
+const DEFAULT_PROBE_PORTS = [22, 23, 80, 161, 443];
+const DEFAULT_PROBE_TIMEOUT = 1000;
+
+/**
+ * Send a single ICMP echo using the system ping binary (raw sockets need root)
+ * @param {string} ip - Host to ping
+ * @param {number} timeout - Timeout in milliseconds
+ * @returns {Promise<Object>} - { alive: boolean, latencyMs: number|null }
+ */
+function pingHost(ip, timeout) {
+  const args = process.platform === 'win32'
+    ? ['-n', '1', '-w', String(timeout), ip]
+    : process.platform === 'darwin'
+      ? ['-c', '1', '-W', String(timeout), ip]
+      : ['-c', '1', '-W', String(Math.max(1, Math.ceil(timeout / 1000))), ip];
+
+  return new Promise(resolve => {
+    const started = Date.now();
+    execFile('ping', args, { timeout: timeout + 1000 }, (error, stdout) => {
+      if (error) {
+        return resolve({ alive: false, latencyMs: null });
+      }
+      const match = /time[=<]\s*([\d.]+)\s*ms/i.exec(stdout);
+      resolve({ alive: true, latencyMs: match ? parseFloat(match[1]) : Date.now() - started });
+    });
+  });
+}
+
+/**
+ * Attempt a TCP connect to a port
+ * A refused connection still proves the host is up - only a timeout means nothing answered
+ * @returns {Promise<string>} - 'open', 'closed' (refused) or 'filtered' (no answer)
+ */
+function checkTcpPort(ip, port, timeout) {
+  return new Promise(resolve => {
+    const socket = new net.Socket();
+    let settled = false;
+    const finish = state => {
+      if (settled) return;
+      settled = true;
+      socket.destroy();
+      resolve(state);
+    };
+
+    socket.setTimeout(timeout);
+    socket.once('connect', () => finish('open'));
+    socket.once('timeout', () => finish('filtered'));
+    socket.once('error', error => finish(error.code === 'ECONNREFUSED' ? 'closed' : 'filtered'));
+    socket.connect(port, ip);
+  });
+}
+
+/**
+ * Probe a host with ICMP and TCP connects to its management ports, all within one timeout
+ * @param {string} ip - Host to probe
+ * @param {Object} options - { ports, timeout }
+ * @returns {Promise<Object>} - { ip, reachable, icmp, latencyMs, openPorts, closedPorts }
+ */
+exports.probeHost = async (ip, { ports = DEFAULT_PROBE_PORTS, timeout = DEFAULT_PROBE_TIMEOUT } = {}) => {
+  const [ping, ...portStates] = await Promise.all([
+    pingHost(ip, timeout),
+    ...ports.map(port => checkTcpPort(ip, port, timeout))
+  ]);
+
+  const openPorts = ports.filter((port, i) => portStates[i] === 'open');
+  const closedPorts = ports.filter((port, i) => portStates[i] === 'closed');
+
+  return {
+    ip,
+    reachable: ping.alive || openPorts.length > 0 || closedPorts.length > 0,
+    icmp: ping.alive,
+    latencyMs: ping.latencyMs,
+    openPorts,
+    closedPorts
+  };
+};
+
+exports.DEFAULT_PROBE_PORTS = DEFAULT_PROBE_PORTS;
+exports.DEFAULT_PROBE_TIMEOUT = DEFAULT_PROBE_TIMEOUT;
@@ -0,0 +1,90 @@
+const { performTargetedOperation } = require('./snmpSession');
+const { getOidIndex, valueToString } = require('./bridgePorts');
+
+// IP-MIB / IP-FORWARD-MIB OIDs used to find a router's connected subnets and next-hop routers
+const ROUTE_OIDS = {
+  // ipAdEntIfIndex / ipAdEntNetMask - indexed by the interface IP address
+  ipAdEntIfIndex: '1.3.6.1.2.1.4.20.1.2',
+  ipAdEntNetMask: '1.3.6.1.2.1.4.20.1.3',
+  // ipRouteNextHop (RFC 1213) - indexed by destination
+  ipRouteNextHop: '1.3.6.1.2.1.4.21.1.7',
+  // ipCidrRouteNextHop (RFC 2096) - indexed by destination, mask, TOS and next hop
+  ipCidrRouteNextHop: '1.3.6.1.2.1.4.24.4.1.4'
+};
+
+/**
+ * Convert a dotted netmask to a prefix length
+ */
+function netmaskToPrefix(netmask) {
+  return netmask.split('.').reduce((bits, octet) => bits + ((parseInt(octet, 10) >>> 0).toString(2).match(/1/g) || []).length, 0);
+}
+
+/**
+ * Network address of ip/prefix, e.g. 10.1.20.1/24 -> 10.1.20.0/24
+ */
+function toNetworkCidr(ip, prefix) {
+  const ipLong = ip.split('.').reduce((acc, octet) => ((acc << 8) | parseInt(octet, 10)) >>> 0, 0);
+  const mask = prefix === 0 ? 0 : (~0 << (32 - prefix)) >>> 0;
+  const network = (ipLong & mask) >>> 0;
+  return `${[24, 16, 8, 0].map(shift => (network >>> shift) & 255).join('.')}/${prefix}`;
+}
+
+/**
+ * Decode an IpAddress varbind, which net-snmp may hand back as a string or a 4-octet buffer
+ */
+function ipFromValue(value) {
+  if (Buffer.isBuffer(value) && value.length === 4) {
+    return Array.from(value).join('.');
+  }
+  return valueToString(value);
+}
+
+/**
+ * Collect a device's interface addresses (its connected subnets) and the next hops in its routing table
+ * Used by seed crawl discovery to hop from router to router and to learn subnets nobody entered
+ * @param {Object} session - SNMP session
+ * @returns {Promise<Object>} - { interfaces: [{ ipAddress, ifIndex, subnet }], nextHops: string[] }
+ */
+exports.discoverRoutingInfo = async (session) => {
+  const interfaces = [];
+  const masks = {};
+
+  const maskResults = await performTargetedOperation(session, ROUTE_OIDS.ipAdEntNetMask).catch(() => []);
+  for (const result of maskResults) {
+    const ipAddress = getOidIndex(result.oid, ROUTE_OIDS.ipAdEntNetMask).join('.');
+    masks[ipAddress] = ipFromValue(result.value);
+  }
+
+  const ifIndexResults = await performTargetedOperation(session, ROUTE_OIDS.ipAdEntIfIndex).catch(() => []);
+  for (const result of ifIndexResults) {
+    const ipAddress = getOidIndex(result.oid, ROUTE_OIDS.ipAdEntIfIndex).join('.');
+    // Loopbacks and host routes don't describe a subnet worth crawling
+    if (ipAddress.startsWith('127.') || !masks[ipAddress]) continue;
+
+    const prefix = netmaskToPrefix(masks[ipAddress]);
+    if (prefix >= 31) continue;
+
+    interfaces.push({
+      ipAddress,
+      ifIndex: parseInt(valueToString(result.value), 10),
+      subnet: toNetworkCidr(ipAddress, prefix)
+    });
+  }
+
+  const localAddresses = new Set(Object.keys(masks));
+  const nextHops = new Set();
+  let routeResults = await performTargetedOperation(session, ROUTE_OIDS.ipRouteNextHop).catch(() => []);
+  if (routeResults.length === 0) {
+    routeResults = await performTargetedOperation(session, ROUTE_OIDS.ipCidrRouteNextHop).catch(() => []);
+  }
+  for (const result of routeResults) {
+    const nextHop = ipFromValue(result.value);
+    // Directly connected routes point back at the router itself or at 0.0.0.0
+    if (/^\d+\.\d+\.\d+\.\d+$/.test(nextHop) && nextHop !== '0.0.0.0' && !localAddresses.has(nextHop)) {
+      nextHops.add(nextHop);
+    }
+  }
+
+  logger.info(`[SNMP] Found ${interfaces.length} routed interfaces and ${nextHops.size} next hops`);
+  return { interfaces, nextHops: Array.from(nextHops) };
+};
@@ -0,0 +1,152 @@
+const snmp = require('net-snmp');
+
+// Map the protocol names used by the frontend to net-snmp constants
+const AUTH_PROTOCOLS = {
+  md5: snmp.AuthProtocols.md5,
+  sha: snmp.AuthProtocols.sha,
+  sha224: snmp.AuthProtocols.sha224,
+  sha256: snmp.AuthProtocols.sha256,
+  sha384: snmp.AuthProtocols.sha384,
+  sha512: snmp.AuthProtocols.sha512
+};
+
+const PRIV_PROTOCOLS = {
+  des: snmp.PrivProtocols.des,
+  aes: snmp.PrivProtocols.aes,
+  aes256b: snmp.PrivProtocols.aes256b,
+  aes256r: snmp.PrivProtocols.aes256r
+};
+
+/**
+ * Build the net-snmp USM user object from the SNMPv3 credentials sent by the frontend
+ * @param {Object} v3 - SNMPv3 credentials (securityName, securityLevel, authProtocol, authKey, privProtocol, privKey)
+ * @returns {Object} - USM user for snmp.createV3Session
+ */
+function buildV3User(v3) {
+  if (!v3 || !v3.securityName) {
+    throw new Error('SNMPv3 requires a security name');
+  }
+
+  const level = v3.securityLevel || 'authPriv';
+  const user = {
+    name: v3.securityName,
+    level: snmp.SecurityLevel[level]
+  };
+
+  if (user.level === undefined) {
+    throw new Error(`Unsupported SNMPv3 security level: ${level}`);
+  }
+
+  if (level === 'authNoPriv' || level === 'authPriv') {
+    if (!v3.authKey) {
+      throw new Error('SNMPv3 authNoPriv/authPriv requires an authentication key');
+    }
+    user.authProtocol = AUTH_PROTOCOLS[(v3.authProtocol || 'sha').toLowerCase()];
+    user.authKey = v3.authKey;
+    if (user.authProtocol === undefined) {
+      throw new Error(`Unsupported SNMPv3 auth protocol: ${v3.authProtocol}`);
+    }
+  }
+
+  if (level === 'authPriv') {
+    if (!v3.privKey) {
+      throw new Error('SNMPv3 authPriv requires a privacy key');
+    }
+    user.privProtocol = PRIV_PROTOCOLS[(v3.privProtocol || 'aes').toLowerCase()];
+    user.privKey = v3.privKey;
+    if (user.privProtocol === undefined) {
+      throw new Error(`Unsupported SNMPv3 privacy protocol: ${v3.privProtocol}`);
+    }
+  }
+
+  return user;
+}
+
+/**
+ * Create an SNMP session for any supported version
+ * @param {string} ip - The IP address of the device
+ * @param {string} community - The SNMP community string (v1/v2c only)
+ * @param {string} version - The SNMP version ('1', '2c' or '3')
+ * @param {Object} v3 - SNMPv3 credentials, required when version is '3'
+ * @param {Object} options - Extra net-snmp session options (port, retries, timeout, context)
+ * @returns {Object} - net-snmp session
+ */
+exports.createSession = (ip, community = 'public', version = '2c', v3 = null, options = {}) => {
+  const sessionOptions = {
+    retries: 1,
+    timeout: 5000,
+    ...options
+  };
+
+  if (version === '3') {
+    const user = buildV3User(v3);
+    // An explicit context (e.g. vlan-10 for per-VLAN bridge tables) wins over the configured one
+    const context = options.context !== undefined ? options.context : (v3.context || '');
+    return snmp.createV3Session(ip, user, {
+      ...sessionOptions,
+      version: snmp.Version3,
+      context
+    });
+  }
+
+  delete sessionOptions.context;
+  return snmp.createSession(ip, community, {
+    ...sessionOptions,
+    version: version === '1' ? snmp.Version1 : snmp.Version2c
+  });
+};
+
+/**
+ * Performs a targeted SNMP operation on a specific OID
+ * Using subtree as a more efficient alternative to generic walk
+ * 
+ * @param {Object} session - SNMP session
+ * @param {string} baseOid - The base OID to query
+ * @returns {Promise<Array>} - Array of results with oid and value
+ */
+exports.performTargetedOperation = async (session, baseOid) => {
+  return new Promise((resolve, reject) => {
+    const results = [];
+    
+    // Use subtree method which is more targeted than general walk
+    session.subtree(baseOid, (varbinds) => {
+      if (varbinds === null) {
+        // End of MIB view or other error, but just consider it the end
+        resolve(results);
+        return;
+      }
+      
+      // Process this batch of results
+      for (const varbind of varbinds) {
+        if (!snmp.isVarbindError(varbind)) {
+          results.push({
+            oid: varbind.oid,
+            value: varbind.value
+          });
+        }
+      }
+    }, (error) => {
+      if (error) {
+        logger.error(`[SNMP] Error in subtree operation for ${baseOid}:`, error);
+        reject(error);
+      } else {
+        resolve(results);
+      }
+    });
+  });
+};
+
+/**
+ * Describe the credentials in use without leaking secrets, for logging
+ * @param {string} community - The SNMP community string
+ * @param {string} version - The SNMP version
+ * @param {Object} v3 - SNMPv3 credentials
+ * @returns {string} - Log-safe description
+ */
+exports.describeCredentials = (community, version, v3) => {
+  if (version === '3') {
+    const level = (v3 && v3.securityLevel) || 'authPriv';
+    return `SNMPv3 user "${v3 ? v3.securityName : ''}" (${level})`;
+  }
+  return `community ${community ? `${community.slice(0, 2)}***` : '(none)'} (v${version})`;
+};
@@ -0,0 +1,85 @@
+/**
+ * Rebuild public/oui/oui.tsv from the IEEE MA-L, MA-M and MA-S registries
+ * Usage: npm run update-oui
+ */
+import { writeFile } from "node:fs/promises";
+import { fileURLToPath } from "node:url";
+
+const REGISTRIES = [
+  { name: "MA-L", url: "https://standards-oui.ieee.org/oui/oui.csv" },
+  { name: "MA-M", url: "https://standards-oui.ieee.org/oui28/mam.csv" },
+  { name: "MA-S", url: "https://standards-oui.ieee.org/oui36/oui36.csv" }
+];
+
+const OUTPUT = fileURLToPath(new URL("../public/oui/oui.tsv", import.meta.url));
+
+// Minimal RFC 4180 parser - organization names and addresses contain quoted commas and newlines
+function parseCsv(text) {
+  const rows = [];
+  let row = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+const entries = new Map();
+
+for (const registry of REGISTRIES) {
+  console.log(`Downloading ${registry.name} from ${registry.url}...`);
+  const response = await fetch(registry.url, { headers: { "User-Agent": "nile-network-navigator oui updater" } });
+  if (!response.ok) {
+    throw new Error(`Failed to download ${registry.name}: HTTP ${response.status}`);
+  }
+
+  // Columns: Registry, Assignment, Organization Name, Organization Address
+  const [, ...rows] = parseCsv(await response.text());
+  let count = 0;
+  for (const [, assignment, organization] of rows) {
+    if (!assignment || !organization) continue;
+    entries.set(assignment.trim().toUpperCase(), organization.replace(/\s+/g, " ").trim());
+    count++;
+  }
+  console.log(`  ${count} assignments`);
+}
+
+const header = [
+  "# IEEE OUI registry (MA-L, MA-M and MA-S) - prefix<TAB>organization",
+  `# Generated ${new Date().toISOString().split("T")[0]} by scripts/update-oui.mjs - do not edit by hand`
+];
+const lines = Array.from(entries.entries())
+  .sort(([a], [b]) => a.localeCompare(b))
+  .map(([prefix, organization]) => `${prefix}\t${organization}`);
+
+await writeFile(OUTPUT, [...header, ...lines].join("\n") + "\n");
+console.log(`Wrote ${lines.length} prefixes to ${OUTPUT}`);
@@ -17,6 +17,8 @@ import DevicesPage from "./pages/app/DevicesPage";
 import VlansPage from "./pages/app/VlansPage";
 import MacAddressPage from "./pages/app/MacAddressPage";
 import ExportPage from "./pages/app/ExportPage";
+import PortReportPage from "./pages/app/PortReportPage";
+import SegmentPlannerPage from "./pages/app/SegmentPlannerPage";
 import NotFound from "./pages/NotFound";
 import Index from "./pages/Index";
 
@@ -48,7 +50,9 @@ const App = () => (
               <Route path="/devices" element={<DevicesPage />} />
               <Route path="/vlans" element={<VlansPage />} />
               <Route path="/mac-addresses" element={<MacAddressPage />} />
+              <Route path="/segments" element={<SegmentPlannerPage />} />
               <Route path="/export" element={<ExportPage />} />
+              <Route path="/port-report" element={<PortReportPage />} />
             </Route>
             
             {/* Redirect root to index */}
@@ -5,7 +5,7 @@ import { useAuth } from "@/contexts/AuthContext";
 import { supabase } from "@/integrations/supabase/client";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
-import { Home, Network, Radio, Server, Layers, FileDown, Plus, ChevronRight } from "lucide-react";
+import { Home, Network, Radio, Server, Layers, FileDown, Plus, ChevronRight, Combine } from "lucide-react";
 import { MacAddressIcon } from "@/components/MacAddressIcon";
 import { NavLink } from "@/components/NavLink";
 import { cn } from "@/lib/utils";
@@ -168,7 +168,8 @@ export function SiteNavigation() {
     // Navigate to site page if needed
     if (!location.pathname.includes('site-') && !location.pathname.includes('discovery') && 
         !location.pathname.includes('devices') && !location.pathname.includes('vlans') &&
-        !location.pathname.includes('mac-addresses') && !location.pathname.includes('export')) {
+        !location.pathname.includes('mac-addresses') && !location.pathname.includes('segments') &&
+        !location.pathname.includes('export')) {
       navigate(`/site-subnet?site=${siteId}`);
     }
   };
@@ -258,6 +259,9 @@ export function SiteNavigation() {
                     <SiteLink siteId={site.id} to="/mac-addresses" icon={MacAddressIcon}>
                       MAC Addresses
                     </SiteLink>
+                    <SiteLink siteId={site.id} to="/segments" icon={Combine}>
+                      Segments
+                    </SiteLink>
                     <SiteLink siteId={site.id} to="/export" icon={FileDown}>
                       Export
                     </SiteLink>
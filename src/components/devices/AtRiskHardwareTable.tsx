@@ -0,0 +1,97 @@
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { DeviceEntityData } from "@/types/network";
+import { assessDevice, EolCatalogEntry, LifecycleStatus } from "@/utils/network/hardwareLifecycle";
+
+interface AtRiskHardwareTableProps {
+  devices: { id: string; ipAddress: string; hostname: string; model: string; category: string; sysDescr?: string }[];
+  entities: DeviceEntityData[];
+  catalog: EolCatalogEntry[];
+}
+
+const STATUS_BADGES: Record<LifecycleStatus, { label: string; className: string }> = {
+  unsupported: { label: "Unsupported", className: "bg-red-100 text-red-800 hover:bg-red-100" },
+  supportEnding: { label: "Support ending", className: "bg-orange-100 text-orange-800 hover:bg-orange-100" },
+  endOfSale: { label: "End of sale", className: "bg-yellow-100 text-yellow-800 hover:bg-yellow-100" },
+  current: { label: "Current", className: "bg-green-100 text-green-800 hover:bg-green-100" },
+  unknown: { label: "Not in catalog", className: "" }
+};
+
+const AT_RISK: LifecycleStatus[] = ["unsupported", "supportEnding", "endOfSale"];
+
+export function AtRiskHardwareTable({ devices, entities, catalog }: AtRiskHardwareTableProps) {
+  const assessments = devices
+    .filter(device => device.category !== "Other")
+    .map(device => ({
+      device,
+      ...assessDevice(device, entities.filter(entity => entity.device_id === device.id), catalog)
+    }));
+
+  const atRisk = assessments
+    .filter(assessment => AT_RISK.includes(assessment.status))
+    .sort((a, b) => AT_RISK.indexOf(a.status) - AT_RISK.indexOf(b.status)
+      || (a.entry?.end_of_support || "").localeCompare(b.entry?.end_of_support || ""));
+
+  const counts = AT_RISK.map(status => [status, assessments.filter(assessment => assessment.status === status).length] as const);
+  const uncatalogued = assessments.filter(assessment => assessment.status === "unknown").length;
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-4 md:grid-cols-4">
+        {counts.map(([status, count]) => (
+          <div key={status} className="rounded-md border p-4">
+            <div className="font-medium">{STATUS_BADGES[status].label}</div>
+            <div className="mt-2 text-2xl font-bold">{count}</div>
+          </div>
+        ))}
+        <div className="rounded-md border p-4">
+          <div className="font-medium">Not in Catalog</div>
+          <div className="mt-2 text-2xl font-bold text-muted-foreground">{uncatalogued}</div>
+        </div>
+      </div>
+
+      {atRisk.length === 0 ? (
+        <div className="text-sm text-muted-foreground">
+          No discovered hardware matches an end-of-sale or end-of-support entry in the catalog.
+        </div>
+      ) : (
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Device</TableHead>
+                <TableHead>Model</TableHead>
+                <TableHead>Firmware</TableHead>
+                <TableHead>End of Sale</TableHead>
+                <TableHead>End of Support</TableHead>
+                <TableHead>Status</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {atRisk.map(({ device, model, firmware, entry, status }) => (
+                <TableRow key={device.id}>
+                  <TableCell>
+                    <div>{device.hostname || device.ipAddress}</div>
+                    <div className="text-xs text-muted-foreground">{device.ipAddress}</div>
+                  </TableCell>
+                  <TableCell>
+                    <div className="font-mono text-xs">{model}</div>
+                    {entry?.notes && <div className="text-xs text-muted-foreground">{entry.notes}</div>}
+                  </TableCell>
+                  <TableCell className="font-mono text-xs">{firmware || "—"}</TableCell>
+                  <TableCell>{entry?.end_of_sale || "—"}</TableCell>
+                  <TableCell>{entry?.end_of_support || "—"}</TableCell>
+                  <TableCell>
+                    <Badge variant="outline" className={STATUS_BADGES[status].className}>
+                      {STATUS_BADGES[status].label}
+                    </Badge>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -21,6 +21,7 @@ import {
   DialogTitle,
   DialogTrigger,
 } from "@/components/ui/dialog";
+import { InterfaceDrawer } from "./InterfaceDrawer";
 
 interface DeviceTableRowProps {
   device: {
@@ -301,41 +302,44 @@ export function DeviceTableRow({
       </TableCell>
       
       <TableCell>
-        <Dialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
-          <DialogTrigger asChild>
-            <Button 
-              variant="ghost" 
-              size="icon" 
-              className="h-8 w-8 text-muted-foreground hover:text-destructive"
-            >
-              <Trash2 className="h-4 w-4" />
-            </Button>
-          </DialogTrigger>
-          <DialogContent>
-            <DialogHeader>
-              <DialogTitle>Delete {isSwitch ? "Switch" : "Device"}</DialogTitle>
-              <DialogDescription>
-                {isSwitch 
-                  ? "This will delete the switch and all associated devices. This action cannot be undone."
-                  : "Are you sure you want to delete this device? This action cannot be undone."}
-              </DialogDescription>
-            </DialogHeader>
-            <DialogFooter>
-              <Button variant="outline" onClick={() => setDeleteDialogOpen(false)}>
-                Cancel
-              </Button>
+        <div className="flex items-center">
+          <InterfaceDrawer device={device} />
+          <Dialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
+            <DialogTrigger asChild>
               <Button 
-                variant="destructive" 
-                onClick={() => {
-                  onDeleteDevice(device.id, isSwitch);
-                  setDeleteDialogOpen(false);
-                }}
+                variant="ghost" 
+                size="icon" 
+                className="h-8 w-8 text-muted-foreground hover:text-destructive"
               >
-                Delete
+                <Trash2 className="h-4 w-4" />
               </Button>
-            </DialogFooter>
-          </DialogContent>
-        </Dialog>
+            </DialogTrigger>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>Delete {isSwitch ? "Switch" : "Device"}</DialogTitle>
+                <DialogDescription>
+                  {isSwitch 
+                    ? "This will delete the switch and all associated devices. This action cannot be undone."
+                    : "Are you sure you want to delete this device? This action cannot be undone."}
+                </DialogDescription>
+              </DialogHeader>
+              <DialogFooter>
+                <Button variant="outline" onClick={() => setDeleteDialogOpen(false)}>
+                  Cancel
+                </Button>
+                <Button 
+                  variant="destructive" 
+                  onClick={() => {
+                    onDeleteDevice(device.id, isSwitch);
+                    setDeleteDialogOpen(false);
+                  }}
+                >
+                  Delete
+                </Button>
+              </DialogFooter>
+            </DialogContent>
+          </Dialog>
+        </div>
       </TableCell>
     </TableRow>
   );
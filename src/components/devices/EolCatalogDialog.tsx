@@ -0,0 +1,186 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { PlusIcon, Trash2Icon } from "lucide-react";
+import { compileRulePattern } from "@/utils/network/endpointClassification";
+import {
+  EolCatalogEntry,
+  DEFAULT_EOL_CATALOG,
+  getEolCatalog,
+  resetEolCatalog,
+  saveEolCatalog
+} from "@/utils/network/hardwareLifecycle";
+
+interface EolCatalogDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  userId: string;
+  onSaved: () => void;
+}
+
+export function EolCatalogDialog({ open, onOpenChange, userId, onSaved }: EolCatalogDialogProps) {
+  const [catalog, setCatalog] = useState<EolCatalogEntry[]>([]);
+  const [isDefault, setIsDefault] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!open) return;
+    getEolCatalog().then(result => {
+      setCatalog(result.catalog.map(entry => ({ ...entry })));
+      setIsDefault(result.isDefault);
+    });
+  }, [open]);
+
+  const updateEntry = (index: number, changes: Partial<EolCatalogEntry>) => {
+    setCatalog(catalog.map((entry, i) => i === index ? { ...entry, ...changes } : entry));
+  };
+
+  const invalidCount = catalog.filter(entry => !entry.model_pattern || !compileRulePattern(entry.model_pattern)).length;
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await saveEolCatalog(userId, catalog);
+      toast({
+        title: "EoL catalog saved",
+        description: `${catalog.length} catalog entries saved.`,
+      });
+      onOpenChange(false);
+      onSaved();
+    } catch (error) {
+      toast({
+        title: "Save failed",
+        description: error instanceof Error ? error.message : "Failed to save the EoL catalog.",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleReset = async () => {
+    setSaving(true);
+    try {
+      await resetEolCatalog(userId);
+      setCatalog(DEFAULT_EOL_CATALOG.map(entry => ({ ...entry })));
+      setIsDefault(true);
+      toast({
+        title: "Bundled catalog restored",
+        description: "End-of-life dates now come from the catalog bundled with the app.",
+      });
+      onOpenChange(false);
+      onSaved();
+    } catch (error) {
+      toast({
+        title: "Reset failed",
+        description: error instanceof Error ? error.message : "Failed to reset the EoL catalog.",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            End-of-Life Catalog
+            {isDefault && <Badge variant="secondary">Bundled</Badge>}
+          </DialogTitle>
+          <DialogDescription>
+            The first entry whose pattern matches a device or stack member model sets its end-of-sale and end-of-support dates.
+            Patterns are case-insensitive regular expressions.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-[60vh] overflow-y-auto rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-[120px]">Vendor</TableHead>
+                <TableHead>Model Pattern</TableHead>
+                <TableHead className="w-[160px]">End of Sale</TableHead>
+                <TableHead className="w-[160px]">End of Support</TableHead>
+                <TableHead>Notes</TableHead>
+                <TableHead className="w-[50px]"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {catalog.map((entry, index) => (
+                <TableRow key={index}>
+                  <TableCell>
+                    <Input
+                      value={entry.vendor}
+                      onChange={(e) => updateEntry(index, { vendor: e.target.value })}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      className={`font-mono ${compileRulePattern(entry.model_pattern) && entry.model_pattern ? "" : "border-destructive"}`}
+                      value={entry.model_pattern}
+                      onChange={(e) => updateEntry(index, { model_pattern: e.target.value })}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      type="date"
+                      value={entry.end_of_sale || ""}
+                      onChange={(e) => updateEntry(index, { end_of_sale: e.target.value || null })}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      type="date"
+                      value={entry.end_of_support || ""}
+                      onChange={(e) => updateEntry(index, { end_of_support: e.target.value || null })}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      value={entry.notes || ""}
+                      onChange={(e) => updateEntry(index, { notes: e.target.value || null })}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setCatalog(catalog.filter((_, i) => i !== index))}
+                    >
+                      <Trash2Icon className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+
+        <DialogFooter className="flex-col sm:flex-row sm:justify-between gap-2">
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              onClick={() => setCatalog([...catalog, { vendor: "", model_pattern: "", end_of_sale: null, end_of_support: null, notes: null }])}
+            >
+              <PlusIcon className="h-4 w-4 mr-2" />
+              Add Entry
+            </Button>
+            <Button variant="outline" onClick={handleReset} disabled={saving || isDefault}>
+              Restore Bundled Catalog
+            </Button>
+          </div>
+          <Button onClick={handleSave} disabled={saving || invalidCount > 0}>
+            {invalidCount > 0 ? `${invalidCount} invalid patterns` : "Save Catalog"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
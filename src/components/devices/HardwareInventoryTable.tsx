@@ -0,0 +1,97 @@
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { DeviceEntityData } from "@/types/network";
+import { isAssetEntity, getParentChassis, getChassisLabel } from "@/utils/network/entityDiscovery";
+
+interface HardwareInventoryTableProps {
+  entities: DeviceEntityData[];
+  devices: { id: string; ipAddress: string; hostname: string }[];
+}
+
+export function HardwareInventoryTable({ entities, devices }: HardwareInventoryTableProps) {
+  // One row per chassis, so stack members and the chassis of modular switches show individually
+  const rows = devices
+    .flatMap(device => {
+      const deviceEntities = entities.filter(entity => entity.device_id === device.id);
+      const assets = deviceEntities.filter(isAssetEntity);
+      return assets
+        .filter(entity => entity.entity_class === "chassis")
+        .sort((a, b) => (a.rel_pos ?? a.ent_index) - (b.rel_pos ?? b.ent_index))
+        .map(chassis => ({
+          device,
+          chassis,
+          label: getChassisLabel(chassis, deviceEntities),
+          isStackMember: deviceEntities.filter(entity => entity.entity_class === "chassis").length > 1,
+          components: assets.filter(entity =>
+            entity.entity_class !== "chassis" && getParentChassis(entity, deviceEntities)?.ent_index === chassis.ent_index
+          )
+        }));
+    })
+    .sort((a, b) => (a.device.hostname || a.device.ipAddress).localeCompare(b.device.hostname || b.device.ipAddress));
+
+  if (rows.length === 0) {
+    return (
+      <div className="text-sm text-muted-foreground">
+        No hardware inventory found. Chassis, modules and serial numbers are collected from ENTITY-MIB during network discovery.
+      </div>
+    );
+  }
+
+  return (
+    <div className="rounded-md border">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Device</TableHead>
+            <TableHead>Chassis</TableHead>
+            <TableHead>Model</TableHead>
+            <TableHead>Serial Number</TableHead>
+            <TableHead>Revision</TableHead>
+            <TableHead>Modules & Power</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.map(({ device, chassis, label, isStackMember, components }) => (
+            <TableRow key={chassis.id}>
+              <TableCell>
+                <div>{device.hostname || device.ipAddress}</div>
+                <div className="text-xs text-muted-foreground">{device.ipAddress}</div>
+              </TableCell>
+              <TableCell>
+                {label}
+                {isStackMember && (
+                  <Badge variant="outline" className="ml-2 text-xs">stack</Badge>
+                )}
+              </TableCell>
+              <TableCell className="font-mono text-xs">{chassis.model || "—"}</TableCell>
+              <TableCell className="font-mono text-xs">{chassis.serial_number || "—"}</TableCell>
+              <TableCell className="text-xs text-muted-foreground">
+                {[chassis.hardware_rev && `HW ${chassis.hardware_rev}`, chassis.software_rev && `SW ${chassis.software_rev}`]
+                  .filter(Boolean)
+                  .join(", ") || "—"}
+              </TableCell>
+              <TableCell>
+                <div className="flex flex-wrap gap-1">
+                  {components.length === 0 ? (
+                    <span className="text-xs text-muted-foreground">—</span>
+                  ) : (
+                    components.map(component => (
+                      <Badge
+                        key={component.id}
+                        variant="secondary"
+                        className="text-xs"
+                        title={[component.name, component.serial_number].filter(Boolean).join(" - ")}
+                      >
+                        {component.model || component.name || component.entity_class}
+                      </Badge>
+                    ))
+                  )}
+                </div>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
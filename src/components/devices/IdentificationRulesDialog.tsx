@@ -0,0 +1,178 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { PlusIcon, Trash2Icon } from "lucide-react";
+import { IdentificationRuleType } from "@/types/network";
+import { OID_MANUFACTURER_MAP } from "@/utils/network/deviceIdentification";
+import {
+  IdentificationRule,
+  getIdentificationRules,
+  isValidOidPrefix,
+  reidentifyDevices,
+  saveIdentificationRules
+} from "@/utils/network/identificationRules";
+
+const RULE_TYPES: { value: IdentificationRuleType; label: string; placeholder: string }[] = [
+  { value: "vendor", label: "Vendor", placeholder: "1.3.6.1.4.1.9" },
+  { value: "model", label: "Model", placeholder: "1.3.6.1.4.1.9.1.1208" }
+];
+
+interface IdentificationRulesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  userId: string;
+  onSaved: () => void;
+}
+
+export function IdentificationRulesDialog({ open, onOpenChange, userId, onSaved }: IdentificationRulesDialogProps) {
+  const [rules, setRules] = useState<IdentificationRule[]>([]);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!open) return;
+    getIdentificationRules()
+      .then(result => setRules(result.map(rule => ({ ...rule }))))
+      .catch(error => {
+        toast({
+          title: "Error",
+          description: error instanceof Error ? error.message : "Failed to load identification rules.",
+          variant: "destructive",
+        });
+      });
+  }, [open, toast]);
+
+  const updateRule = (index: number, changes: Partial<IdentificationRule>) => {
+    setRules(rules.map((rule, i) => i === index ? { ...rule, ...changes } : rule));
+  };
+
+  const invalidCount = rules.filter(rule => !isValidOidPrefix(rule.oid_prefix) || !rule.value.trim()).length;
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await saveIdentificationRules(userId, rules);
+      const updatedCount = await reidentifyDevices(rules);
+      toast({
+        title: "Identification rules saved",
+        description: `${rules.length} rules saved. Re-identified ${updatedCount} devices.`,
+      });
+      onOpenChange(false);
+      onSaved();
+    } catch (error) {
+      toast({
+        title: "Save failed",
+        description: error instanceof Error ? error.message : "Failed to save identification rules.",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Vendor & Model Identification Rules</DialogTitle>
+          <DialogDescription>
+            Map an enterprise OID prefix to a vendor, or a sysObjectID to a model. The most specific matching rule wins;
+            devices that match no rule use the built-in vendor list and the model reported by the device.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-[50vh] overflow-y-auto rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-[140px]">Sets</TableHead>
+                <TableHead>sysObjectID / Prefix</TableHead>
+                <TableHead>Vendor or Model</TableHead>
+                <TableHead className="w-[50px]"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rules.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={4} className="text-center py-4 text-muted-foreground">
+                    No custom rules - only the built-in vendor list is used
+                  </TableCell>
+                </TableRow>
+              ) : (
+                rules.map((rule, index) => (
+                  <TableRow key={index}>
+                    <TableCell>
+                      <Select
+                        value={rule.rule_type}
+                        onValueChange={(value) => updateRule(index, { rule_type: value as IdentificationRuleType })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {RULE_TYPES.map(type => (
+                            <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        className={`font-mono ${isValidOidPrefix(rule.oid_prefix) ? "" : "border-destructive"}`}
+                        placeholder={RULE_TYPES.find(type => type.value === rule.rule_type)?.placeholder}
+                        value={rule.oid_prefix}
+                        onChange={(e) => updateRule(index, { oid_prefix: e.target.value })}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        className={rule.value.trim() ? "" : "border-destructive"}
+                        value={rule.value}
+                        onChange={(e) => updateRule(index, { value: e.target.value })}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => setRules(rules.filter((_, i) => i !== index))}
+                      >
+                        <Trash2Icon className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+
+        <details className="text-sm">
+          <summary className="cursor-pointer text-muted-foreground">Built-in vendor list</summary>
+          <div className="mt-2 grid grid-cols-2 gap-x-6 gap-y-1 font-mono text-xs">
+            {Object.entries(OID_MANUFACTURER_MAP).map(([prefix, vendor]) => (
+              <div key={prefix}>{prefix.replace(/\.$/, "")} → {vendor}</div>
+            ))}
+          </div>
+        </details>
+
+        <DialogFooter className="flex-col sm:flex-row sm:justify-between gap-2">
+          <Button
+            variant="outline"
+            onClick={() => setRules([...rules, { rule_type: "vendor", oid_prefix: "", value: "" }])}
+          >
+            <PlusIcon className="h-4 w-4 mr-2" />
+            Add Rule
+          </Button>
+          <Button onClick={handleSave} disabled={saving || invalidCount > 0}>
+            {saving ? "Saving..." : invalidCount > 0 ? `${invalidCount} invalid rules` : "Save & Re-identify"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,158 @@
+
+import { useState } from "react";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle, SheetTrigger } from "@/components/ui/sheet";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { EthernetPort } from "lucide-react";
+import { DeviceInterfaceData } from "@/types/network";
+import { getDeviceInterfaces, isPhysicalInterface, formatInterfaceSpeed } from "@/utils/network/interfaceDiscovery";
+
+interface InterfaceDrawerProps {
+  device: {
+    id: string;
+    ipAddress: string;
+    hostname: string;
+  };
+}
+
+export function InterfaceDrawer({ device }: InterfaceDrawerProps) {
+  const [interfaces, setInterfaces] = useState<DeviceInterfaceData[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [physicalOnly, setPhysicalOnly] = useState(true);
+
+  // Interfaces are only loaded when the drawer is opened
+  const handleOpenChange = async (open: boolean) => {
+    if (!open) return;
+    setLoading(true);
+    setError(null);
+    try {
+      setInterfaces(await getDeviceInterfaces(device.id));
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : "Failed to load interfaces");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const ports = interfaces.filter(iface => isPhysicalInterface(iface.if_type));
+  const visibleInterfaces = physicalOnly ? ports : interfaces;
+  const portsUp = ports.filter(iface => iface.oper_status === "up").length;
+  const portsAdminDown = ports.filter(iface => iface.admin_status === "down").length;
+
+  // Port counts per speed, e.g. 48 x 1G + 4 x 10G
+  const speedCounts = Array.from(
+    ports.reduce((counts, iface) => counts.set(iface.speed_mbps || 0, (counts.get(iface.speed_mbps || 0) || 0) + 1), new Map<number, number>())
+  ).sort(([a], [b]) => a - b);
+
+  return (
+    <Sheet onOpenChange={handleOpenChange}>
+      <SheetTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8 text-muted-foreground"
+          title="Show interfaces"
+        >
+          <EthernetPort className="h-4 w-4" />
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="w-full sm:max-w-3xl overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Interfaces on {device.hostname || device.ipAddress}</SheetTitle>
+          <SheetDescription>
+            Interface inventory collected from IF-MIB during network discovery.
+          </SheetDescription>
+        </SheetHeader>
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : error ? (
+          <div className="mt-4 bg-destructive/10 text-destructive p-4 rounded-md">{error}</div>
+        ) : interfaces.length === 0 ? (
+          <div className="mt-4 text-sm text-muted-foreground">
+            No interfaces recorded for this device. Interfaces are collected from switches and routers during network discovery.
+          </div>
+        ) : (
+          <div className="mt-4 space-y-4">
+            <div className="grid gap-4 grid-cols-3">
+              <div className="rounded-md border p-3">
+                <div className="text-sm font-medium">Physical Ports</div>
+                <div className="mt-1 text-2xl font-bold">{ports.length}</div>
+              </div>
+              <div className="rounded-md border p-3">
+                <div className="text-sm font-medium">Up</div>
+                <div className="mt-1 text-2xl font-bold">{portsUp}</div>
+              </div>
+              <div className="rounded-md border p-3">
+                <div className="text-sm font-medium">Admin Down</div>
+                <div className="mt-1 text-2xl font-bold">{portsAdminDown}</div>
+              </div>
+            </div>
+
+            {speedCounts.length > 0 && (
+              <div className="flex flex-wrap gap-1">
+                {speedCounts.map(([speed, count]) => (
+                  <Badge key={speed} variant="secondary">
+                    {count} x {formatInterfaceSpeed(speed)}
+                  </Badge>
+                ))}
+              </div>
+            )}
+
+            <div className="flex items-center space-x-2">
+              <Switch id={`physical-only-${device.id}`} checked={physicalOnly} onCheckedChange={setPhysicalOnly} />
+              <Label htmlFor={`physical-only-${device.id}`}>
+                Physical ports only ({interfaces.length - ports.length} logical interfaces hidden)
+              </Label>
+            </div>
+
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Interface</TableHead>
+                    <TableHead>Description</TableHead>
+                    <TableHead>Speed</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Last Change</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {visibleInterfaces.map(iface => (
+                    <TableRow key={iface.id}>
+                      <TableCell className="font-mono">{iface.name}</TableCell>
+                      <TableCell>{iface.alias || "—"}</TableCell>
+                      <TableCell>{formatInterfaceSpeed(iface.speed_mbps)}</TableCell>
+                      <TableCell>
+                        <Badge
+                          variant={
+                            iface.admin_status === "down"
+                              ? "outline"
+                              : iface.oper_status === "up"
+                                ? "default"
+                                : "secondary"
+                          }
+                        >
+                          {iface.admin_status === "down" ? "disabled" : iface.oper_status || "unknown"}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-xs text-muted-foreground">
+                        {iface.last_change ? new Date(iface.last_change).toLocaleString() : "—"}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,85 @@
+
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { DeviceLinkData } from "@/types/network";
+import { determineNeighborDeviceType } from "@/utils/network/deviceIdentification";
+
+interface NeighborLinksTableProps {
+  links: DeviceLinkData[];
+  devices: { id: string; ipAddress: string; hostname: string }[];
+}
+
+export function NeighborLinksTable({ links, devices }: NeighborLinksTableProps) {
+  const deviceNames = new Map(devices.map(device => [device.id, device.hostname || device.ipAddress]));
+
+  // Only show links for devices in the current list, grouped by device and port
+  const visibleLinks = links
+    .filter(link => deviceNames.has(link.device_id))
+    .sort((a, b) => 
+      deviceNames.get(a.device_id)!.localeCompare(deviceNames.get(b.device_id)!) ||
+      a.local_port.localeCompare(b.local_port, undefined, { numeric: true })
+    );
+
+  if (visibleLinks.length === 0) {
+    return (
+      <div className="text-sm text-muted-foreground">
+        No neighbors found. Neighbors are discovered via LLDP and CDP on switches during network discovery.
+      </div>
+    );
+  }
+
+  return (
+    <div className="rounded-md border">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Device</TableHead>
+            <TableHead>Local Port</TableHead>
+            <TableHead>Neighbor</TableHead>
+            <TableHead>Type</TableHead>
+            <TableHead>Platform</TableHead>
+            <TableHead>Remote Port</TableHead>
+            <TableHead>Native VLAN</TableHead>
+            <TableHead>Management IP</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {visibleLinks.map(link => {
+            const neighborType = determineNeighborDeviceType({
+              platform: link.platform,
+              remoteSysName: link.remote_sys_name,
+              remoteCapabilities: link.remote_capabilities
+            });
+            return (
+              <TableRow key={link.id}>
+                <TableCell>{deviceNames.get(link.device_id)}</TableCell>
+                <TableCell>
+                  <div className="font-mono">{link.local_port}</div>
+                  <div className="text-xs text-muted-foreground uppercase">{link.protocol}</div>
+                </TableCell>
+                <TableCell>
+                  <div>{link.remote_sys_name || "—"}</div>
+                  <div className="text-xs text-muted-foreground font-mono">{link.remote_chassis_id}</div>
+                </TableCell>
+                <TableCell>
+                  <Badge variant={neighborType === "Switch" ? "default" : neighborType === "AP" ? "outline" : "secondary"}>
+                    {neighborType}
+                  </Badge>
+                </TableCell>
+                <TableCell>{link.platform || "—"}</TableCell>
+                <TableCell>
+                  <div className="font-mono">{link.remote_port || "—"}</div>
+                  {link.remote_port_description && (
+                    <div className="text-xs text-muted-foreground">{link.remote_port_description}</div>
+                  )}
+                </TableCell>
+                <TableCell>{link.native_vlan ?? "—"}</TableCell>
+                <TableCell className="font-mono">{link.remote_management_address || "—"}</TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
@@ -0,0 +1,124 @@
+
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { PoePortData, PoeSupplyData } from "@/types/network";
+
+interface PoeSummaryTableProps {
+  supplies: PoeSupplyData[];
+  ports: PoePortData[];
+  devices: { id: string; ipAddress: string; hostname: string }[];
+}
+
+export function PoeSummaryTable({ supplies, ports, devices }: PoeSummaryTableProps) {
+  const summaries = devices
+    .map(device => {
+      const deviceSupplies = supplies.filter(supply => supply.device_id === device.id);
+      const devicePorts = ports.filter(port => port.device_id === device.id);
+      const poweredPorts = devicePorts.filter(port => port.detection_status === "deliveringPower");
+      const portReadings = poweredPorts.filter(port => port.power_mw !== null);
+
+      const budgetW = deviceSupplies.reduce((total, supply) => total + (supply.power_w || 0), 0);
+      // Prefer the PSE's own consumption figure; fall back to the sum of per-port readings
+      const consumedW = deviceSupplies.some(supply => supply.consumption_w !== null)
+        ? deviceSupplies.reduce((total, supply) => total + (supply.consumption_w || 0), 0)
+        : portReadings.length > 0
+          ? portReadings.reduce((total, port) => total + port.power_mw!, 0) / 1000
+          : null;
+
+      const classCounts = new Map<number, number>();
+      poweredPorts.forEach(port => {
+        if (port.power_class !== null) {
+          classCounts.set(port.power_class, (classCounts.get(port.power_class) || 0) + 1);
+        }
+      });
+
+      return {
+        device,
+        budgetW,
+        consumedW,
+        totalPorts: devicePorts.length,
+        poweredPorts: poweredPorts.length,
+        faultPorts: devicePorts.filter(port => port.detection_status?.toLowerCase().includes("fault")).length,
+        classCounts: Array.from(classCounts).sort(([a], [b]) => a - b),
+        hasPoe: deviceSupplies.length > 0 || devicePorts.length > 0
+      };
+    })
+    .filter(summary => summary.hasPoe)
+    .sort((a, b) => (a.device.hostname || a.device.ipAddress).localeCompare(b.device.hostname || b.device.ipAddress));
+
+  if (summaries.length === 0) {
+    return (
+      <div className="text-sm text-muted-foreground">
+        No PoE data found. PoE budgets and port power are collected from switches during network discovery.
+      </div>
+    );
+  }
+
+  const totalBudget = summaries.reduce((total, summary) => total + summary.budgetW, 0);
+  const totalConsumed = summaries.reduce((total, summary) => total + (summary.consumedW || 0), 0);
+
+  return (
+    <div className="space-y-4">
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Device</TableHead>
+              <TableHead>Budget</TableHead>
+              <TableHead>Consumed</TableHead>
+              <TableHead className="w-[160px]">Utilization</TableHead>
+              <TableHead>Powered Ports</TableHead>
+              <TableHead>Power Classes</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {summaries.map(summary => {
+              const utilization = summary.budgetW > 0 && summary.consumedW !== null
+                ? Math.round((summary.consumedW / summary.budgetW) * 100)
+                : null;
+              return (
+                <TableRow key={summary.device.id}>
+                  <TableCell>
+                    <div>{summary.device.hostname || summary.device.ipAddress}</div>
+                    {summary.device.hostname && (
+                      <div className="text-xs text-muted-foreground font-mono">{summary.device.ipAddress}</div>
+                    )}
+                  </TableCell>
+                  <TableCell>{summary.budgetW > 0 ? `${summary.budgetW} W` : "—"}</TableCell>
+                  <TableCell>{summary.consumedW !== null ? `${summary.consumedW.toFixed(1)} W` : "—"}</TableCell>
+                  <TableCell>
+                    {utilization !== null ? (
+                      <div className="flex items-center gap-2">
+                        <Progress value={Math.min(utilization, 100)} className="h-2" />
+                        <span className="text-xs w-10 text-right">{utilization}%</span>
+                      </div>
+                    ) : "—"}
+                  </TableCell>
+                  <TableCell>
+                    {summary.poweredPorts} of {summary.totalPorts}
+                    {summary.faultPorts > 0 && (
+                      <Badge variant="destructive" className="ml-2">{summary.faultPorts} faulted</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {summary.classCounts.length > 0 ? summary.classCounts.map(([powerClass, count]) => (
+                        <Badge key={powerClass} variant="secondary" className="text-xs">
+                          Class {powerClass}: {count}
+                        </Badge>
+                      )) : "—"}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </div>
+      <div className="text-sm text-muted-foreground">
+        Site total: {totalConsumed.toFixed(1)} W consumed of {totalBudget} W budget across {summaries.length} switches
+      </div>
+    </div>
+  );
+}
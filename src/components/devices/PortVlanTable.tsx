@@ -0,0 +1,89 @@
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { PortVlanData } from "@/types/network";
+import { isPhonePort } from "@/utils/network/portVlanDiscovery";
+
+interface PortVlanTableProps {
+  portVlans: PortVlanData[];
+  devices: { id: string; ipAddress: string; hostname: string }[];
+}
+
+export function PortVlanTable({ portVlans, devices }: PortVlanTableProps) {
+  const rows = devices
+    .map(device => {
+      const ports = portVlans.filter(port => port.device_id === device.id);
+      const accessPorts = ports.filter(port => port.mode === "access");
+      const phonePorts = accessPorts.filter(isPhonePort);
+      return {
+        device,
+        accessPorts,
+        phonePorts,
+        voiceVlans: Array.from(new Set(phonePorts.map(port => port.voice_vlan))).sort((a, b) => a - b),
+        dataVlans: Array.from(new Set(accessPorts.map(port => port.access_vlan).filter((vlan): vlan is number => vlan !== null)))
+          .sort((a, b) => a - b),
+        trunks: ports.filter(port => port.mode === "trunk")
+      };
+    })
+    .filter(row => row.accessPorts.length > 0 || row.trunks.length > 0)
+    .sort((a, b) => (a.device.hostname || a.device.ipAddress).localeCompare(b.device.hostname || b.device.ipAddress));
+
+  if (rows.length === 0) {
+    return (
+      <div className="text-sm text-muted-foreground">
+        No port VLAN configuration found. Access, trunk and voice VLANs are collected from switches during network discovery.
+      </div>
+    );
+  }
+
+  return (
+    <div className="rounded-md border">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Switch</TableHead>
+            <TableHead>Access Ports</TableHead>
+            <TableHead>Phone + PC Ports</TableHead>
+            <TableHead>Trunks</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.map(({ device, accessPorts, phonePorts, voiceVlans, dataVlans, trunks }) => (
+            <TableRow key={device.id}>
+              <TableCell>
+                <div>{device.hostname || device.ipAddress}</div>
+                <div className="text-xs text-muted-foreground">{device.ipAddress}</div>
+              </TableCell>
+              <TableCell>
+                <div>{accessPorts.length}</div>
+                {dataVlans.length > 0 && (
+                  <div className="text-xs text-muted-foreground">VLANs {dataVlans.join(", ")}</div>
+                )}
+              </TableCell>
+              <TableCell>
+                <div>{phonePorts.length}</div>
+                {voiceVlans.length > 0 && (
+                  <div className="text-xs text-muted-foreground">Voice VLAN {voiceVlans.join(", ")}</div>
+                )}
+              </TableCell>
+              <TableCell>
+                {trunks.length === 0 ? (
+                  <span className="text-muted-foreground">—</span>
+                ) : (
+                  <div className="space-y-1">
+                    {trunks.map(port => (
+                      <div key={port.id} className="flex flex-wrap items-center gap-1.5 text-xs">
+                        <span className="font-mono">{port.interface || `ifIndex ${port.if_index}`}</span>
+                        {port.native_vlan !== null && <Badge variant="outline">Native {port.native_vlan}</Badge>}
+                        <span className="text-muted-foreground">Allowed {port.allowed_vlans || "all"}</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
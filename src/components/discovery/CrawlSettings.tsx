@@ -0,0 +1,81 @@
+
+import React from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+
+export interface CrawlSettingsValue {
+  enabled: boolean;
+  seedIp: string;
+  maxDepth: number;
+  allowedSubnets: string;
+}
+
+interface CrawlSettingsProps {
+  value: CrawlSettingsValue;
+  onChange: (value: CrawlSettingsValue) => void;
+  disabled?: boolean;
+}
+
+const CrawlSettings: React.FC<CrawlSettingsProps> = ({ value, onChange, disabled }) => {
+  return (
+    <div className="space-y-4 rounded-md border p-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <Label htmlFor="crawl-enabled">Crawl from a seed device</Label>
+          <p className="text-sm text-muted-foreground">
+            Start at a core switch and follow LLDP/CDP neighbors and router next hops instead of scanning every IP.
+          </p>
+        </div>
+        <Switch
+          id="crawl-enabled"
+          checked={value.enabled}
+          onCheckedChange={enabled => onChange({ ...value, enabled })}
+          disabled={disabled}
+        />
+      </div>
+
+      {value.enabled && (
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor="crawl-seed">Seed IP address</Label>
+            <Input
+              id="crawl-seed"
+              placeholder="10.0.0.1"
+              value={value.seedIp}
+              onChange={e => onChange({ ...value, seedIp: e.target.value.trim() })}
+              disabled={disabled}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="crawl-depth">Maximum hops</Label>
+            <Input
+              id="crawl-depth"
+              type="number"
+              min={0}
+              max={10}
+              value={value.maxDepth}
+              onChange={e => onChange({ ...value, maxDepth: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+              disabled={disabled}
+            />
+          </div>
+          <div className="space-y-2 sm:col-span-2">
+            <Label htmlFor="crawl-subnets">Allowed subnets</Label>
+            <Input
+              id="crawl-subnets"
+              placeholder="10.0.0.0/8, 192.168.10.0/24"
+              value={value.allowedSubnets}
+              onChange={e => onChange({ ...value, allowedSubnets: e.target.value })}
+              disabled={disabled}
+            />
+            <p className="text-xs text-muted-foreground">
+              Comma-separated CIDRs. The crawl never follows a neighbor or next hop outside these subnets.
+            </p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CrawlSettings;
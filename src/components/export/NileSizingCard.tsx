@@ -0,0 +1,268 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/components/ui/use-toast";
+import { Calculator, FileDown } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { PoePortData } from "@/types/network";
+import { fetchAllRows } from "@/utils/supabasePaging";
+import { formatInterfaceSpeed, getSiteInterfaces } from "@/utils/network/interfaceDiscovery";
+import {
+  estimateNileSizing,
+  getSizingCsv,
+  DEFAULT_SIZING_HEADROOM,
+  DEFAULT_SWITCH_PROFILE,
+  SizingHeadroom,
+  NileSwitchProfile,
+  SizingInput
+} from "@/utils/network/nileSizing";
+
+interface NileSizingCardProps {
+  siteId: string;
+}
+
+const EMPTY_INPUT: SizingInput = { devices: [], interfaces: [], links: [], poeSupplies: [], poePorts: [] };
+
+export function NileSizingCard({ siteId }: NileSizingCardProps) {
+  const [input, setInput] = useState<SizingInput>(EMPTY_INPUT);
+  const [headroom, setHeadroom] = useState<SizingHeadroom>(DEFAULT_SIZING_HEADROOM);
+  const [profile, setProfile] = useState<NileSwitchProfile>(DEFAULT_SWITCH_PROFILE);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    const loadSizingData = async () => {
+      try {
+        setLoading(true);
+
+        const [devices, links, poeSupplies] = await Promise.all([
+          supabase.from('devices').select('*').eq('site_id', siteId),
+          supabase.from('device_links').select('*').eq('site_id', siteId),
+          supabase.from('poe_supplies').select('*').eq('site_id', siteId)
+        ]);
+
+        const failed = [devices, links, poeSupplies].find(result => result.error);
+        if (failed) {
+          throw new Error(`Error fetching sizing data: ${failed.error.message}`);
+        }
+
+        // Per-port tables are paged - a truncated select would undersize the BOM
+        const [interfaces, poePorts] = await Promise.all([
+          getSiteInterfaces(siteId),
+          fetchAllRows<PoePortData>((from, to) => supabase
+            .from('poe_ports')
+            .select('*')
+            .eq('site_id', siteId)
+            .order('id', { ascending: true })
+            .range(from, to))
+        ]);
+
+        setInput({
+          devices: devices.data || [],
+          interfaces,
+          links: links.data || [],
+          poeSupplies: poeSupplies.data || [],
+          poePorts
+        });
+        setError(null);
+      } catch (loadError) {
+        console.error("Error loading sizing data:", loadError);
+        setError(loadError instanceof Error ? loadError.message : "Failed to load sizing data");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadSizingData();
+  }, [siteId]);
+
+  const closets = estimateNileSizing(input, headroom, profile);
+  const totalSwitches = closets.reduce((total, closet) => total + closet.recommendedSwitches, 0);
+  const totalAps = closets.reduce((total, closet) => total + closet.recommendedAps, 0);
+
+  const toNumber = (value: string) => Math.max(0, parseInt(value, 10) || 0);
+
+  const downloadSizingCsv = () => {
+    try {
+      const blob = new Blob([getSizingCsv(closets, headroom, profile)], { type: 'text/csv;charset=utf-8;' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+
+      link.setAttribute('href', url);
+      link.setAttribute('download', `nile-sizing-${new Date().toISOString().split('T')[0]}.csv`);
+
+      document.body.appendChild(link);
+      link.click();
+
+      setTimeout(() => {
+        document.body.removeChild(link);
+        URL.revokeObjectURL(url);
+      }, 100);
+    } catch (downloadError) {
+      console.error("Error downloading sizing CSV:", downloadError);
+      toast({
+        title: "Download failed",
+        description: "Failed to download the sizing CSV. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Calculator className="h-5 w-5" />
+          Nile Hardware Sizing
+        </CardTitle>
+        <CardDescription>
+          Recommended Nile switches and APs per closet, from active access ports, PoE draw and APs seen on each switch.
+          Switches are grouped into closets by their SNMP location.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid gap-4 md:grid-cols-5">
+          <div className="space-y-1">
+            <Label htmlFor="port-headroom">Port headroom %</Label>
+            <Input
+              id="port-headroom"
+              type="number"
+              min={0}
+              value={headroom.portPercent}
+              onChange={(e) => setHeadroom({ ...headroom, portPercent: toNumber(e.target.value) })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="poe-headroom">PoE headroom %</Label>
+            <Input
+              id="poe-headroom"
+              type="number"
+              min={0}
+              value={headroom.poePercent}
+              onChange={(e) => setHeadroom({ ...headroom, poePercent: toNumber(e.target.value) })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="ap-headroom">AP headroom %</Label>
+            <Input
+              id="ap-headroom"
+              type="number"
+              min={0}
+              value={headroom.apPercent}
+              onChange={(e) => setHeadroom({ ...headroom, apPercent: toNumber(e.target.value) })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="ports-per-switch">Ports per switch</Label>
+            <Input
+              id="ports-per-switch"
+              type="number"
+              min={1}
+              value={profile.portsPerSwitch}
+              onChange={(e) => setProfile({ ...profile, portsPerSwitch: Math.max(1, toNumber(e.target.value)) })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="poe-budget">PoE budget per switch (W)</Label>
+            <Input
+              id="poe-budget"
+              type="number"
+              min={0}
+              value={profile.poeBudgetW}
+              onChange={(e) => setProfile({ ...profile, poeBudgetW: toNumber(e.target.value) })}
+            />
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : error ? (
+          <div className="bg-destructive/10 text-destructive p-4 rounded-md">{error}</div>
+        ) : closets.length === 0 ? (
+          <div className="text-sm text-muted-foreground">
+            No switches found for this site. Sizing uses the switches, interfaces and PoE data collected during network discovery.
+          </div>
+        ) : (
+          <>
+            <div className="grid gap-4 md:grid-cols-3">
+              <div className="rounded-md border p-4">
+                <div className="font-medium">Closets</div>
+                <div className="mt-2 text-2xl font-bold">{closets.length}</div>
+              </div>
+              <div className="rounded-md border p-4">
+                <div className="font-medium">Nile Switches</div>
+                <div className="mt-2 text-2xl font-bold text-green-600">{totalSwitches}</div>
+              </div>
+              <div className="rounded-md border p-4">
+                <div className="font-medium">Nile APs</div>
+                <div className="mt-2 text-2xl font-bold text-green-600">{totalAps}</div>
+              </div>
+            </div>
+
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Closet</TableHead>
+                    <TableHead>Active Ports</TableHead>
+                    <TableHead>PoE Draw</TableHead>
+                    <TableHead>Uplinks</TableHead>
+                    <TableHead>APs</TableHead>
+                    <TableHead>Nile Switches</TableHead>
+                    <TableHead>Nile APs</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {closets.map(closet => (
+                    <TableRow key={closet.closet}>
+                      <TableCell>
+                        <div>{closet.closet}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {closet.switches.map(device => device.hostname || device.ip_address).join(", ")}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        {closet.activePorts}
+                        <span className="text-xs text-muted-foreground"> → {closet.requiredPorts}</span>
+                      </TableCell>
+                      <TableCell>
+                        {closet.poeDrawW} W
+                        <span className="text-xs text-muted-foreground"> → {closet.requiredPoeW} W</span>
+                      </TableCell>
+                      <TableCell>
+                        {closet.uplinkCount > 0 && closet.uplinkSpeedMbps
+                          ? `${closet.uplinkCount} x ${formatInterfaceSpeed(closet.uplinkSpeedMbps)}`
+                          : "—"}
+                      </TableCell>
+                      <TableCell>{closet.apCount}</TableCell>
+                      <TableCell className="font-medium">
+                        {closet.recommendedSwitches}
+                        {closet.limitedBy === "poe" && (
+                          <Badge variant="outline" className="ml-2 text-xs">PoE bound</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="font-medium">{closet.recommendedAps}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </>
+        )}
+      </CardContent>
+      <CardFooter className="flex justify-end border-t px-6 py-4">
+        <Button variant="outline" onClick={downloadSizingCsv} disabled={loading || closets.length === 0}>
+          <FileDown className="h-4 w-4 mr-2" />
+          Download Sizing CSV
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
@@ -0,0 +1,226 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { PlusIcon, Trash2Icon } from "lucide-react";
+import { ClassificationSignal, EndpointType } from "@/types/network";
+import {
+  ClassificationRule,
+  DEFAULT_CLASSIFICATION_RULES,
+  ENDPOINT_TYPES,
+  compileRulePattern,
+  getClassificationRules,
+  resetClassificationRules,
+  saveClassificationRules
+} from "@/utils/network/endpointClassification";
+
+const SIGNALS: { value: ClassificationSignal; label: string }[] = [
+  { value: "vendor", label: "OUI vendor" },
+  { value: "capability", label: "LLDP/CDP capability" },
+  { value: "neighbor", label: "Neighbor name/platform" },
+  { value: "dhcp", label: "DHCP fingerprint" },
+  { value: "port", label: "Port name/description" }
+];
+
+interface ClassificationRulesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  siteId: string;
+  userId: string;
+  onSaved: () => void;
+}
+
+export function ClassificationRulesDialog({ open, onOpenChange, siteId, userId, onSaved }: ClassificationRulesDialogProps) {
+  const [rules, setRules] = useState<ClassificationRule[]>([]);
+  const [isDefault, setIsDefault] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!open) return;
+    getClassificationRules(siteId).then(result => {
+      setRules(result.rules.map(rule => ({ ...rule })));
+      setIsDefault(result.isDefault);
+    }).catch(error => {
+      // Saving from here would replace the site's rules with whatever the editor holds, so close it instead
+      toast({
+        title: "Failed to load classification rules",
+        description: error instanceof Error ? error.message : "Failed to load classification rules.",
+        variant: "destructive",
+      });
+      onOpenChange(false);
+    });
+  }, [open, siteId, toast, onOpenChange]);
+
+  const updateRule = (index: number, changes: Partial<ClassificationRule>) => {
+    setRules(rules.map((rule, i) => i === index ? { ...rule, ...changes } : rule));
+  };
+
+  const invalidCount = rules.filter(rule => !rule.pattern || !compileRulePattern(rule.pattern)).length;
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await saveClassificationRules(siteId, userId, rules);
+      toast({
+        title: "Classification rules saved",
+        description: `${rules.length} rules saved for this site. Reclassifying MAC addresses...`,
+      });
+      onOpenChange(false);
+      onSaved();
+    } catch (error) {
+      toast({
+        title: "Save failed",
+        description: error instanceof Error ? error.message : "Failed to save classification rules.",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleReset = async () => {
+    setSaving(true);
+    try {
+      await resetClassificationRules(siteId);
+      setRules(DEFAULT_CLASSIFICATION_RULES.map(rule => ({ ...rule })));
+      setIsDefault(true);
+      toast({
+        title: "Default rules restored",
+        description: "This site now uses the built-in classification rules.",
+      });
+      onOpenChange(false);
+      onSaved();
+    } catch (error) {
+      toast({
+        title: "Reset failed",
+        description: error instanceof Error ? error.message : "Failed to reset classification rules.",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            Endpoint Classification Rules
+            {isDefault && <Badge variant="secondary">Defaults</Badge>}
+          </DialogTitle>
+          <DialogDescription>
+            Each matching rule adds evidence for its type; the type with the most evidence wins.
+            Patterns are case-insensitive regular expressions.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-[60vh] overflow-y-auto rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-[60px]">On</TableHead>
+                <TableHead className="w-[200px]">Signal</TableHead>
+                <TableHead>Pattern</TableHead>
+                <TableHead className="w-[150px]">Type</TableHead>
+                <TableHead className="w-[90px]">Weight</TableHead>
+                <TableHead className="w-[50px]"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rules.map((rule, index) => (
+                <TableRow key={index}>
+                  <TableCell>
+                    <Switch
+                      checked={rule.enabled}
+                      onCheckedChange={(enabled) => updateRule(index, { enabled })}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Select
+                      value={rule.signal}
+                      onValueChange={(value) => updateRule(index, { signal: value as ClassificationSignal })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {SIGNALS.map(signal => (
+                          <SelectItem key={signal.value} value={signal.value}>{signal.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      className={`font-mono ${compileRulePattern(rule.pattern) && rule.pattern ? "" : "border-destructive"}`}
+                      value={rule.pattern}
+                      onChange={(e) => updateRule(index, { pattern: e.target.value })}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Select
+                      value={rule.device_type}
+                      onValueChange={(value) => updateRule(index, { device_type: value as EndpointType })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {ENDPOINT_TYPES.map(type => (
+                          <SelectItem key={type} value={type}>{type}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      min={1}
+                      max={100}
+                      value={rule.weight}
+                      onChange={(e) => updateRule(index, { weight: Math.min(100, Math.max(1, parseInt(e.target.value, 10) || 1)) })}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setRules(rules.filter((_, i) => i !== index))}
+                    >
+                      <Trash2Icon className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+
+        <DialogFooter className="flex-col sm:flex-row sm:justify-between gap-2">
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              onClick={() => setRules([...rules, { signal: "vendor", pattern: "", device_type: "IoT", weight: 50, enabled: true }])}
+            >
+              <PlusIcon className="h-4 w-4 mr-2" />
+              Add Rule
+            </Button>
+            <Button variant="outline" onClick={handleReset} disabled={saving || isDefault}>
+              Restore Defaults
+            </Button>
+          </div>
+          <Button onClick={handleSave} disabled={saving || invalidCount > 0}>
+            {invalidCount > 0 ? `${invalidCount} invalid patterns` : "Save Rules"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,87 @@
+import { Badge } from "@/components/ui/badge";
+import { ClipboardCheckIcon } from "lucide-react";
+import { VlanConsistencyReport } from "@/utils/network/vlanConsistency";
+
+interface VlanConsistencyPanelProps {
+  report: VlanConsistencyReport;
+}
+
+export function VlanConsistencyPanel({ report }: VlanConsistencyPanelProps) {
+  const issueCount = (report.unusedVlans?.length || 0) + report.trunkGaps.length + report.nameMismatches.length;
+
+  return (
+    <div className="rounded-md border p-4 mb-4 space-y-4">
+      <div className="flex items-start">
+        <ClipboardCheckIcon className="h-5 w-5 text-muted-foreground mt-0.5 mr-2" />
+        <div>
+          <h4 className="font-medium">VLAN consistency</h4>
+          <p className="text-muted-foreground text-sm mt-1">
+            {issueCount === 0
+              ? `No issues found across ${report.polledSwitches} switches.`
+              : `${issueCount} issues across ${report.polledSwitches} switches to clean up before building segments.`}
+          </p>
+        </div>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-3 text-sm">
+        <div>
+          <div className="font-medium">Unused VLANs</div>
+          <p className="text-xs text-muted-foreground mb-2">No MAC addresses were learned in these VLANs</p>
+          {report.macCountError ? (
+            <div className="text-destructive">Could not count MAC addresses: {report.macCountError}</div>
+          ) : report.unusedVlans === null ? (
+            <div className="text-muted-foreground">Discover MAC addresses to find unused VLANs.</div>
+          ) : report.unusedVlans.length === 0 ? (
+            <div className="text-muted-foreground">None</div>
+          ) : (
+            <div className="flex flex-wrap gap-1">
+              {report.unusedVlans.map(vlan => (
+                <Badge key={vlan.vlanId} variant="outline" title={vlan.name}>{vlan.vlanId}</Badge>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div>
+          <div className="font-medium">Not carried between switches</div>
+          <p className="text-xs text-muted-foreground mb-2">Switches or trunks between the ones that have the VLAN do not</p>
+          {report.trunkGaps.length === 0 ? (
+            <div className="text-muted-foreground">None</div>
+          ) : (
+            <ul className="space-y-1">
+              {report.trunkGaps.map(gap => (
+                <li key={gap.vlanId}>
+                  <span className="font-medium">VLAN {gap.vlanId}</span>
+                  {gap.missingOn.length > 0 && <> missing on {gap.missingOn.join(", ")}</>}
+                  {gap.prunedOn.length > 0 && (
+                    <div className="text-xs">Not allowed on trunk {gap.prunedOn.join(", ")}</div>
+                  )}
+                  <div className="text-xs text-muted-foreground">Configured on {gap.switches.join(", ")}</div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div>
+          <div className="font-medium">Name mismatches</div>
+          <p className="text-xs text-muted-foreground mb-2">Switches use different names for the VLAN</p>
+          {report.nameMismatches.length === 0 ? (
+            <div className="text-muted-foreground">None</div>
+          ) : (
+            <ul className="space-y-1">
+              {report.nameMismatches.map(vlan => (
+                <li key={vlan.vlanId}>
+                  <span className="font-medium">VLAN {vlan.vlanId}</span>
+                  <div className="text-xs text-muted-foreground">
+                    {vlan.nameVariants.map(variant => `"${variant.name}" on ${variant.switches.join(", ")}`).join("; ")}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
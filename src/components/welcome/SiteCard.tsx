@@ -20,7 +20,7 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
-import { ArrowRight, Trash2, ChevronDown, ChevronUp } from "lucide-react";
+import { ArrowRight, Trash2, ChevronDown, ChevronUp, EthernetPort } from "lucide-react";
 import { Progress } from "@/components/ui/progress";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
 import {
@@ -115,7 +115,8 @@ export const SiteCard = ({
     if (
       e.target instanceof Element && 
       (e.target.closest('button[aria-label="Delete site"]') || 
-       e.target.closest('button.continue-button'))
+       e.target.closest('button.continue-button') ||
+       e.target.closest('button.port-report-button'))
     ) {
       return;
     }
@@ -188,7 +189,20 @@ export const SiteCard = ({
             </CollapsibleContent>
           </Collapsible>
         </CardContent>
-        <CardFooter className="pt-0">
+        <CardFooter className="pt-0 gap-2">
+          <Button
+            variant="outline"
+            size="icon"
+            className="shrink-0 port-report-button"
+            title="Port utilization report"
+            onClick={(e) => {
+              e.stopPropagation();
+              sessionStorage.setItem('selectedSiteId', id);
+              navigate(`/port-report?site=${id}`);
+            }}
+          >
+            <EthernetPort className="h-4 w-4" />
+          </Button>
           <Button 
             className="w-full continue-button"
             onClick={(e) => {
@@ -2,8 +2,10 @@
 import { useState, useEffect } from "react";
 import { useToast } from "@/components/ui/use-toast";
 import { supabase } from "@/integrations/supabase/client";
-import { DeviceData } from "@/types/network";
+import { DeviceData, DeviceEntityData, DeviceLinkData, PoePortData, PoeSupplyData, PortVlanData } from "@/types/network";
+import { fetchAllRows } from "@/utils/supabasePaging";
 import { getDeviceInfoViaSNMP } from "@/utils/network/snmpDiscovery";
+import { getSnmpConnectionForSubnet } from "@/utils/network/snmpCredentials";
 import { determineDeviceTypeFromSNMP } from "@/utils/network/deviceIdentification";
 
 interface Device {
@@ -22,6 +24,11 @@ interface Device {
 
 export const useDeviceData = (userId: string | undefined) => {
   const [devices, setDevices] = useState<Device[]>([]);
+  const [links, setLinks] = useState<DeviceLinkData[]>([]);
+  const [poeSupplies, setPoeSupplies] = useState<PoeSupplyData[]>([]);
+  const [poePorts, setPoePorts] = useState<PoePortData[]>([]);
+  const [entities, setEntities] = useState<DeviceEntityData[]>([]);
+  const [portVlans, setPortVlans] = useState<PortVlanData[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const { toast } = useToast();
 
@@ -76,6 +83,54 @@ export const useDeviceData = (userId: string | undefined) => {
     });
     
     setDevices(devicesWithFixedTypes);
+    
+    // Neighbor links are informational, so a failure here shouldn't block the device list
+    const { data: linkData, error: linkError } = await supabase
+      .from('device_links')
+      .select('*');
+    
+    if (linkError) {
+      console.error('Error fetching device links:', linkError);
+    }
+    setLinks(linkData || []);
+    
+    // PoE inventory is informational as well
+    const { data: supplyData, error: supplyError } = await supabase
+      .from('poe_supplies')
+      .select('*');
+    const { data: portData, error: portError } = await supabase
+      .from('poe_ports')
+      .select('*');
+    
+    if (supplyError || portError) {
+      console.error('Error fetching PoE inventory:', supplyError || portError);
+    }
+    setPoeSupplies(supplyData || []);
+    setPoePorts(portData || []);
+    
+    // So is the hardware inventory, paged so the asset list keeps every chassis on large sites
+    try {
+      setEntities(await fetchAllRows<DeviceEntityData>((from, to) => supabase
+        .from('device_entities')
+        .select('*')
+        .order('device_id', { ascending: true })
+        .order('ent_index', { ascending: true })
+        .range(from, to)));
+    } catch (entityError) {
+      console.error('Error fetching hardware inventory:', entityError);
+      setEntities([]);
+    }
+    
+    // And the VLAN configuration of each switchport
+    const { data: portVlanData, error: portVlanError } = await supabase
+      .from('port_vlans')
+      .select('*')
+      .order('if_index', { ascending: true });
+    
+    if (portVlanError) {
+      console.error('Error fetching port VLANs:', portVlanError);
+    }
+    setPortVlans(portVlanData || []);
     setIsLoading(false);
     
     console.log('Devices loaded:', devicesWithFixedTypes);
@@ -231,7 +286,8 @@ export const useDeviceData = (userId: string | undefined) => {
     for (const device of devicesToFix) {
       try {
         // Get more detailed info via SNMP
-        const deviceInfo = await getDeviceInfoViaSNMP(device.ipAddress, undefined, true);
+        const snmpConnection = await getSnmpConnectionForSubnet(device.subnet_id);
+        const deviceInfo = await getDeviceInfoViaSNMP(device.ipAddress, undefined, true, snmpConnection);
         
         if (deviceInfo && !deviceInfo.error) {
           // Update the device with the new information
@@ -301,6 +357,11 @@ export const useDeviceData = (userId: string | undefined) => {
 
   return {
     devices,
+    links,
+    poeSupplies,
+    poePorts,
+    entities,
+    portVlans,
     isLoading,
     handleSaveEdit,
     handleDeleteDevice,
@@ -4,6 +4,10 @@ import { useNavigate } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { discoverDevicesInSubnet, saveDiscoveredDevices } from "@/utils/networkDiscovery";
 import { checkBackendConnection } from "@/utils/backendConnection";
+import { getSnmpConnectionFromSubnet, SubnetSnmpSettings } from "@/utils/network/snmpCredentials";
+import { crawlFromSeed, CrawlOptions, CrawlTarget } from "@/utils/network/crawlDiscovery";
+import { findContainingCidr } from "@/utils/network/ipUtils";
+import { DiscoveredDevice } from "@/types/network";
 
 interface DiscoveryStatus {
   status: "idle" | "scanning" | "connecting" | "gathering" | "complete" | "error";
@@ -23,6 +27,49 @@ interface BackendStatus {
   lastChecked: Date;
 }
 
+// SNMP settings copied from the seed's subnet onto subnets the crawl adds to the site
+const SNMP_SUBNET_COLUMNS: (keyof SubnetSnmpSettings)[] = [
+  "snmp_community",
+  "snmp_version",
+  "snmp_v3_security_name",
+  "snmp_v3_security_level",
+  "snmp_v3_auth_protocol",
+  "snmp_v3_auth_password",
+  "snmp_v3_priv_protocol",
+  "snmp_v3_priv_password",
+  "snmp_v3_context"
+];
+
+const toDeviceRecords = (devices: DiscoveredDevice[]) => devices.map(device => ({
+  ip_address: device.ip_address,
+  hostname: device.hostname || null,
+  mac_address: device.mac_address || null,
+  make: device.make || null,
+  model: device.model || null,
+  category: device.category || null,
+  status: device.status || 'unknown',
+  sysDescr: device.sysDescr || null,
+  sysObjectID: device.sysObjectID || null,
+  location: device.location || null,
+  needs_verification: device.needs_verification,
+  confirmed: false,
+  neighbors: device.neighbors,
+  arpEntries: device.arpEntries,
+  poe: device.poe,
+  interfaces: device.interfaces,
+  entities: device.entities,
+  portVlans: device.portVlans
+}));
+
+const countByCategory = (devices: DiscoveredDevice[]) => {
+  const devicesByCategory: Record<string, number> = {};
+  devices.forEach(device => {
+    const category = device.category || 'Unknown';
+    devicesByCategory[category] = (devicesByCategory[category] || 0) + 1;
+  });
+  return devicesByCategory;
+};
+
 export const useDiscovery = (userId: string | undefined) => {
   const [discovery, setDiscovery] = useState<DiscoveryStatus>({
     status: "idle",
@@ -242,18 +289,15 @@ export const useDiscovery = (userId: string | undefined) => {
         true,
         userId,
         subnetToScan.site_id,
-        subnetToScan.id
+        subnetToScan.id,
+        getSnmpConnectionFromSubnet(subnetToScan)
       );
       
       const devicesNeedingVerification = discoveredDevices.filter(device => 
         device.needs_verification === true
       ).length;
       
-      const devicesByCategory: Record<string, number> = {};
-      discoveredDevices.forEach(device => {
-        const category = device.category || 'Unknown';
-        devicesByCategory[category] = (devicesByCategory[category] || 0) + 1;
-      });
+      const devicesByCategory = countByCategory(discoveredDevices);
       
       setDiscovery(prev => ({
         ...prev,
@@ -272,20 +316,7 @@ export const useDiscovery = (userId: string | undefined) => {
         progress: 80
       }));
       
-      const devicesToSave = discoveredDevices.map(device => {
-        return {
-          ip_address: device.ip_address,
-          hostname: device.hostname || null,
-          mac_address: device.mac_address || null,
-          make: device.make || null,
-          model: device.model || null,
-          category: device.category || null,
-          status: device.status || 'unknown',
-          sysDescr: device.sysDescr || null,
-          needs_verification: device.needs_verification,
-          confirmed: false
-        };
-      });
+      const devicesToSave = toDeviceRecords(discoveredDevices);
       
       const { error: saveError } = await saveDiscoveredDevices(
         devicesToSave,
@@ -335,6 +366,199 @@ export const useDiscovery = (userId: string | undefined) => {
     }
   };
 
+  const startCrawlDiscovery = async (seedIp: string, options: CrawlOptions) => {
+    if (!userId) {
+      toast({
+        title: "Authentication Required",
+        description: "You must be logged in to start discovery.",
+        variant: "destructive",
+      });
+      navigate('/login');
+      return;
+    }
+
+    const siteId = sessionStorage.getItem('selectedSiteId') || subnetsToScan[0]?.site_id;
+    if (!siteId) {
+      toast({
+        title: "No Site Selected",
+        description: "Please select a site before starting discovery.",
+        variant: "destructive",
+      });
+      navigate('/site-subnet');
+      return;
+    }
+
+    await checkBackendStatus();
+
+    if (!backendStatus?.connected) {
+      setDiscovery({
+        status: "error",
+        progress: 0,
+        message: "Backend connection required for discovery",
+        devices: 0,
+        devicesNeedingVerification: 0,
+        error: "Backend agent not connected. Please check connection and try again.",
+        errorType: backendStatus?.errorType
+      });
+      return;
+    }
+
+    try {
+      setDiscovery({
+        status: "scanning",
+        progress: 5,
+        message: `Crawling the network from ${seedIp}...`,
+        devices: 0,
+        devicesNeedingVerification: 0
+      });
+
+      const { data: siteSubnets, error: subnetError } = await supabase
+        .from('subnets')
+        .select('*')
+        .eq('site_id', siteId);
+
+      if (subnetError) {
+        throw new Error(`Error loading site subnets: ${subnetError.message}`);
+      }
+
+      const knownSubnets = [...(siteSubnets || [])];
+      const seedCidr = findContainingCidr(seedIp, knownSubnets.map(subnet => subnet.cidr));
+      const seedSubnet = knownSubnets.find(subnet => subnet.cidr === seedCidr) || knownSubnets[0];
+
+      const resolveTarget = async (ip: string, learnedSubnets: string[]): Promise<CrawlTarget> => {
+        const knownCidr = findContainingCidr(ip, knownSubnets.map(subnet => subnet.cidr));
+        let subnet = knownSubnets.find(item => item.cidr === knownCidr);
+
+        if (!subnet) {
+          // Add the subnet a router reported for this IP, or assume a /24 when no router covered it
+          const cidr = findContainingCidr(ip, learnedSubnets) || `${ip.split('.').slice(0, 3).join('.')}.0/24`;
+          const credentials = Object.fromEntries(
+            SNMP_SUBNET_COLUMNS.map(column => [column, seedSubnet?.[column] ?? null])
+          );
+
+          const { data: newSubnet, error } = await supabase
+            .from('subnets')
+            .insert({
+              cidr,
+              description: `Discovered by crawl from ${seedIp}`,
+              site_id: siteId,
+              user_id: userId,
+              access_method: 'snmp',
+              ...credentials
+            })
+            .select('*')
+            .single();
+
+          if (error) {
+            throw new Error(`Error adding subnet ${cidr}: ${error.message}`);
+          }
+
+          console.log(`Crawl added subnet ${cidr} to the site`);
+          knownSubnets.push(newSubnet);
+          subnet = newSubnet;
+        }
+
+        return { subnetId: subnet.id, snmp: getSnmpConnectionFromSubnet(subnet) };
+      };
+
+      const { devicesBySubnet, learnedSubnets } = await crawlFromSeed(
+        seedIp,
+        options,
+        resolveTarget,
+        updateDiscoveryProgress,
+        true
+      );
+
+      const discoveredDevices = Object.values(devicesBySubnet).flat();
+      const devicesNeedingVerification = discoveredDevices.filter(device =>
+        device.needs_verification === true
+      ).length;
+      const devicesByCategory = countByCategory(discoveredDevices);
+
+      setDiscovery(prev => ({
+        ...prev,
+        status: "connecting",
+        message: "Saving device information to database...",
+        devices: discoveredDevices.length,
+        devicesNeedingVerification,
+        devicesByCategory,
+        progress: 80
+      }));
+
+      const rediscoveredIps = discoveredDevices.map(device => device.ip_address);
+
+      // MACs learned from the switches found again are re-harvested; other switches' MACs in the same subnets stay.
+      // They are cleared by device_id before the devices go, since deleting a device only unlinks its MACs
+      const { data: staleDevices, error: staleDevicesError } = await supabase
+        .from('devices')
+        .select('id')
+        .eq('site_id', siteId)
+        .eq('user_id', userId)
+        .in('ip_address', rediscoveredIps);
+
+      if (staleDevicesError) {
+        console.error('Error loading existing devices:', staleDevicesError);
+      } else if (staleDevices && staleDevices.length > 0) {
+        const { error: deleteMacError } = await supabase
+          .from('mac_addresses')
+          .delete()
+          .eq('user_id', userId)
+          .in('device_id', staleDevices.map(device => device.id));
+
+        if (deleteMacError) {
+          console.error('Error deleting existing MAC addresses:', deleteMacError);
+        }
+      }
+
+      // A crawl only adds to the site, so replace just the devices it found again
+      const { error: deleteError } = await supabase
+        .from('devices')
+        .delete()
+        .eq('site_id', siteId)
+        .eq('user_id', userId)
+        .in('ip_address', rediscoveredIps);
+
+      if (deleteError) {
+        console.error('Error deleting existing devices:', deleteError);
+      }
+
+      for (const [subnetId, devices] of Object.entries(devicesBySubnet)) {
+        const { error: saveError } = await saveDiscoveredDevices(toDeviceRecords(devices), siteId, subnetId, userId);
+        if (saveError) {
+          throw new Error(`Error saving devices: ${saveError.message}`);
+        }
+      }
+
+      setDiscovery({
+        status: "complete",
+        progress: 100,
+        message: `Crawl complete! Found ${discoveredDevices.length} device(s) across ${Object.keys(devicesBySubnet).length} subnet(s).`,
+        devices: discoveredDevices.length,
+        devicesNeedingVerification,
+        devicesByCategory
+      });
+
+      toast({
+        title: "Discovery complete",
+        description: `Crawled ${discoveredDevices.length} device(s) from ${seedIp}. Routers reported ${learnedSubnets.length} subnet(s).`,
+      });
+    } catch (error) {
+      console.error('Error during crawl discovery:', error);
+      setDiscovery(prev => ({
+        ...prev,
+        status: "error",
+        message: "Error during crawl discovery",
+        error: error instanceof Error ? error.message : "An unexpected error occurred"
+      }));
+
+      toast({
+        title: "Discovery Error",
+        description: error instanceof Error ? error.message : "An unexpected error occurred during discovery.",
+        variant: "destructive",
+      });
+    }
+  };
+
   return {
     discovery,
     subnetsToScan,
@@ -342,6 +566,7 @@ export const useDiscovery = (userId: string | undefined) => {
     isCheckingBackend,
     checkBackendStatus,
     startDiscovery,
+    startCrawlDiscovery,
     resetDiscovery
   };
 };
@@ -9,6 +9,320 @@ export type Json =
 export type Database = {
   public: {
     Tables: {
+      classification_rules: {
+        Row: {
+          created_at: string
+          device_type: string
+          enabled: boolean
+          id: string
+          pattern: string
+          position: number
+          signal: string
+          site_id: string
+          user_id: string
+          weight: number
+        }
+        Insert: {
+          created_at?: string
+          device_type: string
+          enabled?: boolean
+          id?: string
+          pattern: string
+          position?: number
+          signal: string
+          site_id: string
+          user_id: string
+          weight: number
+        }
+        Update: {
+          created_at?: string
+          device_type?: string
+          enabled?: boolean
+          id?: string
+          pattern?: string
+          position?: number
+          signal?: string
+          site_id?: string
+          user_id?: string
+          weight?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "classification_rules_site_id_fkey"
+            columns: ["site_id"]
+            isOneToOne: false
+            referencedRelation: "sites"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      device_entities: {
+        Row: {
+          contained_in: number | null
+          description: string | null
+          device_id: string
+          discovered_at: string
+          ent_index: number
+          entity_class: string
+          firmware_rev: string | null
+          hardware_rev: string | null
+          id: string
+          is_fru: boolean
+          manufacturer: string | null
+          model: string | null
+          name: string | null
+          rel_pos: number | null
+          serial_number: string | null
+          site_id: string
+          software_rev: string | null
+          user_id: string
+        }
+        Insert: {
+          contained_in?: number | null
+          description?: string | null
+          device_id: string
+          discovered_at?: string
+          ent_index: number
+          entity_class: string
+          firmware_rev?: string | null
+          hardware_rev?: string | null
+          id?: string
+          is_fru?: boolean
+          manufacturer?: string | null
+          model?: string | null
+          name?: string | null
+          rel_pos?: number | null
+          serial_number?: string | null
+          site_id: string
+          software_rev?: string | null
+          user_id: string
+        }
+        Update: {
+          contained_in?: number | null
+          description?: string | null
+          device_id?: string
+          discovered_at?: string
+          ent_index?: number
+          entity_class?: string
+          firmware_rev?: string | null
+          hardware_rev?: string | null
+          id?: string
+          is_fru?: boolean
+          manufacturer?: string | null
+          model?: string | null
+          name?: string | null
+          rel_pos?: number | null
+          serial_number?: string | null
+          site_id?: string
+          software_rev?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "device_entities_device_id_fkey"
+            columns: ["device_id"]
+            isOneToOne: false
+            referencedRelation: "devices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "device_entities_site_id_fkey"
+            columns: ["site_id"]
+            isOneToOne: false
+            referencedRelation: "sites"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      device_interfaces: {
+        Row: {
+          admin_status: string | null
+          alias: string | null
+          description: string | null
+          device_id: string
+          discovered_at: string
+          id: string
+          if_index: number
+          if_type: number | null
+          last_change: string | null
+          name: string
+          oper_status: string | null
+          site_id: string
+          speed_mbps: number | null
+          user_id: string
+        }
+        Insert: {
+          admin_status?: string | null
+          alias?: string | null
+          description?: string | null
+          device_id: string
+          discovered_at?: string
+          id?: string
+          if_index: number
+          if_type?: number | null
+          last_change?: string | null
+          name: string
+          oper_status?: string | null
+          site_id: string
+          speed_mbps?: number | null
+          user_id: string
+        }
+        Update: {
+          admin_status?: string | null
+          alias?: string | null
+          description?: string | null
+          device_id?: string
+          discovered_at?: string
+          id?: string
+          if_index?: number
+          if_type?: number | null
+          last_change?: string | null
+          name?: string
+          oper_status?: string | null
+          site_id?: string
+          speed_mbps?: number | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "device_interfaces_device_id_fkey"
+            columns: ["device_id"]
+            isOneToOne: false
+            referencedRelation: "devices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "device_interfaces_site_id_fkey"
+            columns: ["site_id"]
+            isOneToOne: false
+            referencedRelation: "sites"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      device_links: {
+        Row: {
+          device_id: string
+          discovered_at: string
+          id: string
+          local_port: string
+          med_device_class: string | null
+          native_vlan: number | null
+          platform: string | null
+          protocol: string
+          remote_capabilities: string[] | null
+          remote_chassis_id: string | null
+          remote_management_address: string | null
+          remote_port: string | null
+          remote_port_description: string | null
+          remote_sys_description: string | null
+          remote_sys_name: string | null
+          site_id: string
+          user_id: string
+        }
+        Insert: {
+          device_id: string
+          discovered_at?: string
+          id?: string
+          local_port: string
+          med_device_class?: string | null
+          native_vlan?: number | null
+          platform?: string | null
+          protocol?: string
+          remote_capabilities?: string[] | null
+          remote_chassis_id?: string | null
+          remote_management_address?: string | null
+          remote_port?: string | null
+          remote_port_description?: string | null
+          remote_sys_description?: string | null
+          remote_sys_name?: string | null
+          site_id: string
+          user_id: string
+        }
+        Update: {
+          device_id?: string
+          discovered_at?: string
+          id?: string
+          local_port?: string
+          med_device_class?: string | null
+          native_vlan?: number | null
+          platform?: string | null
+          protocol?: string
+          remote_capabilities?: string[] | null
+          remote_chassis_id?: string | null
+          remote_management_address?: string | null
+          remote_port?: string | null
+          remote_port_description?: string | null
+          remote_sys_description?: string | null
+          remote_sys_name?: string | null
+          site_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "device_links_device_id_fkey"
+            columns: ["device_id"]
+            isOneToOne: false
+            referencedRelation: "devices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "device_links_site_id_fkey"
+            columns: ["site_id"]
+            isOneToOne: false
+            referencedRelation: "sites"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      device_vlans: {
+        Row: {
+          device_id: string
+          discovered_at: string
+          id: string
+          name: string | null
+          site_id: string
+          subnet: string | null
+          user_id: string
+          vlan_id: number
+        }
+        Insert: {
+          device_id: string
+          discovered_at?: string
+          id?: string
+          name?: string | null
+          site_id: string
+          subnet?: string | null
+          user_id: string
+          vlan_id: number
+        }
+        Update: {
+          device_id?: string
+          discovered_at?: string
+          id?: string
+          name?: string | null
+          site_id?: string
+          subnet?: string | null
+          user_id?: string
+          vlan_id?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "device_vlans_device_id_fkey"
+            columns: ["device_id"]
+            isOneToOne: false
+            referencedRelation: "devices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "device_vlans_site_id_fkey"
+            columns: ["site_id"]
+            isOneToOne: false
+            referencedRelation: "sites"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       devices: {
         Row: {
           category: string | null
@@ -18,6 +332,7 @@ export type Database = {
           id: string
           ip_address: string
           last_seen: string
+          location: string | null
           mac_address: string | null
           make: string | null
           model: string | null
@@ -26,6 +341,7 @@ export type Database = {
           status: string | null
           subnet_id: string
           sysdescr: string | null
+          sysobjectid: string | null
           user_id: string
         }
         Insert: {
@@ -36,6 +352,7 @@ export type Database = {
           id?: string
           ip_address: string
           last_seen?: string
+          location?: string | null
           mac_address?: string | null
           make?: string | null
           model?: string | null
@@ -44,6 +361,7 @@ export type Database = {
           status?: string | null
           subnet_id: string
           sysdescr?: string | null
+          sysobjectid?: string | null
           user_id: string
         }
         Update: {
@@ -54,6 +372,7 @@ export type Database = {
           id?: string
           ip_address?: string
           last_seen?: string
+          location?: string | null
           mac_address?: string | null
           make?: string | null
           model?: string | null
@@ -62,6 +381,7 @@ export type Database = {
           status?: string | null
           subnet_id?: string
           sysdescr?: string | null
+          sysobjectid?: string | null
           user_id?: string
         }
         Relationships: [
@@ -81,44 +401,183 @@ export type Database = {
           },
         ]
       }
+      eol_catalog: {
+        Row: {
+          created_at: string
+          end_of_sale: string | null
+          end_of_support: string | null
+          id: string
+          model_pattern: string
+          notes: string | null
+          position: number
+          user_id: string
+          vendor: string
+        }
+        Insert: {
+          created_at?: string
+          end_of_sale?: string | null
+          end_of_support?: string | null
+          id?: string
+          model_pattern: string
+          notes?: string | null
+          position?: number
+          user_id: string
+          vendor: string
+        }
+        Update: {
+          created_at?: string
+          end_of_sale?: string | null
+          end_of_support?: string | null
+          id?: string
+          model_pattern?: string
+          notes?: string | null
+          position?: number
+          user_id?: string
+          vendor?: string
+        }
+        Relationships: []
+      }
+      identification_rules: {
+        Row: {
+          created_at: string
+          id: string
+          oid_prefix: string
+          position: number
+          rule_type: string
+          user_id: string
+          value: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          oid_prefix: string
+          position?: number
+          rule_type: string
+          user_id: string
+          value: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          oid_prefix?: string
+          position?: number
+          rule_type?: string
+          user_id?: string
+          value?: string
+        }
+        Relationships: []
+      }
+      ip_mac_bindings: {
+        Row: {
+          device_id: string | null
+          id: string
+          interface: string | null
+          ip_address: string
+          last_seen: string
+          mac_address: string
+          site_id: string
+          user_id: string
+          vlan_id: number | null
+        }
+        Insert: {
+          device_id?: string | null
+          id?: string
+          interface?: string | null
+          ip_address: string
+          last_seen?: string
+          mac_address: string
+          site_id: string
+          user_id: string
+          vlan_id?: number | null
+        }
+        Update: {
+          device_id?: string | null
+          id?: string
+          interface?: string | null
+          ip_address?: string
+          last_seen?: string
+          mac_address?: string
+          site_id?: string
+          user_id?: string
+          vlan_id?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ip_mac_bindings_device_id_fkey"
+            columns: ["device_id"]
+            isOneToOne: false
+            referencedRelation: "devices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ip_mac_bindings_site_id_fkey"
+            columns: ["site_id"]
+            isOneToOne: false
+            referencedRelation: "sites"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       mac_addresses: {
         Row: {
+          device_id: string | null
           device_type: string | null
+          device_type_confidence: number | null
           discovered_at: string
           id: string
           is_active: boolean | null
           last_seen: string
           mac_address: string
+          port: string | null
+          port_description: string | null
+          port_role: string | null
           site_id: string
           subnet_id: string
           user_id: string
           vlan_id: number
         }
         Insert: {
+          device_id?: string | null
           device_type?: string | null
+          device_type_confidence?: number | null
           discovered_at?: string
           id?: string
           is_active?: boolean | null
           last_seen?: string
           mac_address: string
+          port?: string | null
+          port_description?: string | null
+          port_role?: string | null
           site_id: string
           subnet_id: string
           user_id: string
           vlan_id: number
         }
         Update: {
+          device_id?: string | null
           device_type?: string | null
+          device_type_confidence?: number | null
           discovered_at?: string
           id?: string
           is_active?: boolean | null
           last_seen?: string
           mac_address?: string
+          port?: string | null
+          port_description?: string | null
+          port_role?: string | null
           site_id?: string
           subnet_id?: string
           user_id?: string
           vlan_id?: number
         }
         Relationships: [
+          {
+            foreignKeyName: "mac_addresses_device_id_fkey"
+            columns: ["device_id"]
+            isOneToOne: false
+            referencedRelation: "devices"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "mac_addresses_site_id_fkey"
             columns: ["site_id"]
@@ -135,6 +594,183 @@ export type Database = {
           },
         ]
       }
+      poe_ports: {
+        Row: {
+          admin_enabled: boolean
+          allocated_mw: number | null
+          detection_status: string | null
+          device_id: string
+          discovered_at: string
+          group_index: number
+          id: string
+          interface: string | null
+          port_index: number
+          power_class: number | null
+          power_mw: number | null
+          site_id: string
+          user_id: string
+        }
+        Insert: {
+          admin_enabled?: boolean
+          allocated_mw?: number | null
+          detection_status?: string | null
+          device_id: string
+          discovered_at?: string
+          group_index: number
+          id?: string
+          interface?: string | null
+          port_index: number
+          power_class?: number | null
+          power_mw?: number | null
+          site_id: string
+          user_id: string
+        }
+        Update: {
+          admin_enabled?: boolean
+          allocated_mw?: number | null
+          detection_status?: string | null
+          device_id?: string
+          discovered_at?: string
+          group_index?: number
+          id?: string
+          interface?: string | null
+          port_index?: number
+          power_class?: number | null
+          power_mw?: number | null
+          site_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "poe_ports_device_id_fkey"
+            columns: ["device_id"]
+            isOneToOne: false
+            referencedRelation: "devices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "poe_ports_site_id_fkey"
+            columns: ["site_id"]
+            isOneToOne: false
+            referencedRelation: "sites"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      poe_supplies: {
+        Row: {
+          consumption_w: number | null
+          device_id: string
+          discovered_at: string
+          group_index: number
+          id: string
+          oper_status: string | null
+          power_w: number | null
+          site_id: string
+          usage_threshold: number | null
+          user_id: string
+        }
+        Insert: {
+          consumption_w?: number | null
+          device_id: string
+          discovered_at?: string
+          group_index: number
+          id?: string
+          oper_status?: string | null
+          power_w?: number | null
+          site_id: string
+          usage_threshold?: number | null
+          user_id: string
+        }
+        Update: {
+          consumption_w?: number | null
+          device_id?: string
+          discovered_at?: string
+          group_index?: number
+          id?: string
+          oper_status?: string | null
+          power_w?: number | null
+          site_id?: string
+          usage_threshold?: number | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "poe_supplies_device_id_fkey"
+            columns: ["device_id"]
+            isOneToOne: false
+            referencedRelation: "devices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "poe_supplies_site_id_fkey"
+            columns: ["site_id"]
+            isOneToOne: false
+            referencedRelation: "sites"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      port_vlans: {
+        Row: {
+          access_vlan: number | null
+          allowed_vlans: string | null
+          device_id: string
+          discovered_at: string
+          id: string
+          if_index: number
+          interface: string | null
+          mode: string
+          native_vlan: number | null
+          site_id: string
+          user_id: string
+          voice_vlan: number | null
+        }
+        Insert: {
+          access_vlan?: number | null
+          allowed_vlans?: string | null
+          device_id: string
+          discovered_at?: string
+          id?: string
+          if_index: number
+          interface?: string | null
+          mode: string
+          native_vlan?: number | null
+          site_id: string
+          user_id: string
+          voice_vlan?: number | null
+        }
+        Update: {
+          access_vlan?: number | null
+          allowed_vlans?: string | null
+          device_id?: string
+          discovered_at?: string
+          id?: string
+          if_index?: number
+          interface?: string | null
+          mode?: string
+          native_vlan?: number | null
+          site_id?: string
+          user_id?: string
+          voice_vlan?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "port_vlans_device_id_fkey"
+            columns: ["device_id"]
+            isOneToOne: false
+            referencedRelation: "devices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "port_vlans_site_id_fkey"
+            columns: ["site_id"]
+            isOneToOne: false
+            referencedRelation: "sites"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
           company_name: string | null
@@ -165,6 +801,44 @@ export type Database = {
         }
         Relationships: []
       }
+      segments: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          position: number
+          site_id: string
+          user_id: string
+          vlan_ids: number[]
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          position?: number
+          site_id: string
+          user_id: string
+          vlan_ids?: number[]
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          position?: number
+          site_id?: string
+          user_id?: string
+          vlan_ids?: number[]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "segments_site_id_fkey"
+            columns: ["site_id"]
+            isOneToOne: false
+            referencedRelation: "sites"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       sites: {
         Row: {
           created_at: string
@@ -202,6 +876,13 @@ export type Database = {
           password: string | null
           site_id: string
           snmp_community: string | null
+          snmp_v3_auth_password: string | null
+          snmp_v3_auth_protocol: string | null
+          snmp_v3_context: string | null
+          snmp_v3_priv_password: string | null
+          snmp_v3_priv_protocol: string | null
+          snmp_v3_security_level: string | null
+          snmp_v3_security_name: string | null
           snmp_version: string | null
           user_id: string
           username: string | null
@@ -215,6 +896,13 @@ export type Database = {
           password?: string | null
           site_id: string
           snmp_community?: string | null
+          snmp_v3_auth_password?: string | null
+          snmp_v3_auth_protocol?: string | null
+          snmp_v3_context?: string | null
+          snmp_v3_priv_password?: string | null
+          snmp_v3_priv_protocol?: string | null
+          snmp_v3_security_level?: string | null
+          snmp_v3_security_name?: string | null
           snmp_version?: string | null
           user_id: string
           username?: string | null
@@ -228,6 +916,13 @@ export type Database = {
           password?: string | null
           site_id?: string
           snmp_community?: string | null
+          snmp_v3_auth_password?: string | null
+          snmp_v3_auth_protocol?: string | null
+          snmp_v3_context?: string | null
+          snmp_v3_priv_password?: string | null
+          snmp_v3_priv_protocol?: string | null
+          snmp_v3_security_level?: string | null
+          snmp_v3_security_name?: string | null
           snmp_version?: string | null
           user_id?: string
           username?: string | null
@@ -248,6 +943,7 @@ export type Database = {
           description: string | null
           id: string
           name: string
+          name_resolved: boolean
           site_id: string
           user_id: string
           vlan_id: number
@@ -257,6 +953,7 @@ export type Database = {
           description?: string | null
           id?: string
           name: string
+          name_resolved?: boolean
           site_id: string
           user_id: string
           vlan_id: number
@@ -266,6 +963,7 @@ export type Database = {
           description?: string | null
           id?: string
           name?: string
+          name_resolved?: boolean
           site_id?: string
           user_id?: string
           vlan_id?: number
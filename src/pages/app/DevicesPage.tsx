@@ -1,19 +1,33 @@
 
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { useNavigate } from "react-router-dom";
 import { useAuth } from "@/contexts/AuthContext";
 import { useDeviceData } from "@/hooks/useDeviceData";
 import { DeviceTable } from "@/components/devices/DeviceTable";
+import { NeighborLinksTable } from "@/components/devices/NeighborLinksTable";
+import { PoeSummaryTable } from "@/components/devices/PoeSummaryTable";
+import { HardwareInventoryTable } from "@/components/devices/HardwareInventoryTable";
+import { PortVlanTable } from "@/components/devices/PortVlanTable";
+import { AtRiskHardwareTable } from "@/components/devices/AtRiskHardwareTable";
+import { EolCatalogDialog } from "@/components/devices/EolCatalogDialog";
+import { IdentificationRulesDialog } from "@/components/devices/IdentificationRulesDialog";
 import VerificationBanner from "@/components/devices/VerificationBanner";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Server, ArrowLeft, ArrowRight, RefreshCw } from "lucide-react";
+import { Server, ArrowLeft, ArrowRight, RefreshCw, Network, Zap, HardDrive, FileDown, ShieldAlert, BookOpen, Fingerprint, Split } from "lucide-react";
+import { getAssetListCsv } from "@/utils/network/entityDiscovery";
+import { getEolCatalog, EolCatalogEntry, DEFAULT_EOL_CATALOG } from "@/utils/network/hardwareLifecycle";
 
 const DevicesPage = () => {
   const navigate = useNavigate();
   const { user } = useAuth();
   const { 
     devices, 
+    links,
+    poeSupplies,
+    poePorts,
+    entities,
+    portVlans,
     isLoading, 
     handleSaveEdit, 
     handleDeleteDevice,
@@ -22,9 +36,40 @@ const DevicesPage = () => {
   } = useDeviceData(user?.id);
   const [confirmingDevices, setConfirmingDevices] = useState(false);
   const [refreshing, setRefreshing] = useState(false);
+  const [eolCatalog, setEolCatalog] = useState<EolCatalogEntry[]>(DEFAULT_EOL_CATALOG);
+  const [eolDialogOpen, setEolDialogOpen] = useState(false);
+  const [identificationDialogOpen, setIdentificationDialogOpen] = useState(false);
+  
+  const loadEolCatalog = async () => {
+    const { catalog } = await getEolCatalog();
+    setEolCatalog(catalog);
+  };
+  
+  useEffect(() => {
+    if (user) {
+      loadEolCatalog();
+    }
+  }, [user]);
   
   const needsVerificationCount = devices.filter(d => d.needsVerification).length;
   
+  const downloadAssetList = () => {
+    const blob = new Blob([getAssetListCsv(entities, devices)], { type: 'text/csv;charset=utf-8;' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    
+    link.setAttribute('href', url);
+    link.setAttribute('download', `asset-list-${new Date().toISOString().split('T')[0]}.csv`);
+    
+    document.body.appendChild(link);
+    link.click();
+    
+    setTimeout(() => {
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    }, 100);
+  };
+  
   const handleConfirmAll = async () => {
     setConfirmingDevices(true);
     const success = await confirmAllDevices();
@@ -68,16 +113,28 @@ const DevicesPage = () => {
               These devices were discovered on your network. Make any necessary corrections before proceeding.
             </CardDescription>
           </div>
-          <Button 
-            variant="outline" 
-            size="sm" 
-            onClick={handleRefresh}
-            disabled={refreshing}
-            className="flex gap-2 items-center"
-          >
-            <RefreshCw className={`h-4 w-4 ${refreshing ? 'animate-spin' : ''}`} />
-            {refreshing ? 'Refreshing...' : 'Refresh Devices'}
-          </Button>
+          <div className="flex gap-2">
+            <Button 
+              variant="outline" 
+              size="sm" 
+              onClick={() => setIdentificationDialogOpen(true)}
+              disabled={!user}
+              className="flex gap-2 items-center"
+            >
+              <Fingerprint className="h-4 w-4" />
+              Identification Rules
+            </Button>
+            <Button 
+              variant="outline" 
+              size="sm" 
+              onClick={handleRefresh}
+              disabled={refreshing}
+              className="flex gap-2 items-center"
+            >
+              <RefreshCw className={`h-4 w-4 ${refreshing ? 'animate-spin' : ''}`} />
+              {refreshing ? 'Refreshing...' : 'Refresh Devices'}
+            </Button>
+          </div>
         </CardHeader>
         <CardContent>
           <DeviceTable 
@@ -104,6 +161,133 @@ const DevicesPage = () => {
           </Button>
         </CardFooter>
       </Card>
+      
+      {!isLoading && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Network className="h-5 w-5" />
+              Neighbor Links
+            </CardTitle>
+            <CardDescription>
+              Switches, access points and phones connected to each switch port, as reported by LLDP.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <NeighborLinksTable links={links} devices={devices} />
+          </CardContent>
+        </Card>
+      )}
+      
+      {!isLoading && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Zap className="h-5 w-5" />
+              PoE Summary
+            </CardTitle>
+            <CardDescription>
+              Power budget and draw per switch, for sizing replacement Nile switches.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <PoeSummaryTable supplies={poeSupplies} ports={poePorts} devices={devices} />
+          </CardContent>
+        </Card>
+      )}
+      
+      {!isLoading && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Split className="h-5 w-5" />
+              Port VLANs
+            </CardTitle>
+            <CardDescription>
+              Access and trunk ports per switch, with the ports that carry an IP phone and a PC behind it on separate voice and data VLANs.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <PortVlanTable portVlans={portVlans} devices={devices} />
+          </CardContent>
+        </Card>
+      )}
+      
+      {!isLoading && (
+        <Card>
+          <CardHeader className="flex flex-row justify-between items-center">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <HardDrive className="h-5 w-5" />
+                Hardware Inventory
+              </CardTitle>
+              <CardDescription>
+                Chassis, stack members and line cards with serial numbers, for decommissioning the replaced hardware.
+              </CardDescription>
+            </div>
+            <Button 
+              variant="outline" 
+              size="sm" 
+              onClick={downloadAssetList}
+              disabled={entities.length === 0}
+              className="flex gap-2 items-center"
+            >
+              <FileDown className="h-4 w-4" />
+              Export Asset List
+            </Button>
+          </CardHeader>
+          <CardContent>
+            <HardwareInventoryTable entities={entities} devices={devices} />
+          </CardContent>
+        </Card>
+      )}
+      
+      {!isLoading && (
+        <Card>
+          <CardHeader className="flex flex-row justify-between items-center">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <ShieldAlert className="h-5 w-5" />
+                At-Risk Hardware
+              </CardTitle>
+              <CardDescription>
+                Devices past or nearing their vendor end-of-sale and end-of-support dates, with the firmware they run.
+              </CardDescription>
+            </div>
+            <Button 
+              variant="outline" 
+              size="sm" 
+              onClick={() => setEolDialogOpen(true)}
+              disabled={!user}
+              className="flex gap-2 items-center"
+            >
+              <BookOpen className="h-4 w-4" />
+              EoL Catalog
+            </Button>
+          </CardHeader>
+          <CardContent>
+            <AtRiskHardwareTable devices={devices} entities={entities} catalog={eolCatalog} />
+          </CardContent>
+        </Card>
+      )}
+      
+      {user && (
+        <EolCatalogDialog
+          open={eolDialogOpen}
+          onOpenChange={setEolDialogOpen}
+          userId={user.id}
+          onSaved={loadEolCatalog}
+        />
+      )}
+      
+      {user && (
+        <IdentificationRulesDialog
+          open={identificationDialogOpen}
+          onOpenChange={setIdentificationDialogOpen}
+          userId={user.id}
+          onSaved={refreshDevices}
+        />
+      )}
     </div>
   );
 };
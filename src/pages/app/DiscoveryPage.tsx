@@ -1,5 +1,5 @@
 
-import React from "react";
+import React, { useEffect, useState } from "react";
 import { useNavigate } from "react-router-dom";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { ScanSearchIcon } from "lucide-react";
@@ -9,18 +9,59 @@ import BackendStatusIndicator from "@/components/discovery/BackendStatusIndicato
 import DiscoveryProgress from "@/components/discovery/DiscoveryProgress";
 import DiscoveryActions from "@/components/discovery/DiscoveryActions";
 import { BackendConnectionButton } from "@/components/BackendConnectionButton";
+import CrawlSettings, { CrawlSettingsValue } from "@/components/discovery/CrawlSettings";
+import { useToast } from "@/hooks/use-toast";
 
 const DiscoveryPage: React.FC = () => {
   const navigate = useNavigate();
   const { user } = useAuth();
+  const { toast } = useToast();
   const { 
     discovery, 
+    subnetsToScan,
     backendStatus, 
     isCheckingBackend, 
     checkBackendStatus, 
     startDiscovery,
+    startCrawlDiscovery,
     resetDiscovery
   } = useDiscovery(user?.id);
+  const [crawl, setCrawl] = useState<CrawlSettingsValue>({
+    enabled: false,
+    seedIp: "",
+    maxDepth: 3,
+    allowedSubnets: ""
+  });
+
+  // Default the allow-list to the subnets entered for the site
+  useEffect(() => {
+    if (subnetsToScan.length > 0) {
+      setCrawl(prev => prev.allowedSubnets ? prev : {
+        ...prev,
+        allowedSubnets: subnetsToScan.map(subnet => subnet.cidr).join(", ")
+      });
+    }
+  }, [subnetsToScan]);
+
+  const handleStartDiscovery = () => {
+    if (!crawl.enabled) {
+      startDiscovery();
+      return;
+    }
+
+    const allowedSubnets = crawl.allowedSubnets.split(",").map(cidr => cidr.trim()).filter(Boolean);
+    const ipPattern = /^(\d{1,3}\.){3}\d{1,3}$/;
+    if (!ipPattern.test(crawl.seedIp) || allowedSubnets.some(cidr => !/^(\d{1,3}\.){3}\d{1,3}\/\d{1,2}$/.test(cidr))) {
+      toast({
+        title: "Invalid crawl settings",
+        description: "Enter a seed IP address and allowed subnets in CIDR notation (e.g. 10.0.0.0/16).",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    startCrawlDiscovery(crawl.seedIp, { maxDepth: crawl.maxDepth, allowedSubnets });
+  };
 
   const navigateBack = () => {
     navigate("/site-subnet");
@@ -31,7 +72,7 @@ const DiscoveryPage: React.FC = () => {
       <div className="flex flex-col space-y-2">
         <h1 className="text-2xl font-bold tracking-tight">Network Discovery</h1>
         <p className="text-muted-foreground">
-          Discover devices on your network using the configured subnets.
+          Discover devices on your network using the configured subnets, or crawl outward from a seed switch.
         </p>
       </div>
 
@@ -57,6 +98,11 @@ const DiscoveryPage: React.FC = () => {
           />
         </CardHeader>
         <CardContent className="space-y-4">
+          <CrawlSettings 
+            value={crawl}
+            onChange={setCrawl}
+            disabled={discovery.status !== "idle"}
+          />
           <DiscoveryProgress 
             discovery={discovery}
             checkBackendStatus={checkBackendStatus}
@@ -68,7 +114,7 @@ const DiscoveryPage: React.FC = () => {
           <DiscoveryActions 
             discoveryStatus={discovery.status}
             backendConnected={!!backendStatus?.connected}
-            startDiscovery={startDiscovery}
+            startDiscovery={handleStartDiscovery}
             navigateBack={navigateBack}
           />
         </CardFooter>
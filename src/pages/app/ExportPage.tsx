@@ -5,13 +5,26 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertTitle, AlertDescription } from "@/components/ui/alert";
 import { useToast } from "@/components/ui/use-toast";
-import { ShareIcon, FileDown, CheckIcon, TableIcon, EyeIcon, CodeIcon } from "lucide-react";
+import { ShareIcon, FileDown, CheckIcon, TableIcon, EyeIcon, CodeIcon, AlertTriangleIcon } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/contexts/AuthContext";
+import { isTransitPortRole } from "@/utils/network/portRoles";
+import { getIpBindingLookup } from "@/utils/network/arpDiscovery";
+import { loadOuiRegistry, lookupVendor, isRandomizedMac } from "@/utils/network/ouiLookup";
+import { getSegmentLookup } from "@/utils/network/segmentPlanning";
+import { NileSizingCard } from "@/components/export/NileSizingCard";
 
 interface ExportData {
   macAddress: string;
+  ipAddress: string; // Preview only - not part of the Nile CSV format
+  vendor: string; // Preview only
+  randomized: boolean; // Locally administered - will not match again once the device rotates it
+  transit: boolean; // Learned on a trunk/uplink - the device sits behind another switch
   segmentName: string;
   lockToPort: string;
   site: string;
@@ -27,6 +40,8 @@ const ExportPage = () => {
   const [error, setError] = useState<string | null>(null);
   const [selectedSiteId, setSelectedSiteId] = useState<string | null>(null);
   const [migrationComplete, setMigrationComplete] = useState(false);
+  const [excludeRandomized, setExcludeRandomized] = useState(true);
+  const [excludeTransit, setExcludeTransit] = useState(true);
   const { toast } = useToast();
   const navigate = useNavigate();
   const location = useLocation();
@@ -77,6 +92,9 @@ const ExportPage = () => {
           vlanMap.set(vlan.vlan_id, vlan.name || `VLAN ${vlan.vlan_id}`);
         });
         
+        // The segment plan wins; VLANs left out of it (or sites without one) keep their VLAN name
+        const findSegment = await getSegmentLookup(selectedSiteId);
+        
         const { data: macAddresses, error: macError } = await supabase
           .from('mac_addresses')
           .select('*')
@@ -98,14 +116,21 @@ const ExportPage = () => {
           return;
         }
         
+        const findIpBinding = await getIpBindingLookup(selectedSiteId);
+        await loadOuiRegistry();
+        
         const transformedData: ExportData[] = macAddresses.map(mac => ({
           macAddress: mac.mac_address,
-          segmentName: vlanMap.get(mac.vlan_id) || `VLAN ${mac.vlan_id}`,
-          lockToPort: "",
+          ipAddress: findIpBinding(mac.mac_address, mac.vlan_id)?.ip_address || "",
+          vendor: lookupVendor(mac.mac_address) || "",
+          randomized: isRandomizedMac(mac.mac_address),
+          transit: isTransitPortRole(mac.port_role),
+          segmentName: findSegment?.(mac.vlan_id) || vlanMap.get(mac.vlan_id) || `VLAN ${mac.vlan_id}`,
+          lockToPort: mac.port || "",
           site: "",
           building: "",
           floor: "",
-          allowOrDeny: "allow"
+          allowOrDeny: "allow" as const
         }));
         
         setExportData(transformedData);
@@ -224,10 +249,38 @@ const ExportPage = () => {
     }
   };
 
+  // Randomized MACs and MACs learned on trunks/uplinks are only exported when the user opts in
+  const csvData = exportData.filter(item =>
+    !(excludeRandomized && item.randomized) && !(excludeTransit && item.transit)
+  );
+
+  const randomizedCount = exportData.filter(item => item.randomized).length;
+  const transitCount = exportData.filter(item => item.transit).length;
+
+  const randomizedBySegment = Array.from(
+    exportData.reduce((segments, item) => {
+      const counts = segments.get(item.segmentName) || { total: 0, randomized: 0 };
+      counts.total++;
+      if (item.randomized) counts.randomized++;
+      return segments.set(item.segmentName, counts);
+    }, new Map<string, { total: number; randomized: number }>())
+  ).sort(([a], [b]) => a.localeCompare(b, undefined, { numeric: true }));
+
   const getCSVContent = () => {
+    // Segment names and port names are free text, so quote any field with a delimiter in it
+    const escape = (value: string) => /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
     let csvContent = "mac address,segment name,lock to port,site,building,floor,allow or deny\n";
-    exportData.forEach(item => {
-      csvContent += `${item.macAddress},${item.segmentName},${item.lockToPort},${item.site},${item.building},${item.floor},${item.allowOrDeny}\n`;
+    csvData.forEach(item => {
+      csvContent += [
+        item.macAddress,
+        item.segmentName,
+        item.lockToPort,
+        item.site,
+        item.building,
+        item.floor,
+        item.allowOrDeny
+      ].map(escape).join(",") + "\n";
     });
     return csvContent;
   };
@@ -279,12 +332,54 @@ const ExportPage = () => {
                   CSV Preview
                 </TabsTrigger>
               </TabsList>
+              {randomizedCount > 0 && (
+                <Alert className="mb-4">
+                  <AlertTriangleIcon className="h-4 w-4" />
+                  <AlertTitle>{randomizedCount} randomized MAC addresses</AlertTitle>
+                  <AlertDescription>
+                    <p>
+                      These devices use private (locally administered) MACs that change over time, so a MAC allow-list
+                      entry will stop matching. Plan 802.1X for them instead.
+                    </p>
+                    <div className="mt-2 flex items-center space-x-2">
+                      <Switch
+                        id="exclude-randomized"
+                        checked={excludeRandomized}
+                        onCheckedChange={setExcludeRandomized}
+                      />
+                      <Label htmlFor="exclude-randomized">Exclude randomized MACs from the CSV</Label>
+                    </div>
+                  </AlertDescription>
+                </Alert>
+              )}
+              {transitCount > 0 && (
+                <Alert className="mb-4">
+                  <AlertTriangleIcon className="h-4 w-4" />
+                  <AlertTitle>{transitCount} MAC addresses learned on trunk or uplink ports</AlertTitle>
+                  <AlertDescription>
+                    <p>
+                      These devices are connected behind another switch, so the port recorded here is not where they
+                      plug in. Discover that switch to lock them to their access port.
+                    </p>
+                    <div className="mt-2 flex items-center space-x-2">
+                      <Switch
+                        id="exclude-transit"
+                        checked={excludeTransit}
+                        onCheckedChange={setExcludeTransit}
+                      />
+                      <Label htmlFor="exclude-transit">Exclude trunk and uplink MACs from the CSV</Label>
+                    </div>
+                  </AlertDescription>
+                </Alert>
+              )}
               <TabsContent value="preview" className="space-y-4">
                 <div className="rounded-md border">
                   <Table>
                     <TableHeader>
                       <TableRow>
                         <TableHead>MAC Address</TableHead>
+                        <TableHead>Last Known IP</TableHead>
+                        <TableHead>Vendor</TableHead>
                         <TableHead>Segment Name</TableHead>
                         <TableHead>Lock to Port</TableHead>
                         <TableHead>Site</TableHead>
@@ -294,16 +389,23 @@ const ExportPage = () => {
                       </TableRow>
                     </TableHeader>
                     <TableBody>
-                      {exportData.length === 0 ? (
+                      {csvData.length === 0 ? (
                         <TableRow>
-                          <TableCell colSpan={7} className="text-center py-4 text-muted-foreground">
+                          <TableCell colSpan={9} className="text-center py-4 text-muted-foreground">
                             No MAC addresses found for export
                           </TableCell>
                         </TableRow>
                       ) : (
-                        exportData.map((item, index) => (
+                        csvData.map((item, index) => (
                           <TableRow key={index}>
-                            <TableCell className="font-mono">{item.macAddress}</TableCell>
+                            <TableCell>
+                              <div className="flex items-center gap-1.5">
+                                <span className="font-mono">{item.macAddress}</span>
+                                {item.randomized && <Badge variant="outline">Randomized</Badge>}
+                              </div>
+                            </TableCell>
+                            <TableCell className="font-mono">{item.ipAddress || "—"}</TableCell>
+                            <TableCell>{item.vendor || "—"}</TableCell>
                             <TableCell>{item.segmentName}</TableCell>
                             <TableCell>{item.lockToPort || "—"}</TableCell>
                             <TableCell>{item.site || "—"}</TableCell>
@@ -317,7 +419,7 @@ const ExportPage = () => {
                   </Table>
                 </div>
                 <div className="text-sm text-muted-foreground">
-                  <p>Total records: {exportData.length}</p>
+                  <p>Total records: {csvData.length}</p>
                 </div>
               </TabsContent>
               <TabsContent value="csv">
@@ -337,12 +439,12 @@ const ExportPage = () => {
                 <div className="grid gap-4 md:grid-cols-3">
                   <div className="rounded-md border p-4">
                     <div className="font-medium">MAC Addresses</div>
-                    <div className="mt-2 text-2xl font-bold">{exportData.length}</div>
+                    <div className="mt-2 text-2xl font-bold">{csvData.length}</div>
                   </div>
                   <div className="rounded-md border p-4">
                     <div className="font-medium">Segments</div>
                     <div className="mt-2 text-2xl font-bold">
-                      {new Set(exportData.map(item => item.segmentName)).size}
+                      {new Set(csvData.map(item => item.segmentName)).size}
                     </div>
                   </div>
                   <div className="rounded-md border p-4">
@@ -353,6 +455,33 @@ const ExportPage = () => {
                   </div>
                 </div>
               </div>
+              {randomizedCount > 0 && (
+                <div className="flex flex-col space-y-2">
+                  <h3 className="text-lg font-medium">Randomized MACs by Segment</h3>
+                  <div className="rounded-md border">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Segment</TableHead>
+                          <TableHead>MAC Addresses</TableHead>
+                          <TableHead>Randomized</TableHead>
+                          <TableHead>Share</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {randomizedBySegment.map(([segment, counts]) => (
+                          <TableRow key={segment}>
+                            <TableCell>{segment}</TableCell>
+                            <TableCell>{counts.total}</TableCell>
+                            <TableCell>{counts.randomized}</TableCell>
+                            <TableCell>{Math.round((counts.randomized / counts.total) * 100)}%</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                </div>
+              )}
             </div>
           )}
         </CardContent>
@@ -365,12 +494,12 @@ const ExportPage = () => {
           </Button>
           <div className="space-x-2">
             {!loading && !error && !exportComplete ? (
-              <Button onClick={handleExport} disabled={exportData.length === 0}>
+              <Button onClick={handleExport} disabled={csvData.length === 0}>
                 <ShareIcon className="h-4 w-4 mr-2" />
                 Export for Nile
               </Button>
             ) : !loading && !error && exportComplete ? (
-              <Button onClick={downloadCsv} disabled={exportData.length === 0}>
+              <Button onClick={downloadCsv} disabled={csvData.length === 0}>
                 <FileDown className="h-4 w-4 mr-2" />
                 Download CSV
               </Button>
@@ -379,6 +508,8 @@ const ExportPage = () => {
         </CardFooter>
       </Card>
 
+      {selectedSiteId && <NileSizingCard siteId={selectedSiteId} />}
+
       {!loading && !error && exportComplete && (
         <Card className="bg-green-50 border-green-200">
           <CardContent className="pt-6">
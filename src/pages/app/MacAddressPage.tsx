@@ -6,11 +6,19 @@ import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
 import { useToast } from "@/hooks/use-toast";
-import { TabletSmartphoneIcon, SearchIcon, WifiIcon, AlertTriangleIcon, FeatherIcon, RefreshCcwIcon } from "lucide-react";
+import { TabletSmartphoneIcon, SearchIcon, WifiIcon, AlertTriangleIcon, FeatherIcon, RefreshCcwIcon, SlidersHorizontalIcon } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/contexts/AuthContext";
-import { discoverMacAddresses } from "@/utils/network/snmpDiscovery";
+import { discoverSiteMacAddresses, mergeSwitchMacAddresses } from "@/utils/network/macAddressDiscovery";
+import { isTransitPortRole, getPortRoleLabel } from "@/utils/network/portRoles";
+import { getIpBindingLookup } from "@/utils/network/arpDiscovery";
+import { loadOuiRegistry, lookupVendor, isRandomizedMac } from "@/utils/network/ouiLookup";
+import { getEndpointClassifier, describeClassification, saveEndpointClassifications } from "@/utils/network/endpointClassification";
+import { ClassificationRulesDialog } from "@/components/macs/ClassificationRulesDialog";
 import { Alert, AlertTitle, AlertDescription } from "@/components/ui/alert";
 import { MacAddressIcon } from "@/components/MacAddressIcon";
 
@@ -20,7 +28,16 @@ interface MacAddress {
   vlanId: number;
   segmentName: string;
   deviceType: string;
+  confidence?: number; // 0-100, from the site's classification rules
+  classificationReason?: string;
   port?: string;
+  portDescription?: string;
+  portRole?: string;
+  deviceId?: string; // Switch the MAC was learned on
+  switchName?: string;
+  ipAddress?: string; // Last known IP from the site's ARP harvest
+  vendor?: string;
+  randomized: boolean; // Locally administered (private) MAC
   selected: boolean;
 }
 
@@ -28,10 +45,13 @@ const MacAddressPage = () => {
   const [macAddresses, setMacAddresses] = useState<MacAddress[]>([]);
   const [searchTerm, setSearchTerm] = useState("");
   const [segmentFilter, setSegmentFilter] = useState<string>("all");
+  const [vendorFilter, setVendorFilter] = useState<string>("all");
+  const [showTransit, setShowTransit] = useState(false);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [selectedSiteId, setSelectedSiteId] = useState<string | null>(null);
   const [dbVlans, setDbVlans] = useState<any[]>([]);
+  const [rulesDialogOpen, setRulesDialogOpen] = useState(false);
   const { toast } = useToast();
   const navigate = useNavigate();
   const location = useLocation();
@@ -94,6 +114,18 @@ const MacAddressPage = () => {
     }
   };
 
+  const classifyMacs = (classify: Awaited<ReturnType<typeof getEndpointClassifier>>, macs: MacAddress[]): MacAddress[] => {
+    return macs.map(mac => {
+      const classification = classify(mac);
+      return {
+        ...mac,
+        deviceType: classification.deviceType,
+        confidence: classification.confidence,
+        classificationReason: describeClassification(classification)
+      };
+    });
+  };
+
   const fetchMacAddresses = async () => {
     if (!user) {
       navigate('/login');
@@ -136,7 +168,7 @@ const MacAddressPage = () => {
 
       const { data: existingMacAddresses, error: macError } = await supabase
         .from('mac_addresses')
-        .select('*')
+        .select('*, device:devices(hostname, ip_address)')
         .eq('site_id', selectedSiteId);
         
       if (!macError && existingMacAddresses && existingMacAddresses.length > 0) {
@@ -150,15 +182,25 @@ const MacAddressPage = () => {
           vlanMap.set(vlan.vlan_id, vlan.name || `VLAN ${vlan.vlan_id}`);
         });
         
-        const transformedMacs = existingMacAddresses.map((mac, index) => ({
+        const findIpBinding = await getIpBindingLookup(selectedSiteId);
+        await loadOuiRegistry();
+        
+        const transformedMacs = classifyMacs(await getEndpointClassifier(selectedSiteId), existingMacAddresses.map((mac, index) => ({
           id: mac.id,
           macAddress: mac.mac_address,
           vlanId: mac.vlan_id,
           segmentName: vlanMap.get(mac.vlan_id) || `VLAN ${mac.vlan_id}`,
           deviceType: mac.device_type || 'Unknown',
-          port: undefined,
-          selected: true
-        }));
+          port: mac.port || undefined,
+          portDescription: mac.port_description || undefined,
+          portRole: mac.port_role || undefined,
+          deviceId: mac.device_id || undefined,
+          switchName: mac.device?.hostname || mac.device?.ip_address || undefined,
+          ipAddress: findIpBinding(mac.mac_address, mac.vlan_id)?.ip_address,
+          vendor: lookupVendor(mac.mac_address) || undefined,
+          randomized: isRandomizedMac(mac.mac_address),
+          selected: !isTransitPortRole(mac.port_role)
+        })));
         
         setMacAddresses(transformedMacs);
         setLoading(false);
@@ -220,8 +262,7 @@ const MacAddressPage = () => {
           .from('devices')
           .select('*')
           .eq('site_id', selectedSiteId)
-          .eq('category', 'Switch')
-          .limit(1);
+          .eq('category', 'Switch');
           
         if (devicesError) {
           console.error("Error fetching switch devices:", devicesError);
@@ -248,51 +289,63 @@ const MacAddressPage = () => {
           return;
         }
         
-        const switchIp = devices[0].ip_address;
-        const subnet = subnets[0];
-        const community = subnet.snmp_community || 'public';
-        const version = subnet.snmp_version || '2c';
-        
-        console.log(`Using switch ${switchIp} with community ${community} and version ${version} for site ${selectedSiteId}`);
+        console.log(`Discovering MAC addresses on ${devices.length} switches for site ${selectedSiteId}`);
         
         toast({
           title: "Discovering MAC Addresses",
-          description: `Using SNMP to discover MAC addresses on ${switchIp} for ${vlanIds.length} VLANs...`,
+          description: `Using SNMP to discover MAC addresses on ${devices.length} switches for ${vlanIds.length} VLANs...`,
         });
         
         try {
-          console.log(`Calling discoverMacAddresses with sorted VLANs: ${vlanIds.join(', ')}`);
-          const macAddressResults = await discoverMacAddresses(
-            switchIp,
-            community,
-            version,
+          console.log(`Calling discoverSiteMacAddresses with sorted VLANs: ${vlanIds.join(', ')}`);
+          const { results, failedSwitches } = await discoverSiteMacAddresses(
+            devices,
             vlanIds,
             (message: string, progress: number) => {
               console.log(`MAC discovery progress: ${message} (${progress}%)`);
             }
           );
+          const siteMacAddresses = mergeSwitchMacAddresses(results);
           
-          console.log(`Discovered ${macAddressResults.macAddresses.length} MAC addresses across ${macAddressResults.vlanIds.length} VLANs for site ${selectedSiteId}`);
+          console.log(`Discovered ${siteMacAddresses.length} unique MAC addresses on ${results.length} of ${devices.length} switches for site ${selectedSiteId}`);
+          
+          if (failedSwitches.length > 0) {
+            toast({
+              title: "Some Switches Not Polled",
+              description: `No MAC addresses were returned by ${failedSwitches.map(device => device.hostname || device.ip_address).join(", ")}.`,
+              variant: "destructive",
+            });
+          }
           
           const vlanMap = new Map();
           vlans.forEach(vlan => {
             vlanMap.set(vlan.vlan_id, vlan.name || `VLAN ${vlan.vlan_id}`);
           });
           
-          const transformedMacs = macAddressResults.macAddresses.map((mac, index) => ({
+          const findIpBinding = await getIpBindingLookup(selectedSiteId);
+          await loadOuiRegistry();
+          
+          const transformedMacs = classifyMacs(await getEndpointClassifier(selectedSiteId), siteMacAddresses.map((mac, index) => ({
             id: `mac-${index}`,
             macAddress: mac.macAddress,
             vlanId: mac.vlanId,
             segmentName: vlanMap.get(mac.vlanId) || `VLAN ${mac.vlanId}`,
             deviceType: mac.deviceType || 'Unknown',
             port: mac.port,
-            selected: true
-          }));
+            portDescription: mac.portDescription,
+            portRole: mac.portRole,
+            deviceId: mac.device.id,
+            switchName: mac.device.hostname || mac.device.ip_address,
+            ipAddress: findIpBinding(mac.macAddress, mac.vlanId)?.ip_address,
+            vendor: lookupVendor(mac.macAddress) || undefined,
+            randomized: isRandomizedMac(mac.macAddress),
+            selected: !isTransitPortRole(mac.portRole)
+          })));
           
           setMacAddresses(transformedMacs);
           
           if (transformedMacs.length === 0) {
-            setError("No MAC addresses found. The switch did not return any MAC address information.");
+            setError("No MAC addresses found. The switches did not return any MAC address information.");
             toast({
               title: "No MAC Addresses Found",
               description: "No MAC addresses were discovered on the network.",
@@ -310,13 +363,20 @@ const MacAddressPage = () => {
             let saveCount = 0;
             let errorCount = 0;
             
+            const subnetByDevice = new Map(devices.map(device => [device.id, device.subnet_id]));
+            
             for (const mac of transformedMacs) {
               const macAddressRecord = {
                 mac_address: mac.macAddress,
                 vlan_id: mac.vlanId,
                 device_type: mac.deviceType || 'Unknown',
+                device_type_confidence: mac.confidence ?? null,
+                port: mac.port || null,
+                port_description: mac.portDescription || null,
+                port_role: mac.portRole || null,
+                device_id: mac.deviceId || null,
                 site_id: selectedSiteId,
-                subnet_id: subnet.id,
+                subnet_id: subnetByDevice.get(mac.deviceId),
                 user_id: user.id
               };
               
@@ -386,6 +446,33 @@ const MacAddressPage = () => {
     }
   };
 
+  const reclassifyMacAddresses = async () => {
+    if (!selectedSiteId) return;
+    try {
+      const reclassified = classifyMacs(await getEndpointClassifier(selectedSiteId), macAddresses);
+      setMacAddresses(reclassified);
+      
+      const { changed, errorCount } = await saveEndpointClassifications(
+        selectedSiteId,
+        reclassified.map(mac => ({ ...mac, confidence: mac.confidence || 0 }))
+      );
+      toast({
+        title: errorCount > 0 ? "Some Classifications Not Saved" : "MAC Addresses Reclassified",
+        description: errorCount > 0
+          ? `${errorCount} of ${changed} updated classifications failed to save.`
+          : `${changed} MAC addresses changed type or confidence.`,
+        variant: errorCount > 0 ? "destructive" : "default",
+      });
+    } catch (error) {
+      console.error("Error reclassifying MAC addresses:", error);
+      toast({
+        title: "Reclassification Failed",
+        description: error instanceof Error ? error.message : "An unexpected error occurred",
+        variant: "destructive",
+      });
+    }
+  };
+
   useEffect(() => {
     if (selectedSiteId && user) {
       console.log(`MacAddressPage: Triggering MAC address fetch for site ${selectedSiteId}`);
@@ -395,13 +482,23 @@ const MacAddressPage = () => {
 
   const filteredMacAddresses = macAddresses.filter(mac => {
     const matchesSearch = mac.macAddress.toLowerCase().includes(searchTerm.toLowerCase()) || 
-                          mac.deviceType.toLowerCase().includes(searchTerm.toLowerCase());
+                          mac.deviceType.toLowerCase().includes(searchTerm.toLowerCase()) ||
+                          (mac.ipAddress || "").includes(searchTerm) ||
+                          (mac.vendor || "").toLowerCase().includes(searchTerm.toLowerCase());
     const matchesSegment = segmentFilter === "all" || mac.segmentName === segmentFilter;
-    return matchesSearch && matchesSegment;
+    const matchesVendor = vendorFilter === "all" || (mac.vendor || "Unknown") === vendorFilter;
+    const matchesPortRole = showTransit || !isTransitPortRole(mac.portRole);
+    return matchesSearch && matchesSegment && matchesVendor && matchesPortRole;
   });
 
+  const transitCount = macAddresses.filter(mac => isTransitPortRole(mac.portRole)).length;
+
+  const randomizedCount = macAddresses.filter(mac => mac.randomized && !isTransitPortRole(mac.portRole)).length;
+
   const segments = Array.from(new Set(macAddresses.map(mac => mac.segmentName)));
 
+  const vendors = Array.from(new Set(macAddresses.map(mac => mac.vendor || "Unknown"))).sort();
+
   const toggleMacSelection = (id: string) => {
     setMacAddresses(macAddresses.map(mac => 
       mac.id === id ? { ...mac, selected: !mac.selected } : mac
@@ -409,7 +506,10 @@ const MacAddressPage = () => {
   };
 
   const toggleAll = (selected: boolean) => {
-    setMacAddresses(macAddresses.map(mac => ({ ...mac, selected })));
+    // Hidden transit MACs are left alone so "Select All" never pulls in uplink traffic
+    setMacAddresses(macAddresses.map(mac => 
+      showTransit || !isTransitPortRole(mac.portRole) ? { ...mac, selected } : mac
+    ));
   };
 
   const handleNext = () => {
@@ -528,6 +628,42 @@ const MacAddressPage = () => {
                   />
                 </div>
                 <div className="flex flex-col sm:flex-row w-full sm:w-auto space-y-2 sm:space-y-0 sm:space-x-2">
+                  {transitCount > 0 && (
+                    <div className="flex items-center space-x-2">
+                      <Switch
+                        id="show-transit"
+                        checked={showTransit}
+                        onCheckedChange={setShowTransit}
+                      />
+                      <Label htmlFor="show-transit" className="text-sm whitespace-nowrap">
+                        Show {transitCount} uplink/trunk MACs
+                      </Label>
+                    </div>
+                  )}
+                  <Button
+                    variant="outline"
+                    onClick={() => setRulesDialogOpen(true)}
+                    disabled={loading || !selectedSiteId}
+                  >
+                    <SlidersHorizontalIcon className="h-4 w-4 mr-2" />
+                    Classification Rules
+                  </Button>
+                  <Select
+                    value={vendorFilter}
+                    onValueChange={(value) => setVendorFilter(value)}
+                  >
+                    <SelectTrigger className="w-full sm:w-[180px]">
+                      <SelectValue placeholder="Filter by vendor" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All Vendors</SelectItem>
+                      {vendors.map((vendor) => (
+                        <SelectItem key={vendor} value={vendor}>
+                          {vendor}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
                   <Select
                     value={segmentFilter}
                     onValueChange={(value) => setSegmentFilter(value)}
@@ -558,6 +694,8 @@ const MacAddressPage = () => {
                         />
                       </TableHead>
                       <TableHead>MAC Address</TableHead>
+                      <TableHead>IP Address</TableHead>
+                      <TableHead>Vendor</TableHead>
                       <TableHead>VLAN</TableHead>
                       <TableHead>Segment</TableHead>
                       <TableHead>Type</TableHead>
@@ -567,7 +705,7 @@ const MacAddressPage = () => {
                   <TableBody>
                     {loading ? (
                       <TableRow>
-                        <TableCell colSpan={6} className="text-center py-4 h-40">
+                        <TableCell colSpan={8} className="text-center py-4 h-40">
                           <div className="flex flex-col items-center justify-center space-y-2">
                             <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
                             <p className="text-muted-foreground">Discovering MAC addresses via SNMP...</p>
@@ -576,7 +714,7 @@ const MacAddressPage = () => {
                       </TableRow>
                     ) : filteredMacAddresses.length === 0 ? (
                       <TableRow>
-                        <TableCell colSpan={6} className="text-center py-4 text-muted-foreground">
+                        <TableCell colSpan={8} className="text-center py-4 text-muted-foreground">
                           No MAC addresses found matching filter criteria
                         </TableCell>
                       </TableRow>
@@ -589,16 +727,45 @@ const MacAddressPage = () => {
                               onCheckedChange={() => toggleMacSelection(mac.id)}
                             />
                           </TableCell>
-                          <TableCell className="font-mono">{mac.macAddress}</TableCell>
+                          <TableCell>
+                            <div className="flex items-center gap-1.5">
+                              <span className="font-mono">{mac.macAddress}</span>
+                              {mac.randomized && (
+                                <Badge variant="outline" title="Locally administered (randomized) MAC - it will change when the device rotates it">
+                                  Randomized
+                                </Badge>
+                              )}
+                            </div>
+                          </TableCell>
+                          <TableCell className="font-mono">{mac.ipAddress || "—"}</TableCell>
+                          <TableCell>{mac.vendor || "—"}</TableCell>
                           <TableCell>{mac.vlanId}</TableCell>
                           <TableCell>{mac.segmentName}</TableCell>
                           <TableCell>
-                            <div className="flex items-center gap-1.5">
+                            <div className="flex items-center gap-1.5" title={mac.classificationReason}>
                               <WifiIcon className="h-4 w-4 text-muted-foreground" />
                               {mac.deviceType}
+                              {mac.deviceType !== "Unknown" && mac.confidence !== undefined && (
+                                <Badge variant={mac.confidence >= 70 ? "secondary" : "outline"}>
+                                  {mac.confidence}%
+                                </Badge>
+                              )}
                             </div>
                           </TableCell>
-                          <TableCell>{mac.port || "—"}</TableCell>
+                          <TableCell>
+                            <div className="flex items-center gap-1.5">
+                              {mac.switchName && <span className="text-muted-foreground">{mac.switchName}</span>}
+                              <span className="font-mono">{mac.port || "—"}</span>
+                              {isTransitPortRole(mac.portRole) && (
+                                <Badge variant="outline" title="Learned on a trunk/uplink - likely connected to another switch">
+                                  {getPortRoleLabel(mac.portRole)}
+                                </Badge>
+                              )}
+                            </div>
+                            {mac.portDescription && (
+                              <div className="text-xs text-muted-foreground">{mac.portDescription}</div>
+                            )}
+                          </TableCell>
                         </TableRow>
                       ))
                     )}
@@ -610,6 +777,12 @@ const MacAddressPage = () => {
                 <div className="mt-4 flex items-center justify-between">
                   <div className="text-sm text-muted-foreground">
                     <p>Selected: {macAddresses.filter(mac => mac.selected).length} of {macAddresses.length}</p>
+                    {transitCount > 0 && !showTransit && (
+                      <p>{transitCount} MACs learned on uplink/trunk ports are hidden and excluded by default</p>
+                    )}
+                    {randomizedCount > 0 && (
+                      <p>{randomizedCount} MACs are randomized and will not match after migration - plan 802.1X for these devices</p>
+                    )}
                   </div>
                   <div className="flex items-center gap-2">
                     <Button variant="outline" size="sm" onClick={() => toggleAll(true)}>
@@ -639,6 +812,16 @@ const MacAddressPage = () => {
           </Button>
         </CardFooter>
       </Card>
+
+      {selectedSiteId && user && (
+        <ClassificationRulesDialog
+          open={rulesDialogOpen}
+          onOpenChange={setRulesDialogOpen}
+          siteId={selectedSiteId}
+          userId={user.id}
+          onSaved={reclassifyMacAddresses}
+        />
+      )}
     </div>
   );
 };
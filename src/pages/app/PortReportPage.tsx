@@ -0,0 +1,300 @@
+import { useState, useEffect } from "react";
+import { useNavigate, useLocation } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { useToast } from "@/components/ui/use-toast";
+import { AlertTriangleIcon, ArrowLeft, EthernetPort } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { DeviceData, DeviceInterfaceData, DeviceLinkData } from "@/types/network";
+import { formatInterfaceSpeed, getSiteInterfaces } from "@/utils/network/interfaceDiscovery";
+import { analyzePorts, summarizePorts, DEFAULT_UNUSED_DAYS, PortAnalysis } from "@/utils/network/portUtilization";
+
+const PortReportPage = () => {
+  const [switches, setSwitches] = useState<DeviceData[]>([]);
+  const [interfaces, setInterfaces] = useState<DeviceInterfaceData[]>([]);
+  const [links, setLinks] = useState<DeviceLinkData[]>([]);
+  const [unusedDays, setUnusedDays] = useState(DEFAULT_UNUSED_DAYS);
+  const [siteName, setSiteName] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { user } = useAuth();
+
+  useEffect(() => {
+    const loadReport = async () => {
+      if (!user) return;
+
+      const params = new URLSearchParams(location.search);
+      const siteId = params.get('site') || sessionStorage.getItem('selectedSiteId');
+      if (!siteId) {
+        setError("No site selected. Please select a site from the sidebar first.");
+        setLoading(false);
+        return;
+      }
+      sessionStorage.setItem('selectedSiteId', siteId);
+
+      try {
+        setLoading(true);
+
+        const { data: site } = await supabase
+          .from('sites')
+          .select('name')
+          .eq('id', siteId)
+          .single();
+        setSiteName(site?.name || "");
+
+        const { data: deviceData, error: deviceError } = await supabase
+          .from('devices')
+          .select('*')
+          .eq('site_id', siteId)
+          .eq('category', 'Switch');
+
+        if (deviceError) {
+          throw new Error(`Error fetching switches: ${deviceError.message}`);
+        }
+
+        const interfaceData = await getSiteInterfaces(siteId);
+
+        const { data: linkData, error: linkError } = await supabase
+          .from('device_links')
+          .select('*')
+          .eq('site_id', siteId);
+
+        if (linkError) {
+          console.error("Error fetching device links:", linkError);
+        }
+
+        setSwitches(deviceData || []);
+        setInterfaces(interfaceData);
+        setLinks(linkData || []);
+        setError(null);
+      } catch (loadError) {
+        console.error("Error loading port report:", loadError);
+        setError(loadError instanceof Error ? loadError.message : "An unexpected error occurred");
+        toast({
+          title: "Error",
+          description: loadError instanceof Error ? loadError.message : "Failed to load the port report",
+          variant: "destructive",
+        });
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadReport();
+  }, [location.search, user, toast]);
+
+  const now = Date.now();
+  const switchReports = switches
+    .map(device => {
+      const ports = analyzePorts(
+        interfaces.filter(iface => iface.device_id === device.id),
+        links.filter(link => link.device_id === device.id),
+        unusedDays,
+        now
+      );
+      return { device, ports, summary: summarizePorts(ports) };
+    })
+    .filter(report => report.ports.length > 0)
+    .sort((a, b) => (a.device.hostname || a.device.ip_address).localeCompare(b.device.hostname || b.device.ip_address));
+
+  const allPorts = switchReports.flatMap(report => report.ports);
+  const siteSummary = summarizePorts(allPorts);
+  const unusedShare = siteSummary.totalPorts > 0 ? Math.round((siteSummary.unusedPorts / siteSummary.totalPorts) * 100) : 0;
+
+  const unusedPorts: { device: DeviceData; port: PortAnalysis }[] = switchReports
+    .flatMap(report => report.ports.filter(port => port.usage === "unused").map(port => ({ device: report.device, port })));
+
+  return (
+    <div className="container mx-auto max-w-6xl space-y-8">
+      <div className="flex flex-col space-y-2">
+        <h1 className="text-2xl font-bold tracking-tight">Port Utilization{siteName && `: ${siteName}`}</h1>
+        <p className="text-muted-foreground">
+          Find dead ports and size the Nile access layer from the ports that are actually in use.
+        </p>
+      </div>
+
+      {error ? (
+        <Alert variant="destructive">
+          <AlertTriangleIcon className="h-4 w-4" />
+          <AlertTitle>Error</AlertTitle>
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      ) : (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <EthernetPort className="h-5 w-5" />
+              Site Summary
+            </CardTitle>
+            <CardDescription>
+              A port is unused when it is disabled or has been down for at least the number of days below.
+              Ports down since the switch booted count from its boot time.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="flex items-center gap-2">
+              <Label htmlFor="unused-days" className="whitespace-nowrap">Unused after</Label>
+              <Input
+                id="unused-days"
+                type="number"
+                min={1}
+                className="w-24"
+                value={unusedDays}
+                onChange={(e) => setUnusedDays(Math.max(1, parseInt(e.target.value, 10) || 1))}
+              />
+              <span className="text-sm text-muted-foreground">days down</span>
+            </div>
+
+            {loading ? (
+              <div className="flex justify-center py-8">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+              </div>
+            ) : switchReports.length === 0 ? (
+              <div className="text-sm text-muted-foreground">
+                No interface data found for this site's switches. Interfaces are collected during network discovery.
+              </div>
+            ) : (
+              <>
+                <div className="grid gap-4 md:grid-cols-4">
+                  <div className="rounded-md border p-4">
+                    <div className="font-medium">Physical Ports</div>
+                    <div className="mt-2 text-2xl font-bold">{siteSummary.totalPorts}</div>
+                  </div>
+                  <div className="rounded-md border p-4">
+                    <div className="font-medium">Active</div>
+                    <div className="mt-2 text-2xl font-bold">{siteSummary.activePorts}</div>
+                  </div>
+                  <div className="rounded-md border p-4">
+                    <div className="font-medium">Unused</div>
+                    <div className="mt-2 text-2xl font-bold">
+                      {siteSummary.unusedPorts} <span className="text-base font-normal text-muted-foreground">({unusedShare}%)</span>
+                    </div>
+                  </div>
+                  <div className="rounded-md border p-4">
+                    <div className="font-medium">Suggested Nile Access Ports</div>
+                    <div className="mt-2 text-2xl font-bold text-green-600">{siteSummary.suggestedAccessPorts}</div>
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <div className="text-sm font-medium">Active access ports by speed</div>
+                  <div className="flex flex-wrap gap-1">
+                    {siteSummary.activeBySpeed.map(([speed, count]) => (
+                      <Badge key={speed} variant="secondary">{count} x {formatInterfaceSpeed(speed)}</Badge>
+                    ))}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Suggested ports exclude {siteSummary.uplinkPorts} uplinks to other switches and routers and
+                    include {siteSummary.unknownPorts} down ports with no usable last-change time.
+                  </p>
+                </div>
+
+                <div className="rounded-md border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Switch</TableHead>
+                        <TableHead>Ports</TableHead>
+                        <TableHead>Active</TableHead>
+                        <TableHead>Unused</TableHead>
+                        <TableHead>Uplinks</TableHead>
+                        <TableHead>Active by Speed</TableHead>
+                        <TableHead>Suggested</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {switchReports.map(({ device, summary }) => (
+                        <TableRow key={device.id}>
+                          <TableCell>
+                            <div>{device.hostname || device.ip_address}</div>
+                            <div className="text-xs text-muted-foreground">{device.model || device.ip_address}</div>
+                          </TableCell>
+                          <TableCell>{summary.totalPorts}</TableCell>
+                          <TableCell>{summary.activePorts}</TableCell>
+                          <TableCell>
+                            {summary.unusedPorts}
+                            {summary.totalPorts > 0 && (
+                              <span className="text-xs text-muted-foreground"> ({Math.round((summary.unusedPorts / summary.totalPorts) * 100)}%)</span>
+                            )}
+                          </TableCell>
+                          <TableCell>{summary.uplinkPorts}</TableCell>
+                          <TableCell>
+                            <div className="flex flex-wrap gap-1">
+                              {summary.activeBySpeed.map(([speed, count]) => (
+                                <Badge key={speed} variant="outline" className="text-xs">{count} x {formatInterfaceSpeed(speed)}</Badge>
+                              ))}
+                            </div>
+                          </TableCell>
+                          <TableCell className="font-medium">{summary.suggestedAccessPorts}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+
+                <div className="space-y-2">
+                  <h3 className="text-lg font-medium">Unused Ports ({unusedPorts.length})</h3>
+                  <div className="rounded-md border max-h-[480px] overflow-y-auto">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Switch</TableHead>
+                          <TableHead>Port</TableHead>
+                          <TableHead>Description</TableHead>
+                          <TableHead>Speed</TableHead>
+                          <TableHead>Status</TableHead>
+                          <TableHead>Down For</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {unusedPorts.length === 0 ? (
+                          <TableRow>
+                            <TableCell colSpan={6} className="text-center py-4 text-muted-foreground">
+                              No ports have been down for {unusedDays} days or more
+                            </TableCell>
+                          </TableRow>
+                        ) : (
+                          unusedPorts.map(({ device, port }) => (
+                            <TableRow key={port.iface.id}>
+                              <TableCell>{device.hostname || device.ip_address}</TableCell>
+                              <TableCell className="font-mono">{port.iface.name}</TableCell>
+                              <TableCell>{port.iface.alias || "—"}</TableCell>
+                              <TableCell>{formatInterfaceSpeed(port.iface.speed_mbps)}</TableCell>
+                              <TableCell>
+                                <Badge variant="outline">
+                                  {port.iface.admin_status === "down" ? "disabled" : port.iface.oper_status || "down"}
+                                </Badge>
+                              </TableCell>
+                              <TableCell>{port.downDays !== null ? `${port.downDays} days` : "—"}</TableCell>
+                            </TableRow>
+                          ))
+                        )}
+                      </TableBody>
+                    </Table>
+                  </div>
+                </div>
+              </>
+            )}
+          </CardContent>
+          <CardFooter className="border-t px-6 py-4">
+            <Button variant="outline" onClick={() => navigate("/")}>
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back to Sites
+            </Button>
+          </CardFooter>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default PortReportPage;
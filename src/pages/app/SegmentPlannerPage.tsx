@@ -0,0 +1,399 @@
+import { useState, useEffect } from "react";
+import { useNavigate, useLocation } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { useToast } from "@/components/ui/use-toast";
+import { AlertTriangleIcon, Combine, GripVertical, PlusIcon, Trash2Icon } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { DeviceData, PortVlanData } from "@/types/network";
+import { getSiteVlanPresence } from "@/utils/network/vlanDiscovery";
+import { getMacCountsByVlan } from "@/utils/network/vlanConsistency";
+import { getSitePortVlans, isPhonePort } from "@/utils/network/portVlanDiscovery";
+import {
+  findOverlappingSubnets,
+  getDefaultSegmentPlan,
+  getSegmentPlan,
+  isValidSegmentName,
+  saveSegmentPlan
+} from "@/utils/network/segmentPlanning";
+
+interface PlannerVlan {
+  vlanId: number;
+  name: string;
+  subnet?: string;
+  macCount: number | null; // null until MACs have been discovered for the site
+}
+
+interface PlannedSegment {
+  key: string;
+  name: string;
+  vlanIds: number[];
+}
+
+const UNASSIGNED = "unassigned";
+
+const SegmentPlannerPage = () => {
+  const [siteId, setSiteId] = useState<string | null>(null);
+  const [vlans, setVlans] = useState<PlannerVlan[]>([]);
+  const [segments, setSegments] = useState<PlannedSegment[]>([]);
+  const [phonePorts, setPhonePorts] = useState<PortVlanData[]>([]);
+  const [isSaved, setIsSaved] = useState(false);
+  const [newSegmentName, setNewSegmentName] = useState("");
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [macCountError, setMacCountError] = useState<string | null>(null);
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { user } = useAuth();
+
+  useEffect(() => {
+    const loadPlan = async () => {
+      if (!user) return;
+
+      const params = new URLSearchParams(location.search);
+      const selectedSiteId = params.get('site') || sessionStorage.getItem('selectedSiteId');
+      if (!selectedSiteId) {
+        setError("No site selected. Please select a site from the sidebar first.");
+        setLoading(false);
+        return;
+      }
+      sessionStorage.setItem('selectedSiteId', selectedSiteId);
+      setSiteId(selectedSiteId);
+
+      try {
+        setLoading(true);
+
+        const { data: vlanData, error: vlanError } = await supabase
+          .from('vlans')
+          .select('*')
+          .eq('site_id', selectedSiteId)
+          .order('vlan_id', { ascending: true });
+
+        if (vlanError) {
+          throw new Error(`Error fetching VLANs: ${vlanError.message}`);
+        }
+
+        if (!vlanData || vlanData.length === 0) {
+          setError("No VLANs found. Please discover and save the site's VLANs first.");
+          return;
+        }
+
+        const { data: deviceData, error: deviceError } = await supabase
+          .from('devices')
+          .select('*')
+          .eq('site_id', selectedSiteId);
+
+        if (deviceError) {
+          throw new Error(`Error fetching devices: ${deviceError.message}`);
+        }
+
+        const portVlanData = await getSitePortVlans(selectedSiteId).catch(() => [] as PortVlanData[]);
+
+        const presence = await getSiteVlanPresence(selectedSiteId, (deviceData || []) as DeviceData[]);
+        // The plan can still be edited without MAC counts, so a failed count is shown instead of failing the page
+        const macCounts = await getMacCountsByVlan(selectedSiteId, vlanData.map(vlan => vlan.vlan_id))
+          .then(counts => {
+            setMacCountError(null);
+            return counts;
+          })
+          .catch(countError => {
+            setMacCountError(countError instanceof Error ? countError.message : String(countError));
+            return null;
+          });
+
+        setVlans(vlanData.map(vlan => ({
+          vlanId: vlan.vlan_id,
+          name: vlan.name,
+          subnet: presence.find(item => item.vlanId === vlan.vlan_id)?.subnet,
+          macCount: macCounts ? macCounts.get(vlan.vlan_id) || 0 : null
+        })));
+        setPhonePorts(portVlanData.filter(isPhonePort));
+
+        const savedPlan = await getSegmentPlan(selectedSiteId);
+        const knownVlanIds = new Set(vlanData.map(vlan => vlan.vlan_id));
+        const plan = savedPlan.length > 0 ? savedPlan : getDefaultSegmentPlan(vlanData);
+        setSegments(plan.map((segment, index) => ({
+          key: `segment-${index}`,
+          name: segment.name,
+          // VLANs removed from the site since the plan was saved drop out of it
+          vlanIds: segment.vlan_ids.filter(vlanId => knownVlanIds.has(vlanId))
+        })));
+        setIsSaved(savedPlan.length > 0);
+        setError(null);
+      } catch (loadError) {
+        console.error("Error loading segment plan:", loadError);
+        setError(loadError instanceof Error ? loadError.message : "An unexpected error occurred");
+        toast({
+          title: "Error",
+          description: loadError instanceof Error ? loadError.message : "Failed to load the segment plan",
+          variant: "destructive",
+        });
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadPlan();
+  }, [location.search, user, toast]);
+
+  const assignedVlanIds = new Set(segments.flatMap(segment => segment.vlanIds));
+  const unassigned = vlans.filter(vlan => !assignedVlanIds.has(vlan.vlanId));
+  const getVlan = (vlanId: number) => vlans.find(vlan => vlan.vlanId === vlanId);
+
+  const moveVlan = (vlanId: number, target: string) => {
+    setSegments(segments.map(segment => {
+      const vlanIds = segment.vlanIds.filter(id => id !== vlanId);
+      return { ...segment, vlanIds: segment.key === target ? [...vlanIds, vlanId].sort((a, b) => a - b) : vlanIds };
+    }));
+    setIsSaved(false);
+  };
+
+  const handleDrop = (event: React.DragEvent, target: string) => {
+    event.preventDefault();
+    setDropTarget(null);
+    const vlanId = parseInt(event.dataTransfer.getData("text/plain"), 10);
+    if (!isNaN(vlanId)) {
+      moveVlan(vlanId, target);
+    }
+  };
+
+  const dropHandlers = (target: string) => ({
+    onDragOver: (event: React.DragEvent) => {
+      event.preventDefault();
+      setDropTarget(target);
+    },
+    onDragLeave: () => setDropTarget(null),
+    onDrop: (event: React.DragEvent) => handleDrop(event, target)
+  });
+
+  const handleAddSegment = () => {
+    const name = newSegmentName.trim();
+    if (!isValidSegmentName(name)) return;
+    setSegments([...segments, { key: `segment-${Date.now()}`, name, vlanIds: [] }]);
+    setNewSegmentName("");
+    setIsSaved(false);
+  };
+
+  const getSegmentWarnings = (segment: PlannedSegment): string[] => {
+    const warnings = findOverlappingSubnets(
+      segment.vlanIds
+        .map(vlanId => ({ vlanId, subnet: getVlan(vlanId)?.subnet || "" }))
+        .filter(item => item.subnet)
+    ).map(overlap => `VLAN ${overlap.vlanIds[0]} (${overlap.a}) overlaps VLAN ${overlap.vlanIds[1]} (${overlap.b})`);
+
+    // A phone and the PC behind it share a port, so their voice and data VLANs need separate segments
+    const mergedPhonePorts = phonePorts.filter(port =>
+      segment.vlanIds.includes(port.voice_vlan as number) && segment.vlanIds.includes(port.access_vlan as number)
+    );
+    if (mergedPhonePorts.length > 0) {
+      const pairs = Array.from(new Set(mergedPhonePorts.map(port => `voice VLAN ${port.voice_vlan} with data VLAN ${port.access_vlan}`)));
+      warnings.push(`Merges ${pairs.join(", ")} used together on ${mergedPhonePorts.length} phone ports`);
+    }
+    return warnings;
+  };
+
+  const segmentNames = segments.map(segment => segment.name.trim().toLowerCase());
+  const invalidCount = segments.filter((segment, index) =>
+    !isValidSegmentName(segment.name) || segmentNames.indexOf(segment.name.trim().toLowerCase()) !== index
+  ).length;
+
+  const handleSave = async () => {
+    if (!user || !siteId) return;
+
+    setSaving(true);
+    try {
+      await saveSegmentPlan(siteId, user.id, segments.map(segment => ({ name: segment.name, vlan_ids: segment.vlanIds })));
+      setIsSaved(true);
+      toast({
+        title: "Segment plan saved",
+        description: `${segments.length} segments saved. The export now uses this plan.`,
+      });
+    } catch (saveError) {
+      toast({
+        title: "Save failed",
+        description: saveError instanceof Error ? saveError.message : "Failed to save the segment plan.",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderVlan = (vlan: PlannerVlan) => (
+    <div
+      key={vlan.vlanId}
+      draggable
+      onDragStart={(event) => event.dataTransfer.setData("text/plain", vlan.vlanId.toString())}
+      className="flex items-center gap-2 rounded-md border bg-background px-2 py-1.5 text-sm cursor-grab active:cursor-grabbing"
+    >
+      <GripVertical className="h-4 w-4 text-muted-foreground" />
+      <span className="font-medium">{vlan.vlanId}</span>
+      <span className="truncate">{vlan.name}</span>
+      <span className="ml-auto flex items-center gap-1">
+        {vlan.subnet && <span className="font-mono text-xs text-muted-foreground">{vlan.subnet}</span>}
+        {vlan.macCount !== null && <Badge variant="secondary">{vlan.macCount} MACs</Badge>}
+      </span>
+    </div>
+  );
+
+  return (
+    <div className="container mx-auto max-w-6xl space-y-8">
+      <div className="flex flex-col space-y-2">
+        <h1 className="text-2xl font-bold tracking-tight">Segment Planner</h1>
+        <p className="text-muted-foreground">
+          Consolidate VLANs into Nile segments. Drag each VLAN onto the segment it should become part of.
+        </p>
+      </div>
+
+      {error ? (
+        <Alert variant="destructive">
+          <AlertTriangleIcon className="h-4 w-4" />
+          <AlertTitle>Error</AlertTitle>
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      ) : (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Combine className="h-5 w-5" />
+              Nile Segments
+              {!loading && !isSaved && <Badge variant="outline">Not saved</Badge>}
+            </CardTitle>
+            <CardDescription>
+              Each segment lists the MACs and subnets it takes over from its VLANs. Segments start out from the
+              segment names given on the VLANs page until a plan is saved.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <div className="flex justify-center py-8">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+              </div>
+            ) : (
+              <div className="grid gap-6 md:grid-cols-3">
+                <div
+                  {...dropHandlers(UNASSIGNED)}
+                  className={`rounded-md border border-dashed p-4 space-y-2 ${dropTarget === UNASSIGNED ? "border-primary bg-muted" : ""}`}
+                >
+                  <div className="font-medium">Unassigned VLANs</div>
+                  <p className="text-xs text-muted-foreground">MACs in these VLANs keep their VLAN name in the export.</p>
+                  {unassigned.length === 0 ? (
+                    <div className="text-sm text-muted-foreground py-2">Every VLAN is in a segment</div>
+                  ) : (
+                    unassigned.map(renderVlan)
+                  )}
+                </div>
+
+                <div className="md:col-span-2 space-y-4">
+                  {segments.map(segment => {
+                    const segmentVlans = segment.vlanIds.map(getVlan).filter((vlan): vlan is PlannerVlan => !!vlan);
+                    const macCount = segmentVlans.some(vlan => vlan.macCount !== null)
+                      ? segmentVlans.reduce((total, vlan) => total + (vlan.macCount || 0), 0)
+                      : null;
+                    const subnets = segmentVlans.map(vlan => vlan.subnet).filter((subnet): subnet is string => !!subnet);
+                    const warnings = getSegmentWarnings(segment);
+                    const isDuplicate = segmentNames.filter(name => name === segment.name.trim().toLowerCase()).length > 1;
+
+                    return (
+                      <div
+                        key={segment.key}
+                        {...dropHandlers(segment.key)}
+                        className={`rounded-md border p-4 space-y-3 ${dropTarget === segment.key ? "border-primary bg-muted" : ""}`}
+                      >
+                        <div className="flex items-center gap-2">
+                          <Input
+                            className={`h-8 font-medium ${!isValidSegmentName(segment.name) || isDuplicate ? "border-destructive" : ""}`}
+                            title={isValidSegmentName(segment.name) ? undefined : "Segment names cannot be empty or contain commas or quotes"}
+                            value={segment.name}
+                            onChange={(e) => {
+                              setSegments(segments.map(item => item.key === segment.key ? { ...item, name: e.target.value } : item));
+                              setIsSaved(false);
+                            }}
+                          />
+                          <Badge variant="secondary" className="whitespace-nowrap" title={macCountError || undefined}>
+                            {macCount !== null ? `${macCount} MACs` : macCountError ? "MAC count unavailable" : "MACs not discovered"}
+                          </Badge>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title="Remove segment - its VLANs become unassigned"
+                            onClick={() => {
+                              setSegments(segments.filter(item => item.key !== segment.key));
+                              setIsSaved(false);
+                            }}
+                          >
+                            <Trash2Icon className="h-4 w-4" />
+                          </Button>
+                        </div>
+
+                        {subnets.length > 0 && (
+                          <div className="flex flex-wrap gap-1">
+                            {subnets.map(subnet => (
+                              <Badge key={subnet} variant="outline" className="font-mono">{subnet}</Badge>
+                            ))}
+                          </div>
+                        )}
+
+                        {warnings.map(warning => (
+                          <div key={warning} className="flex items-start gap-2 text-sm text-amber-700">
+                            <AlertTriangleIcon className="h-4 w-4 text-amber-500 mt-0.5 shrink-0" />
+                            {warning}
+                          </div>
+                        ))}
+
+                        <div className="space-y-2">
+                          {segmentVlans.length === 0 ? (
+                            <div className="text-sm text-muted-foreground py-2">Drop VLANs here</div>
+                          ) : (
+                            segmentVlans.map(renderVlan)
+                          )}
+                        </div>
+                      </div>
+                    );
+                  })}
+
+                  <div className="flex gap-2">
+                    <Input
+                      placeholder="New segment name"
+                      value={newSegmentName}
+                      onChange={(e) => setNewSegmentName(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === "Enter") handleAddSegment();
+                      }}
+                    />
+                    <Button variant="outline" onClick={handleAddSegment} disabled={!isValidSegmentName(newSegmentName)}>
+                      <PlusIcon className="h-4 w-4 mr-2" />
+                      Add Segment
+                    </Button>
+                  </div>
+                </div>
+              </div>
+            )}
+          </CardContent>
+          <CardFooter className="flex justify-between border-t px-6 py-4">
+            <Button variant="outline" onClick={() => navigate(`/vlans?site=${siteId}`)}>
+              Back to VLANs
+            </Button>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={handleSave} disabled={loading || saving || invalidCount > 0}>
+                {saving ? "Saving..." : invalidCount > 0 ? `${invalidCount} invalid segment names` : "Save Plan"}
+              </Button>
+              <Button onClick={() => navigate(`/export?site=${siteId}`)} disabled={loading || !isSaved}>
+                Continue to Export
+              </Button>
+            </div>
+          </CardFooter>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default SegmentPlannerPage;
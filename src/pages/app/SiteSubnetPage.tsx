@@ -26,7 +26,29 @@ const subnetFormSchema = z.object({
   password: z.string().optional(),
   community: z.string().optional(),
   snmpVersion: z.enum(["1", "2c", "3"]).optional(),
+  snmpSecurityName: z.string().optional(),
+  snmpSecurityLevel: z.enum(["noAuthNoPriv", "authNoPriv", "authPriv"]).optional(),
+  snmpAuthProtocol: z.enum(["md5", "sha", "sha224", "sha256", "sha384", "sha512"]).optional(),
+  snmpAuthPassword: z.string().optional(),
+  snmpPrivProtocol: z.enum(["des", "aes", "aes256b", "aes256r"]).optional(),
+  snmpPrivPassword: z.string().optional(),
+  snmpContext: z.string().optional(),
   accessMethod: z.enum(["telnet", "ssh", "snmp"]),
+}).superRefine((values, ctx) => {
+  if (values.accessMethod !== "snmp" || values.snmpVersion !== "3") return;
+  
+  if (!values.snmpSecurityName) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["snmpSecurityName"], message: "Security name is required for SNMPv3." });
+  }
+  
+  // USM keys must be at least 8 characters (RFC 3414)
+  const level = values.snmpSecurityLevel || "authPriv";
+  if (level !== "noAuthNoPriv" && (!values.snmpAuthPassword || values.snmpAuthPassword.length < 8)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["snmpAuthPassword"], message: "Authentication password must be at least 8 characters." });
+  }
+  if (level === "authPriv" && (!values.snmpPrivPassword || values.snmpPrivPassword.length < 8)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["snmpPrivPassword"], message: "Privacy password must be at least 8 characters." });
+  }
 });
 
 type SubnetFormValues = z.infer<typeof subnetFormSchema>;
@@ -40,9 +62,26 @@ interface Subnet {
   password?: string;
   community?: string;
   snmpVersion?: "1" | "2c" | "3";
+  snmpSecurityName?: string;
+  snmpSecurityLevel?: SubnetFormValues["snmpSecurityLevel"];
+  snmpAuthProtocol?: SubnetFormValues["snmpAuthProtocol"];
+  snmpAuthPassword?: string;
+  snmpPrivProtocol?: SubnetFormValues["snmpPrivProtocol"];
+  snmpPrivPassword?: string;
+  snmpContext?: string;
   accessMethod: "telnet" | "ssh" | "snmp";
 }
 
+const snmpV3FormDefaults = {
+  snmpSecurityName: "",
+  snmpSecurityLevel: "authPriv" as const,
+  snmpAuthProtocol: "sha" as const,
+  snmpAuthPassword: "",
+  snmpPrivProtocol: "aes" as const,
+  snmpPrivPassword: "",
+  snmpContext: "",
+};
+
 const isSubnetWithin = (subnet1: string, prefix1: string, subnet2: string, prefix2: string): boolean => {
   const ip1Parts = subnet1.split('.').map(Number);
   const ip2Parts = subnet2.split('.').map(Number);
@@ -82,11 +121,14 @@ const SiteSubnetPage = () => {
       password: "",
       community: "public",
       snmpVersion: "2c",
+      ...snmpV3FormDefaults,
       accessMethod: "snmp",
     },
   });
 
   const accessMethod = subnetForm.watch("accessMethod");
+  const snmpVersion = subnetForm.watch("snmpVersion");
+  const snmpSecurityLevel = subnetForm.watch("snmpSecurityLevel");
 
   useEffect(() => {
     const loadSiteData = async () => {
@@ -179,6 +221,13 @@ const SiteSubnetPage = () => {
         password: subnet.password || '',
         community: subnet.snmp_community || 'public',
         snmpVersion: subnet.snmp_version as "1" | "2c" | "3" || '2c',
+        snmpSecurityName: subnet.snmp_v3_security_name || '',
+        snmpSecurityLevel: subnet.snmp_v3_security_level as Subnet["snmpSecurityLevel"] || 'authPriv',
+        snmpAuthProtocol: subnet.snmp_v3_auth_protocol as Subnet["snmpAuthProtocol"] || 'sha',
+        snmpAuthPassword: subnet.snmp_v3_auth_password || '',
+        snmpPrivProtocol: subnet.snmp_v3_priv_protocol as Subnet["snmpPrivProtocol"] || 'aes',
+        snmpPrivPassword: subnet.snmp_v3_priv_password || '',
+        snmpContext: subnet.snmp_v3_context || '',
         accessMethod: subnet.access_method as "ssh" | "telnet" | "snmp" || 'snmp'
       }));
       
@@ -200,6 +249,13 @@ const SiteSubnetPage = () => {
       password: subnet.password || "",
       community: subnet.community || "public",
       snmpVersion: subnet.snmpVersion || "2c",
+      snmpSecurityName: subnet.snmpSecurityName || "",
+      snmpSecurityLevel: subnet.snmpSecurityLevel || "authPriv",
+      snmpAuthProtocol: subnet.snmpAuthProtocol || "sha",
+      snmpAuthPassword: subnet.snmpAuthPassword || "",
+      snmpPrivProtocol: subnet.snmpPrivProtocol || "aes",
+      snmpPrivPassword: subnet.snmpPrivPassword || "",
+      snmpContext: subnet.snmpContext || "",
       accessMethod: subnet.accessMethod,
     });
   };
@@ -214,6 +270,7 @@ const SiteSubnetPage = () => {
       password: "",
       community: "public",
       snmpVersion: "2c",
+      ...snmpV3FormDefaults,
       accessMethod: "snmp",
     });
   };
@@ -264,8 +321,11 @@ const SiteSubnetPage = () => {
       
       const additionalData: Record<string, any> = {};
       
+      const isSnmpV3 = values.accessMethod === "snmp" && values.snmpVersion === "3";
+      const securityLevel = values.snmpSecurityLevel || "authPriv";
+      
       if (values.accessMethod === "snmp") {
-        additionalData.snmp_community = values.community;
+        additionalData.snmp_community = isSnmpV3 ? null : values.community;
         additionalData.snmp_version = values.snmpVersion;
         additionalData.username = null;
         additionalData.password = null;
@@ -275,6 +335,27 @@ const SiteSubnetPage = () => {
         additionalData.snmp_community = null;
         additionalData.snmp_version = null;
       }
+      
+      // SNMPv3 USM credentials are only kept when the subnet actually uses v3
+      additionalData.snmp_v3_security_name = isSnmpV3 ? values.snmpSecurityName : null;
+      additionalData.snmp_v3_security_level = isSnmpV3 ? securityLevel : null;
+      additionalData.snmp_v3_auth_protocol = isSnmpV3 && securityLevel !== "noAuthNoPriv" ? values.snmpAuthProtocol : null;
+      additionalData.snmp_v3_auth_password = isSnmpV3 && securityLevel !== "noAuthNoPriv" ? values.snmpAuthPassword : null;
+      additionalData.snmp_v3_priv_protocol = isSnmpV3 && securityLevel === "authPriv" ? values.snmpPrivProtocol : null;
+      additionalData.snmp_v3_priv_password = isSnmpV3 && securityLevel === "authPriv" ? values.snmpPrivPassword : null;
+      additionalData.snmp_v3_context = isSnmpV3 ? values.snmpContext || null : null;
+      
+      const snmpSubnetFields = {
+        community: values.community,
+        snmpVersion: values.snmpVersion,
+        snmpSecurityName: values.snmpSecurityName,
+        snmpSecurityLevel: values.snmpSecurityLevel,
+        snmpAuthProtocol: values.snmpAuthProtocol,
+        snmpAuthPassword: values.snmpAuthPassword,
+        snmpPrivProtocol: values.snmpPrivProtocol,
+        snmpPrivPassword: values.snmpPrivPassword,
+        snmpContext: values.snmpContext,
+      };
 
       if (editingSubnet) {
         const { data, error } = await supabase
@@ -301,7 +382,7 @@ const SiteSubnetPage = () => {
                 prefix: values.prefix,
                 accessMethod: values.accessMethod,
                 ...(values.accessMethod === "snmp" 
-                  ? { community: values.community, snmpVersion: values.snmpVersion }
+                  ? snmpSubnetFields
                   : { username: values.username, password: values.password }),
               }
             : subnet
@@ -338,8 +419,7 @@ const SiteSubnetPage = () => {
         };
         
         if (values.accessMethod === "snmp") {
-          newSubnet.community = values.community;
-          newSubnet.snmpVersion = values.snmpVersion;
+          Object.assign(newSubnet, snmpSubnetFields);
         } else {
           newSubnet.username = values.username;
           newSubnet.password = values.password;
@@ -602,19 +682,21 @@ const SiteSubnetPage = () => {
 
                   {accessMethod === 'snmp' ? (
                     <div className="space-y-4">
-                      <FormField
-                        control={subnetForm.control}
-                        name="community"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>SNMP Community String</FormLabel>
-                            <FormControl>
-                              <Input placeholder="public" {...field} />
-                            </FormControl>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
+                      {snmpVersion !== '3' && (
+                        <FormField
+                          control={subnetForm.control}
+                          name="community"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>SNMP Community String</FormLabel>
+                              <FormControl>
+                                <Input placeholder="public" {...field} />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      )}
                       
                       <FormField
                         control={subnetForm.control}
@@ -641,6 +723,158 @@ const SiteSubnetPage = () => {
                           </FormItem>
                         )}
                       />
+
+                      {snmpVersion === '3' && (
+                        <div className="space-y-4 rounded-md border p-4">
+                          <div className="grid grid-cols-2 gap-4">
+                            <FormField
+                              control={subnetForm.control}
+                              name="snmpSecurityName"
+                              render={({ field }) => (
+                                <FormItem>
+                                  <FormLabel>Security Name (User)</FormLabel>
+                                  <FormControl>
+                                    <Input placeholder="nile-ro" {...field} />
+                                  </FormControl>
+                                  <FormMessage />
+                                </FormItem>
+                              )}
+                            />
+
+                            <FormField
+                              control={subnetForm.control}
+                              name="snmpSecurityLevel"
+                              render={({ field }) => (
+                                <FormItem>
+                                  <FormLabel>Security Level</FormLabel>
+                                  <Select
+                                    onValueChange={field.onChange as (value: string) => void}
+                                    value={field.value}
+                                  >
+                                    <FormControl>
+                                      <SelectTrigger>
+                                        <SelectValue placeholder="Select security level" />
+                                      </SelectTrigger>
+                                    </FormControl>
+                                    <SelectContent>
+                                      <SelectItem value="noAuthNoPriv">noAuthNoPriv</SelectItem>
+                                      <SelectItem value="authNoPriv">authNoPriv</SelectItem>
+                                      <SelectItem value="authPriv">authPriv</SelectItem>
+                                    </SelectContent>
+                                  </Select>
+                                  <FormMessage />
+                                </FormItem>
+                              )}
+                            />
+                          </div>
+
+                          {snmpSecurityLevel !== 'noAuthNoPriv' && (
+                            <div className="grid grid-cols-2 gap-4">
+                              <FormField
+                                control={subnetForm.control}
+                                name="snmpAuthProtocol"
+                                render={({ field }) => (
+                                  <FormItem>
+                                    <FormLabel>Auth Protocol</FormLabel>
+                                    <Select
+                                      onValueChange={field.onChange as (value: string) => void}
+                                      value={field.value}
+                                    >
+                                      <FormControl>
+                                        <SelectTrigger>
+                                          <SelectValue placeholder="Select auth protocol" />
+                                        </SelectTrigger>
+                                      </FormControl>
+                                      <SelectContent>
+                                        <SelectItem value="sha">SHA</SelectItem>
+                                        <SelectItem value="sha224">SHA-224</SelectItem>
+                                        <SelectItem value="sha256">SHA-256</SelectItem>
+                                        <SelectItem value="sha384">SHA-384</SelectItem>
+                                        <SelectItem value="sha512">SHA-512</SelectItem>
+                                        <SelectItem value="md5">MD5</SelectItem>
+                                      </SelectContent>
+                                    </Select>
+                                    <FormMessage />
+                                  </FormItem>
+                                )}
+                              />
+
+                              <FormField
+                                control={subnetForm.control}
+                                name="snmpAuthPassword"
+                                render={({ field }) => (
+                                  <FormItem>
+                                    <FormLabel>Auth Password</FormLabel>
+                                    <FormControl>
+                                      <Input type="password" placeholder="••••••••" {...field} />
+                                    </FormControl>
+                                    <FormMessage />
+                                  </FormItem>
+                                )}
+                              />
+                            </div>
+                          )}
+
+                          {snmpSecurityLevel === 'authPriv' && (
+                            <div className="grid grid-cols-2 gap-4">
+                              <FormField
+                                control={subnetForm.control}
+                                name="snmpPrivProtocol"
+                                render={({ field }) => (
+                                  <FormItem>
+                                    <FormLabel>Privacy Protocol</FormLabel>
+                                    <Select
+                                      onValueChange={field.onChange as (value: string) => void}
+                                      value={field.value}
+                                    >
+                                      <FormControl>
+                                        <SelectTrigger>
+                                          <SelectValue placeholder="Select privacy protocol" />
+                                        </SelectTrigger>
+                                      </FormControl>
+                                      <SelectContent>
+                                        <SelectItem value="aes">AES-128</SelectItem>
+                                        <SelectItem value="aes256r">AES-256 (Cisco)</SelectItem>
+                                        <SelectItem value="aes256b">AES-256 (Blumenthal)</SelectItem>
+                                        <SelectItem value="des">DES</SelectItem>
+                                      </SelectContent>
+                                    </Select>
+                                    <FormMessage />
+                                  </FormItem>
+                                )}
+                              />
+
+                              <FormField
+                                control={subnetForm.control}
+                                name="snmpPrivPassword"
+                                render={({ field }) => (
+                                  <FormItem>
+                                    <FormLabel>Privacy Password</FormLabel>
+                                    <FormControl>
+                                      <Input type="password" placeholder="••••••••" {...field} />
+                                    </FormControl>
+                                    <FormMessage />
+                                  </FormItem>
+                                )}
+                              />
+                            </div>
+                          )}
+
+                          <FormField
+                            control={subnetForm.control}
+                            name="snmpContext"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>Context Name (optional)</FormLabel>
+                                <FormControl>
+                                  <Input placeholder="Leave blank for the default context" {...field} />
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                        </div>
+                      )}
                     </div>
                   ) : (
                     <div className="grid grid-cols-2 gap-4">
@@ -692,6 +926,7 @@ const SiteSubnetPage = () => {
                   password: "",
                   community: "public",
                   snmpVersion: "2c",
+                  ...snmpV3FormDefaults,
                   accessMethod: "snmp",
                 });
               }}
@@ -6,10 +6,12 @@ import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle }
 import { Input } from "@/components/ui/input";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { useToast } from "@/components/ui/use-toast";
-import { FolderKanbanIcon, LayersIcon, TagIcon, Loader2Icon, AlertTriangleIcon, FeatherIcon } from "lucide-react";
+import { FolderKanbanIcon, LayersIcon, TagIcon, Loader2Icon, AlertTriangleIcon, FeatherIcon, Combine } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/contexts/AuthContext";
-import { discoverVlans } from "@/utils/network/vlanDiscovery";
+import { discoverSiteVlans, mergeSwitchVlans, saveDeviceVlans, getSiteVlanPresence } from "@/utils/network/vlanDiscovery";
+import { getVlanConsistencyReport, VlanConsistencyReport } from "@/utils/network/vlanConsistency";
+import { VlanConsistencyPanel } from "@/components/vlans/VlanConsistencyPanel";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 
 interface Vlan {
@@ -19,6 +21,10 @@ interface Vlan {
   segmentName: string;
   subnet?: string;
   usedBy: string[];
+  ports?: string[];
+  nameVariants?: { name: string; switches: string[] }[];
+  nameConflict?: boolean; // Switches disagree on the name and the user has not picked one yet
+  nameResolved?: boolean; // The user picked one of the switches' names or typed their own, saved as vlans.name_resolved
 }
 
 const MIN_VLAN_ID = 1;
@@ -27,6 +33,7 @@ const MAX_VLAN_ID = 4094;
 const VlansPage = () => {
   const [vlans, setVlans] = useState<Vlan[]>([]);
   const [invalidVlans, setInvalidVlans] = useState<Vlan[]>([]);
+  const [consistencyReport, setConsistencyReport] = useState<VlanConsistencyReport | null>(null);
   const [loading, setLoading] = useState(true);
   const [discoveryInProgress, setDiscoveryInProgress] = useState(false);
   const [discoveryProgress, setDiscoveryProgress] = useState({ message: "", percent: 0 });
@@ -131,9 +138,7 @@ const VlansPage = () => {
       if (!vlanData || vlanData.length === 0) {
         console.log(`No VLANs found in database for site ${selectedSiteId}, attempting to discover...`);
         
-        const switches = devices.filter(device => 
-          device.category === 'Switch' || device.make === 'Cisco' || device.make === 'Juniper'
-        );
+        const switches = devices.filter(device => device.category === 'Switch');
         
         if (switches.length === 0) {
           toast({
@@ -155,38 +160,23 @@ const VlansPage = () => {
           });
         };
         
-        const primarySwitch = switches.find(device => device.make?.toLowerCase().includes('cisco')) || switches[0];
-        
-        if (!primarySwitch) {
-          toast({
-            title: "VLAN Discovery",
-            description: "No suitable switch found for VLAN discovery.",
-            variant: "destructive",
-          });
-          setDiscoveryInProgress(false);
-          setLoading(false);
-          return;
-        }
-        
-        console.log(`Selected primary switch for VLAN discovery: ${primarySwitch.hostname || primarySwitch.ip_address} (${primarySwitch.ip_address})`);
-        
         try {
-          const { data: subnetData } = await supabase
-            .from('subnets')
-            .select('*')
-            .eq('id', primarySwitch.subnet_id)
-            .single();
-            
-          const result = await discoverVlans(
-            primarySwitch.ip_address,
-            subnetData?.snmp_community || 'public',
-            subnetData?.snmp_version as "1" | "2c" | "3" || '2c',
-            primarySwitch.make || 'Cisco'
-          );
+          const { results, failedSwitches } = await discoverSiteVlans(switches, updateProgress);
+          await saveDeviceVlans(selectedSiteId, user.id, results);
           
-          const discoveredVlans = result.vlans;
+          if (failedSwitches.length > 0) {
+            toast({
+              title: "Some switches returned no VLANs",
+              description: `No VLANs were discovered on ${failedSwitches.map(s => s.hostname || s.ip_address).join(", ")}. Check their SNMP credentials.`,
+              variant: "destructive",
+            });
+          }
+          
+          const discoveredVlans = mergeSwitchVlans(
+            results.map(result => ({ switchName: result.device.hostname || result.device.ip_address, vlans: result.vlans }))
+          );
           
-          console.log(`Raw discovered VLANs for site ${selectedSiteId}:`, discoveredVlans);
+          console.log(`Merged VLANs from ${results.length} switches for site ${selectedSiteId}:`, discoveredVlans);
           
           if (discoveredVlans.length === 0) {
             toast({
@@ -220,7 +210,10 @@ const VlansPage = () => {
                 name: vlan.name,
                 segmentName: vlanName || "",
                 subnet: vlan.subnet || "",
-                usedBy: vlan.usedBy
+                usedBy: vlan.switches,
+                ports: vlan.ports,
+                nameVariants: vlan.nameVariants,
+                nameConflict: vlan.nameVariants.length > 1
               };
               
               if (isValidVlanId(vlan.vlanId)) {
@@ -232,6 +225,7 @@ const VlansPage = () => {
             
             setVlans(valid);
             setInvalidVlans(invalid);
+            setConsistencyReport(await getVlanConsistencyReport(selectedSiteId, devices, valid));
             
             if (invalid.length > 0) {
               toast({
@@ -243,7 +237,7 @@ const VlansPage = () => {
             
             toast({
               title: "VLAN Discovery Complete",
-              description: `Successfully discovered ${valid.length} valid VLANs from your network devices.`,
+              description: `Successfully discovered ${valid.length} valid VLANs from ${results.length} switches.`,
             });
           }
           
@@ -260,20 +254,23 @@ const VlansPage = () => {
         const valid: Vlan[] = [];
         const invalid: Vlan[] = [];
         
+        // Per-switch presence is only known for switches polled on this page
+        const presence = await getSiteVlanPresence(selectedSiteId, devices);
+        
         vlanData.forEach(dbVlan => {
-          const vlanDevices = devices
-            .filter(d => d.category === 'Switch' || d.make === 'Cisco' || d.make === 'Juniper')
-            .slice(0, 3)
-            .map(d => d.hostname || d.ip_address)
-            .filter(Boolean) as string[];
+          const merged = presence.find(vlan => vlan.vlanId === dbVlan.vlan_id);
           
           const mappedVlan: Vlan = {
             id: dbVlan.id,
             vlanId: dbVlan.vlan_id,
             name: dbVlan.name,
             segmentName: dbVlan.description || dbVlan.name,
-            subnet: "",
-            usedBy: vlanDevices
+            subnet: merged?.subnet || "",
+            usedBy: merged?.switches || [],
+            nameVariants: merged?.nameVariants,
+            // A saved name only settles a conflict when the user picked it
+            nameConflict: !dbVlan.name_resolved && (merged?.nameVariants?.length || 0) > 1,
+            nameResolved: dbVlan.name_resolved
           };
           
           if (isValidVlanId(dbVlan.vlan_id)) {
@@ -285,6 +282,7 @@ const VlansPage = () => {
         
         setVlans(valid);
         setInvalidVlans(invalid);
+        setConsistencyReport(await getVlanConsistencyReport(selectedSiteId, devices, valid));
         
         if (invalid.length > 0) {
           toast({
@@ -343,7 +341,10 @@ const VlansPage = () => {
           return { 
             ...vlan, 
             [field]: value,
-            segmentName: updatedSegmentName
+            segmentName: updatedSegmentName,
+            // A name the user typed is the resolved name, even if the switches disagree
+            nameConflict: false,
+            nameResolved: true
           };
         }
         return vlan;
@@ -356,6 +357,12 @@ const VlansPage = () => {
     setEditingCell(null);
   };
 
+  const handleResolveName = (id: string, name: string) => {
+    setVlans(vlans.map(vlan => vlan.id === id ? { ...vlan, name, nameConflict: false, nameResolved: true } : vlan));
+  };
+
+  const conflictCount = vlans.filter(vlan => vlan.nameConflict).length;
+
   const handleAddVlan = () => {
     const maxVlanId = Math.max(...vlans.map(v => v.vlanId), 0);
     let newVlanId = maxVlanId + 10;
@@ -448,13 +455,15 @@ const VlansPage = () => {
           vlan_id: number;
           name: string;
           description: string;
+          name_resolved: boolean;
           id?: string;
         } = {
           user_id: user!.id,
           site_id: selectedSiteId,
           vlan_id: vlan.vlanId,
           name: vlan.name,
-          description: vlan.segmentName
+          description: vlan.segmentName,
+          name_resolved: !!vlan.nameResolved
         };
 
         if (!isNewVlan) {
@@ -557,14 +566,26 @@ const VlansPage = () => {
       </div>
 
       <Card>
-        <CardHeader>
-          <CardTitle className="flex items-center gap-2">
-            <FolderKanbanIcon className="h-5 w-5" />
-            VLAN to Segment Mapping
-          </CardTitle>
-          <CardDescription>
-            Assign segment names to each VLAN for migration
-          </CardDescription>
+        <CardHeader className="flex flex-row justify-between items-center">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <FolderKanbanIcon className="h-5 w-5" />
+              VLAN to Segment Mapping
+            </CardTitle>
+            <CardDescription>
+              Assign segment names to each VLAN for migration
+            </CardDescription>
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => navigate(`/segments?site=${selectedSiteId}`)}
+            disabled={vlans.length === 0}
+            className="flex gap-2 items-center"
+          >
+            <Combine className="h-4 w-4" />
+            Plan Segments
+          </Button>
         </CardHeader>
         <CardContent>
           {vlans.length === 0 ? (
@@ -605,6 +626,25 @@ const VlansPage = () => {
                 </div>
               )}
               
+              {consistencyReport && consistencyReport.polledSwitches > 0 && (
+                <VlanConsistencyPanel report={consistencyReport} />
+              )}
+              
+              {conflictCount > 0 && (
+                <div className="bg-amber-50 border border-amber-200 rounded-md p-4 mb-4">
+                  <div className="flex items-start">
+                    <AlertTriangleIcon className="h-5 w-5 text-amber-500 mt-0.5 mr-2" />
+                    <div>
+                      <h4 className="font-medium text-amber-800">VLAN name conflicts</h4>
+                      <p className="text-amber-700 text-sm mt-1">
+                        {conflictCount} VLANs have different names on different switches.
+                        Pick the name to keep for each highlighted VLAN, or click the name to enter a new one.
+                      </p>
+                    </div>
+                  </div>
+                </div>
+              )}
+              
               <div className="rounded-md border">
                 <Table>
                   <TableHeader>
@@ -660,12 +700,30 @@ const VlansPage = () => {
                             />
                           ) : (
                             <div
-                              className="cursor-pointer hover:text-primary"
+                              className={`cursor-pointer hover:text-primary ${vlan.nameConflict ? "flex items-center gap-1 text-amber-700" : ""}`}
                               onClick={() => setEditingCell({id: vlan.id, field: "name"})}
                             >
+                              {vlan.nameConflict && <AlertTriangleIcon className="h-4 w-4 text-amber-500" />}
                               {vlan.name}
                             </div>
                           )}
+                          {vlan.nameVariants && vlan.nameVariants.length > 1 && (
+                            <div className="mt-1 flex flex-wrap gap-1">
+                              {vlan.nameVariants.map(variant => (
+                                <button
+                                  key={variant.name}
+                                  type="button"
+                                  className={`rounded-full border px-2 py-0.5 text-xs ${
+                                    variant.name === vlan.name ? "border-primary text-primary" : "text-muted-foreground hover:border-primary"
+                                  }`}
+                                  title={`Named "${variant.name}" on ${variant.switches.join(", ")}`}
+                                  onClick={() => handleResolveName(vlan.id, variant.name)}
+                                >
+                                  {variant.name} ({variant.switches.length})
+                                </button>
+                              ))}
+                            </div>
+                          )}
                         </TableCell>
                         <TableCell>
                           {editingCell?.id === vlan.id && editingCell?.field === "segmentName" ? (
@@ -724,6 +782,14 @@ const VlansPage = () => {
                               </span>
                             ))}
                           </div>
+                          {vlan.ports && vlan.ports.length > 0 && (
+                            <div 
+                              className="mt-1 text-xs text-muted-foreground"
+                              title={vlan.ports.join(", ")}
+                            >
+                              {vlan.ports.length} member port{vlan.ports.length === 1 ? "" : "s"}
+                            </div>
+                          )}
                         </TableCell>
                         <TableCell>
                           <Button
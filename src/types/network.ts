@@ -8,8 +8,53 @@ export interface DiscoveredVlan {
   subnet?: string;
   usedBy: string[];
   deviceHostname?: string; // Add this field to store the actual device hostname
+  ports?: string[]; // Member ports reported by Q-BRIDGE-MIB (dot1qVlanCurrentEgressPorts)
 }
 
+/**
+ * Interface for a VLAN merged across the switches of a site
+ */
+export interface MergedVlan {
+  vlanId: number;
+  name: string; // The name used by the most switches
+  subnet?: string;
+  switches: string[]; // Switches the VLAN is configured on
+  ports: string[];
+  nameVariants: { name: string; switches: string[] }[]; // More than one entry means a name conflict
+}
+
+/**
+ * Interface for device VLAN data from database
+ */
+export interface DeviceVlanData {
+  id: string;
+  device_id: string;
+  site_id: string;
+  user_id: string;
+  vlan_id: number;
+  name: string | null;
+  subnet: string | null;
+  discovered_at: string;
+}
+
+/**
+ * Interface for a planned Nile segment from database
+ */
+export interface SegmentData {
+  id: string;
+  site_id: string;
+  user_id: string;
+  name: string;
+  vlan_ids: number[]; // VLANs consolidated into the segment
+  position: number;
+  created_at: string;
+}
+
+/**
+ * Role of the switch port a MAC address was learned on
+ */
+export type PortRole = "access" | "trunk" | "uplink";
+
 /**
  * Interface for discovered MAC address
  */
@@ -17,7 +62,11 @@ export interface DiscoveredMacAddress {
   macAddress: string;
   vlanId: number;
   deviceType?: string;
-  port?: string;
+  port?: string; // Interface name (ifName) the MAC was learned on
+  portDescription?: string; // Interface description (ifAlias)
+  bridgePort?: number; // BRIDGE-MIB port number the MAC was learned on
+  ifIndex?: number;
+  portRole?: PortRole; // Trunk/uplink MACs are transit MACs seen from other switches
 }
 
 /**
@@ -28,6 +77,19 @@ export interface DeviceDeletionRequest {
   userId: string;
 }
 
+/**
+ * Interface for SNMPv3 (USM) credentials
+ */
+export interface SnmpV3Credentials {
+  securityName: string;
+  securityLevel: "noAuthNoPriv" | "authNoPriv" | "authPriv";
+  authProtocol?: "md5" | "sha" | "sha224" | "sha256" | "sha384" | "sha512";
+  authKey?: string;
+  privProtocol?: "des" | "aes" | "aes256b" | "aes256r";
+  privKey?: string;
+  context?: string;
+}
+
 /**
  * Interface for SNMP connection details
  */
@@ -35,6 +97,7 @@ export interface SnmpConnectionDetails {
   community: string;
   version: "1" | "2c" | "3";
   port?: number;
+  v3?: SnmpV3Credentials;
 }
 
 /**
@@ -76,6 +139,13 @@ export interface SubnetData {
   access_method: "snmp" | "ssh" | "telnet" | null;
   snmp_community: string | null;
   snmp_version: "1" | "2c" | "3" | null;
+  snmp_v3_security_name: string | null;
+  snmp_v3_security_level: string | null;
+  snmp_v3_auth_protocol: string | null;
+  snmp_v3_auth_password: string | null;
+  snmp_v3_priv_protocol: string | null;
+  snmp_v3_priv_password: string | null;
+  snmp_v3_context: string | null;
   username: string | null;
   password: string | null;
 }
@@ -100,6 +170,274 @@ export interface DeviceData {
   needs_verification: boolean | null;
   confirmed: boolean | null;
   sysdescr: string | null;  // Only use lowercase version to match database
+  location: string | null; // sysLocation
+  sysobjectid: string | null;
+}
+
+/**
+ * Interface for a neighbor seen on one of a device's ports (LLDP or CDP)
+ */
+export interface DeviceNeighbor {
+  protocol: "lldp" | "cdp";
+  localPort: string;
+  localPortNum?: number;
+  remoteChassisId: string;
+  remotePortId: string;
+  remotePortDescription?: string | null;
+  remoteSysName?: string | null;
+  remoteSysDescription?: string | null;
+  remoteCapabilities?: string[];
+  remoteManagementAddress?: string | null;
+  platform?: string | null; // CDP platform string, e.g. "Cisco IP Phone 8845"
+  nativeVlan?: number | null; // CDP only
+  medDeviceClass?: string | null; // LLDP-MED device class, e.g. "endpointClass3" for voice endpoints
+}
+
+/**
+ * Interface for an ARP entry harvested from a router or L3 switch
+ */
+export interface DiscoveredArpEntry {
+  ipAddress: string;
+  macAddress: string;
+  ifIndex?: number;
+  interface?: string | null; // Layer 3 interface the entry was learned on, e.g. "Vlan20"
+  vlanId?: number | null; // Derived from the SVI name
+}
+
+/**
+ * Interface for IP/MAC binding data from database
+ */
+export interface IpMacBindingData {
+  id: string;
+  device_id: string | null;
+  site_id: string;
+  user_id: string;
+  mac_address: string;
+  ip_address: string;
+  vlan_id: number | null;
+  interface: string | null;
+  last_seen: string;
+}
+
+/**
+ * Interface for a device interface from ifTable/ifXTable
+ */
+export interface DiscoveredInterface {
+  ifIndex: number;
+  name: string; // ifName, falling back to ifDescr
+  description: string | null; // ifDescr
+  alias: string | null; // ifAlias - administrator-assigned description
+  type: number | null; // IANAifType, 6 = ethernetCsmacd
+  speedMbps: number | null;
+  adminStatus: string | null;
+  operStatus: string | null;
+  lastChange: string | null; // ISO timestamp of the last oper status change
+}
+
+/**
+ * Interface for device interface data from database
+ */
+export interface DeviceInterfaceData {
+  id: string;
+  device_id: string;
+  site_id: string;
+  user_id: string;
+  if_index: number;
+  name: string;
+  description: string | null;
+  alias: string | null;
+  if_type: number | null;
+  speed_mbps: number | null;
+  admin_status: string | null;
+  oper_status: string | null;
+  last_change: string | null;
+  discovered_at: string;
+}
+
+/**
+ * Interface for a physical component from ENTITY-MIB entPhysicalTable
+ */
+export interface DiscoveredEntity {
+  entIndex: number;
+  containedIn: number | null; // entIndex of the parent, null at the top of the tree
+  class: string; // chassis, module, powerSupply, fan, stack, port, ...
+  relPos: number | null; // Position among siblings - stack member or slot number
+  name: string | null;
+  description: string | null;
+  model: string | null;
+  serialNumber: string | null;
+  manufacturer: string | null;
+  hardwareRev: string | null;
+  firmwareRev: string | null;
+  softwareRev: string | null;
+  isFru: boolean; // Field replaceable unit
+}
+
+/**
+ * Interface for device entity data from database
+ */
+export interface DeviceEntityData {
+  id: string;
+  device_id: string;
+  site_id: string;
+  user_id: string;
+  ent_index: number;
+  contained_in: number | null;
+  entity_class: string;
+  rel_pos: number | null;
+  name: string | null;
+  description: string | null;
+  model: string | null;
+  serial_number: string | null;
+  manufacturer: string | null;
+  hardware_rev: string | null;
+  firmware_rev: string | null;
+  software_rev: string | null;
+  is_fru: boolean;
+  discovered_at: string;
+}
+
+/**
+ * Interface for the VLAN configuration of a switchport
+ */
+export interface DiscoveredPortVlan {
+  ifIndex: number;
+  interface: string | null;
+  mode: "access" | "trunk";
+  accessVlan: number | null;
+  nativeVlan: number | null; // Untagged VLAN of a trunk
+  allowedVlans: string | null; // Range list such as "1,10,20-30", trunks only
+  voiceVlan: number | null; // Set on access ports with an IP phone in front of the PC
+}
+
+/**
+ * Interface for port VLAN data from database
+ */
+export interface PortVlanData {
+  id: string;
+  device_id: string;
+  site_id: string;
+  user_id: string;
+  if_index: number;
+  interface: string | null;
+  mode: string;
+  access_vlan: number | null;
+  native_vlan: number | null;
+  allowed_vlans: string | null;
+  voice_vlan: number | null;
+  discovered_at: string;
+}
+
+/**
+ * Interface for a PoE power sourcing equipment group (pethMainPseTable) - one per stack member or line card
+ */
+export interface PoePowerSupply {
+  group: number;
+  powerW: number | null; // Nominal power budget
+  consumptionW: number | null;
+  operStatus: "on" | "off" | "faulty" | null;
+  usageThreshold: number | null; // Percent of the budget that raises a usage alarm
+}
+
+/**
+ * Interface for a PoE port (pethPsePortTable)
+ */
+export interface PoePort {
+  group: number;
+  port: number;
+  ifIndex: number | null;
+  interface: string | null;
+  adminEnabled: boolean;
+  detectionStatus: string | null; // "deliveringPower", "searching", "fault", ...
+  powerClass: number | null; // IEEE 802.3af/at class 0-4
+  powerMw: number | null; // Current draw, where the agent reports it (Cisco extension MIB)
+  allocatedMw: number | null;
+}
+
+/**
+ * Interface for a switch's PoE inventory
+ */
+export interface PoeInventory {
+  supplies: PoePowerSupply[];
+  ports: PoePort[];
+}
+
+/**
+ * Interface for PoE supply data from database
+ */
+export interface PoeSupplyData {
+  id: string;
+  device_id: string;
+  site_id: string;
+  user_id: string;
+  group_index: number;
+  power_w: number | null;
+  consumption_w: number | null;
+  oper_status: string | null;
+  usage_threshold: number | null;
+  discovered_at: string;
+}
+
+/**
+ * Interface for PoE port data from database
+ */
+export interface PoePortData {
+  id: string;
+  device_id: string;
+  site_id: string;
+  user_id: string;
+  group_index: number;
+  port_index: number;
+  interface: string | null;
+  admin_enabled: boolean;
+  detection_status: string | null;
+  power_class: number | null;
+  power_mw: number | null;
+  allocated_mw: number | null;
+  discovered_at: string;
+}
+
+/**
+ * Interface for a reachability probe result from the backend (ICMP + TCP connect)
+ */
+export interface ProbeResult {
+  ip: string;
+  reachable: boolean;
+  icmp: boolean;
+  latencyMs: number | null;
+  openPorts: number[];
+  closedPorts: number[]; // Refused connections - the host answered, so it is up
+}
+
+/**
+ * Interface for a device's routed interfaces and next-hop routers (ipAddrTable/ipRouteTable)
+ */
+export interface RoutingInfo {
+  interfaces: { ipAddress: string; ifIndex: number; subnet: string }[];
+  nextHops: string[];
+}
+
+/**
+ * Interface for device link data from database
+ */
+export interface DeviceLinkData {
+  id: string;
+  device_id: string;
+  site_id: string;
+  user_id: string;
+  protocol: string;
+  local_port: string;
+  remote_chassis_id: string | null;
+  remote_port: string | null;
+  remote_port_description: string | null;
+  remote_sys_name: string | null;
+  remote_sys_description: string | null;
+  remote_capabilities: string[] | null;
+  remote_management_address: string | null;
+  platform: string | null;
+  native_vlan: number | null;
+  med_device_class: string | null;
+  discovered_at: string;
 }
 
 /**
@@ -110,7 +448,15 @@ export interface DiscoveredDevice {
   hostname?: string | null;
   mac_address?: string | null;
   macAddresses?: DiscoveredMacAddress[];
+  neighbors?: DeviceNeighbor[];
+  arpEntries?: DiscoveredArpEntry[];
+  poe?: PoeInventory;
+  interfaces?: DiscoveredInterface[];
+  entities?: DiscoveredEntity[];
+  portVlans?: DiscoveredPortVlan[];
   sysDescr?: string | null;
+  sysObjectID?: string | null;
+  location?: string | null;
   make?: string | null;
   model?: string | null;
   category?: string | null;
@@ -145,6 +491,11 @@ export interface MacAddressData {
   mac_address: string;
   vlan_id: number;
   device_type: string | null;
+  device_type_confidence: number | null;
+  port: string | null;
+  port_description: string | null;
+  port_role: string | null;
+  device_id: string | null;
   site_id: string;
   subnet_id: string;
   user_id: string;
@@ -152,3 +503,62 @@ export interface MacAddressData {
   last_seen: string;
   is_active: boolean | null;
 }
+
+/**
+ * Endpoint categories assigned to MAC addresses by the classification rules
+ */
+export type EndpointType = "Phone" | "Camera" | "Printer" | "IoT" | "Workstation" | "AP";
+
+/**
+ * Signal a classification rule pattern is matched against
+ */
+export type ClassificationSignal = "vendor" | "capability" | "neighbor" | "dhcp" | "port";
+
+/**
+ * Interface for endpoint classification rule data from database
+ */
+export interface ClassificationRuleData {
+  id: string;
+  site_id: string;
+  user_id: string;
+  signal: ClassificationSignal;
+  pattern: string; // Case-insensitive regular expression
+  device_type: EndpointType;
+  weight: number; // 1-100, how strongly a match points at device_type
+  enabled: boolean;
+  position: number;
+  created_at: string;
+}
+
+/**
+ * What an identification rule sets: the vendor (from an enterprise OID prefix) or the model (from a sysObjectID)
+ */
+export type IdentificationRuleType = "vendor" | "model";
+
+/**
+ * Interface for a sysObjectID identification rule from database
+ */
+export interface IdentificationRuleData {
+  id: string;
+  user_id: string;
+  rule_type: IdentificationRuleType;
+  oid_prefix: string; // Matches the sysObjectID itself or any OID below it
+  value: string; // Vendor or model name
+  position: number;
+  created_at: string;
+}
+
+/**
+ * Interface for an end-of-life catalog entry from database
+ */
+export interface EolCatalogEntryData {
+  id: string;
+  user_id: string;
+  vendor: string;
+  model_pattern: string; // Case-insensitive regular expression matched against the model
+  end_of_sale: string | null; // YYYY-MM-DD
+  end_of_support: string | null; // YYYY-MM-DD, last date of support
+  notes: string | null;
+  position: number;
+  created_at: string;
+}
@@ -1,5 +1,5 @@
 
-import { DiscoveredVlan } from "../types/network";
+import { DiscoveredVlan, PortRole, SnmpV3Credentials } from "../types/network";
 import { toast } from "@/hooks/use-toast";
 
 // Configuration for the agent
@@ -82,15 +82,17 @@ export async function callBackendApi<T = any>(endpoint: string, data: any, timeo
 export async function discoverDeviceWithSNMP(
   deviceIp: string,
   community: string = 'public',
-  version: string = '2c'
+  version: string = '2c',
+  v3?: SnmpV3Credentials
 ): Promise<any> {
   try {
     console.log(`Discovering device info for ${deviceIp} using SNMP...`);
     
-    const result = await callBackendApi("/snmp/discoverDevice", {
+    const result = await callBackendApi("/snmp/discover-device", {
       ip: deviceIp,
       community,
-      version
+      version,
+      v3
     });
     
     return result.device || null;
@@ -106,7 +108,8 @@ export async function discoverDeviceWithSNMP(
 export async function getDeviceHostname(
   deviceIp: string,
   community: string = 'public',
-  version: string = '2c'
+  version: string = '2c',
+  v3?: SnmpV3Credentials
 ): Promise<string | null> {
   try {
     console.log(`Getting hostname for ${deviceIp} using SNMP sysName...`);
@@ -115,6 +118,7 @@ export async function getDeviceHostname(
       ip: deviceIp,
       community,
       version,
+      v3,
       oids: ["1.3.6.1.2.1.1.5.0"] // sysName OID
     });
     
@@ -165,6 +169,7 @@ export async function executeSnmpWalk(
   options?: { 
     community?: string; 
     version?: string;
+    v3?: SnmpV3Credentials;
     timeout?: number;
   }
 ): Promise<any> {
@@ -175,7 +180,8 @@ export async function executeSnmpWalk(
       ip: deviceIp,
       oid,
       community: options?.community || 'public',
-      version: options?.version || '2c'
+      version: options?.version || '2c',
+      v3: options?.v3
     };
     
     const timeout = options?.timeout || 15000; // Default to 15 seconds timeout
@@ -232,12 +238,18 @@ export async function discoverMacAddressesWithSNMP(
   deviceIp: string,
   community: string = 'public',
   version: string = '2c',
-  vlanIds?: number[]
+  vlanIds?: number[],
+  v3?: SnmpV3Credentials,
+  make?: string
 ): Promise<{
   macAddresses: Array<{
     macAddress: string;
     vlanId: number;
     deviceType: string;
+    bridgePort?: number;
+    port?: string;
+    portDescription?: string;
+    portRole?: PortRole;
   }>;
   vlanIds: number[];
 }> {
@@ -247,7 +259,9 @@ export async function discoverMacAddressesWithSNMP(
     const requestData: any = {
       ip: deviceIp,
       community,
-      version
+      version,
+      v3,
+      make
     };
     
     // If specific VLAN IDs are provided, include them in the request
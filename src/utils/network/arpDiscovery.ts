@@ -0,0 +1,72 @@
+import { DiscoveredArpEntry, IpMacBindingData, SnmpConnectionDetails } from "@/types/network";
+import { supabase } from "@/integrations/supabase/client";
+import { callBackendApi } from "../apiClient";
+import { fetchAllRows } from "../supabasePaging";
+
+/**
+ * Harvest IP/MAC/VLAN bindings from a router or L3 switch's ARP cache via the backend agent
+ */
+export async function discoverArpEntries(
+  ip: string,
+  snmp: SnmpConnectionDetails
+): Promise<DiscoveredArpEntry[]> {
+  try {
+    console.log(`Harvesting ARP entries from ${ip}...`);
+    const result = await callBackendApi("/snmp/discover-arp", {
+      ip,
+      community: snmp.community,
+      version: snmp.version,
+      v3: snmp.v3
+    });
+
+    if (!result || !Array.isArray(result.entries)) {
+      console.warn(`Invalid ARP discovery response from ${ip}:`, result);
+      return [];
+    }
+
+    console.log(`Harvested ${result.entries.length} ARP entries from ${ip}`);
+    return result.entries;
+  } catch (error) {
+    console.error(`Error harvesting ARP entries from ${ip}:`, error);
+    return [];
+  }
+}
+
+/**
+ * Normalize a MAC address for comparison (separators and case vary between sources)
+ */
+export function normalizeMac(mac: string): string {
+  return mac.replace(/[^0-9a-f]/gi, "").toLowerCase();
+}
+
+/**
+ * Load a site's IP/MAC bindings and return a lookup of the last known binding for a MAC
+ * When a MAC has bindings in several VLANs, the one in the MAC's own VLAN wins
+ */
+export async function getIpBindingLookup(
+  siteId: string
+): Promise<(macAddress: string, vlanId?: number) => IpMacBindingData | undefined> {
+  const data = await fetchAllRows<IpMacBindingData>((from, to) => supabase
+    .from('ip_mac_bindings')
+    .select('*')
+    .eq('site_id', siteId)
+    .order('id', { ascending: true })
+    .range(from, to)
+  ).catch(error => {
+    console.error(`Error loading IP/MAC bindings for site ${siteId}:`, error);
+    return [] as IpMacBindingData[];
+  });
+
+  const bindingsByMac = new Map<string, IpMacBindingData[]>();
+  for (const binding of data) {
+    const key = normalizeMac(binding.mac_address);
+    bindingsByMac.set(key, [...(bindingsByMac.get(key) || []), binding]);
+  }
+
+  return (macAddress, vlanId) => {
+    const bindings = (bindingsByMac.get(normalizeMac(macAddress)) || [])
+      .slice()
+      .sort((a, b) => b.last_seen.localeCompare(a.last_seen));
+    return bindings.find(binding => binding.vlan_id === vlanId) || bindings[0];
+  };
+}
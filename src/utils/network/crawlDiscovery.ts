@@ -0,0 +1,126 @@
+import { DiscoveredDevice, RoutingInfo, SnmpConnectionDetails } from "@/types/network";
+import { callBackendApi } from "../apiClient";
+import { discoverIP } from "./discovery";
+import { findContainingCidr } from "./ipUtils";
+
+/**
+ * Limits for a crawl from a seed device
+ */
+export interface CrawlOptions {
+  maxDepth: number; // Number of hops away from the seed to follow
+  allowedSubnets: string[]; // CIDRs the crawl may enter; the seed itself is always crawled
+}
+
+/**
+ * Where a crawled IP is saved and which credentials are used to reach it
+ */
+export interface CrawlTarget {
+  subnetId: string;
+  snmp: SnmpConnectionDetails;
+}
+
+/**
+ * Devices found by a crawl, grouped by the subnet they were saved against
+ */
+export interface CrawlResult {
+  devicesBySubnet: Record<string, DiscoveredDevice[]>;
+  learnedSubnets: string[];
+  visited: number;
+}
+
+/**
+ * Discover a device's routed interfaces and next-hop routers via the backend agent
+ */
+export async function discoverRoutes(
+  ip: string,
+  snmp: SnmpConnectionDetails
+): Promise<RoutingInfo> {
+  try {
+    const result = await callBackendApi("/snmp/discover-routes", {
+      ip,
+      community: snmp.community,
+      version: snmp.version,
+      v3: snmp.v3
+    });
+
+    if (!result || !Array.isArray(result.interfaces) || !Array.isArray(result.nextHops)) {
+      console.warn(`Invalid route discovery response from ${ip}:`, result);
+      return { interfaces: [], nextHops: [] };
+    }
+
+    return result;
+  } catch (error) {
+    console.error(`Error discovering routes on ${ip}:`, error);
+    return { interfaces: [], nextHops: [] };
+  }
+}
+
+/**
+ * Discover a site by crawling outward from a seed switch instead of sweeping every IP
+ * Follows LLDP/CDP management addresses and router next hops breadth-first, up to maxDepth
+ * hops, and only into the allowed subnets. Subnets learned from router interfaces are passed
+ * to resolveTarget so devices outside the entered subnets can still be saved.
+ */
+export async function crawlFromSeed(
+  seedIp: string,
+  options: CrawlOptions,
+  resolveTarget: (ip: string, learnedSubnets: string[]) => Promise<CrawlTarget>,
+  updateProgress?: (message: string, progress: number) => void,
+  backendConnected: boolean = false
+): Promise<CrawlResult> {
+  const queue: { ip: string; depth: number }[] = [{ ip: seedIp, depth: 0 }];
+  const seen = new Set<string>([seedIp]);
+  const learnedSubnets = new Set<string>();
+  const devicesBySubnet: Record<string, DiscoveredDevice[]> = {};
+  let visited = 0;
+
+  const isAllowed = (ip: string) => findContainingCidr(ip, options.allowedSubnets) !== null;
+
+  const enqueue = (ip: string | null | undefined, depth: number) => {
+    if (!ip || seen.has(ip) || depth > options.maxDepth || !isAllowed(ip)) return;
+    seen.add(ip);
+    queue.push({ ip, depth });
+  };
+
+  while (queue.length > 0) {
+    const { ip, depth } = queue.shift()!;
+    visited++;
+
+    if (updateProgress) {
+      updateProgress(`Crawling ${ip} (hop ${depth}/${options.maxDepth}, ${queue.length} queued)...`, 5);
+    }
+
+    const target = await resolveTarget(ip, Array.from(learnedSubnets));
+    // MACs are not streamed to the database here - they are saved with their switch after the crawl so they carry its device_id
+    const device = await discoverIP(ip, undefined, backendConnected, undefined, undefined, undefined, target.snmp);
+    if (!device) {
+      console.log(`Crawl: ${ip} did not respond, not following it`);
+      continue;
+    }
+
+    (devicesBySubnet[target.subnetId] = devicesBySubnet[target.subnetId] || []).push(device);
+
+    // Only network devices know about other devices
+    if (device.category !== "Switch" && device.category !== "Router") continue;
+
+    for (const neighbor of device.neighbors || []) {
+      enqueue(neighbor.remoteManagementAddress, depth + 1);
+    }
+
+    // Layer 3 switches route too, so ask both kinds for their interfaces and next hops
+    const { interfaces, nextHops } = await discoverRoutes(ip, target.snmp);
+    for (const routedInterface of interfaces) {
+      if (isAllowed(routedInterface.ipAddress)) {
+        learnedSubnets.add(routedInterface.subnet);
+      }
+    }
+    for (const nextHop of nextHops) {
+      enqueue(nextHop, depth + 1);
+    }
+  }
+
+  const deviceCount = Object.values(devicesBySubnet).reduce((count, devices) => count + devices.length, 0);
+  console.log(`Crawl from ${seedIp} complete: visited ${visited} IPs, found ${deviceCount} devices, learned ${learnedSubnets.size} subnets`);
+
+  return { devicesBySubnet, learnedSubnets: Array.from(learnedSubnets), visited };
+}
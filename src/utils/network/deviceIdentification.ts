@@ -299,3 +299,47 @@ export function determineDeviceCategory(sysDescr: string, sysObjectID: string, e
   
   return category;
 }
+
+// Classify a device seen as an LLDP/CDP neighbor, e.g. the phones and APs hanging off access ports
+export function determineNeighborDeviceType(neighbor: {
+  platform?: string | null;
+  remoteSysName?: string | null;
+  remoteCapabilities?: string[] | null;
+}): "AP" | "Phone" | "Switch" | "Router" | "Other" {
+  // CDP platform strings are the most specific hint, so check them before capabilities
+  const platform = (neighbor.platform || "").toLowerCase();
+  const sysName = (neighbor.remoteSysName || "").toLowerCase();
+  
+  if (platform.includes("phone") ||
+      /^(cisco )?cp-\d/.test(platform) ||
+      platform.includes("polycom") ||
+      /^sep[0-9a-f]{12}/.test(sysName)) { // Cisco phones report SEP<mac> as their device ID
+    return "Phone";
+  }
+  
+  if (platform.includes("air-") ||
+      platform.includes("aironet") ||
+      platform.includes("access point") ||
+      /\bc91[0-9]{2}ax/.test(platform) ||
+      /\bmr\d+/.test(platform)) {
+    return "AP";
+  }
+  
+  if (platform.includes("ws-c") ||
+      platform.includes("catalyst") ||
+      platform.includes("nexus") ||
+      /\bc9[235]00/.test(platform)) {
+    return "Switch";
+  }
+  
+  if (platform.includes("isr") || platform.includes("asr") || /\bc8[0-9]{2,3}\b/.test(platform)) {
+    return "Router";
+  }
+  
+  const capabilities = neighbor.remoteCapabilities || [];
+  if (capabilities.includes("wlanAccessPoint")) return "AP";
+  if (capabilities.includes("telephone")) return "Phone";
+  if (capabilities.includes("bridge")) return "Switch";
+  if (capabilities.includes("router")) return "Router";
+  return "Other";
+}
@@ -1,5 +1,5 @@
 
-import { DiscoveredVlan } from "@/types/network";
+import { DiscoveredVlan, SnmpV3Credentials } from "@/types/network";
 import { supabase } from "@/integrations/supabase/client";
 import { discoverVlans } from "./vlanDiscovery";
 
@@ -12,7 +12,8 @@ export async function getVlansFromSwitch(
   version: "1" | "2c" | "3" = "2c",
   siteId: string,
   userId: string,
-  updateProgress?: (message: string, progress: number) => void
+  updateProgress?: (message: string, progress: number) => void,
+  v3?: SnmpV3Credentials
 ): Promise<DiscoveredVlan[]> {
   try {
     console.log(`Getting VLANs from switch ${ip} for site ${siteId}...`);
@@ -22,7 +23,7 @@ export async function getVlansFromSwitch(
     }
     
     // Discover VLANs from the switch
-    const { vlans, deviceHostname } = await discoverVlans(ip, community, version);
+    const { vlans, deviceHostname } = await discoverVlans(ip, community, version, undefined, v3);
     
     if (updateProgress) {
       updateProgress(`Discovered ${vlans.length} VLANs, saving to database...`, 50);
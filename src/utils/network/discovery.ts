@@ -1,10 +1,17 @@
 
-import { DiscoveredDevice } from "@/types/network";
+import { DeviceNeighbor, DiscoveredDevice, SnmpConnectionDetails } from "@/types/network";
 import * as ipUtils from "./ipUtils";
 import * as deviceIdentification from "./deviceIdentification";
 import { scanNetworkDevice } from "./scanStrategies";
 import { getDeviceInfoViaSNMP, discoverMacAddresses } from "./snmpDiscovery";
 import { discoverVlans } from "./vlanDiscovery";
+import { discoverNeighbors, mergeNeighbors } from "./neighborDiscovery";
+import { discoverArpEntries } from "./arpDiscovery";
+import { discoverPoe } from "./poeDiscovery";
+import { discoverInterfaces } from "./interfaceDiscovery";
+import { discoverEntities } from "./entityDiscovery";
+import { discoverPortVlans } from "./portVlanDiscovery";
+import { DEFAULT_SNMP_CONNECTION } from "./snmpCredentials";
 
 /**
  * Run discovery on a specific IP address
@@ -16,13 +23,14 @@ export async function discoverIP(
   backendConnected: boolean = false,
   userId?: string,
   siteId?: string,
-  subnetId?: string
+  subnetId?: string,
+  snmp: SnmpConnectionDetails = DEFAULT_SNMP_CONNECTION
 ): Promise<DiscoveredDevice | null> {
   try {
     console.log(`Discovering IP: ${ipAddress}`);
     
     // Initial device scan with connectivity test
-    const initialScan = await scanNetworkDevice(ipAddress, updateProgress);
+    const initialScan = await scanNetworkDevice(ipAddress, updateProgress, snmp);
     if (!initialScan.isReachable) {
       console.log(`Device ${ipAddress} is not reachable`);
       return null;
@@ -46,7 +54,7 @@ export async function discoverIP(
         updateProgress(`Getting detailed device information via SNMP for ${ipAddress}...`, 25);
       }
       
-      const deviceInfo = await getDeviceInfoViaSNMP(ipAddress, updateProgress, backendConnected);
+      const deviceInfo = await getDeviceInfoViaSNMP(ipAddress, updateProgress, backendConnected, snmp);
       
       if (deviceInfo && !deviceInfo.error) {
         // The hostname from SNMP (sysName) is given highest preference
@@ -55,6 +63,8 @@ export async function discoverIP(
         discoveredDevice.model = deviceInfo.model || null;
         discoveredDevice.category = deviceInfo.category || null;
         discoveredDevice.sysDescr = deviceInfo.sysDescr || null;
+        discoveredDevice.sysObjectID = deviceInfo.sysObjectID || null;
+        discoveredDevice.location = deviceInfo.location || null;
         
         console.log(`SNMP discovery details for ${ipAddress}:`, {
           hostname: deviceInfo.hostname,
@@ -71,10 +81,14 @@ export async function discoverIP(
             updateProgress(`Found network device at ${ipAddress}. Discovering VLANs...`, 40);
           }
           
+          // CDP neighbors come back with the VTP walk on Cisco devices
+          let cdpNeighbors: DeviceNeighbor[] = [];
+          
           try {
             // Discover VLANs on the switch first
-            const { vlans } = await discoverVlans(ipAddress);
+            const { vlans, neighbors: vlanNeighbors } = await discoverVlans(ipAddress, snmp.community, snmp.version, deviceInfo.make || undefined, snmp.v3);
             const vlanIds = vlans.map(vlan => vlan.vlanId);
+            cdpNeighbors = vlanNeighbors || [];
             
             console.log(`Discovered ${vlanIds.length} VLANs on ${ipAddress}: ${vlanIds.join(', ')}`);
             
@@ -86,13 +100,15 @@ export async function discoverIP(
               // Discover MAC addresses using the VLANs
               const { macAddresses } = await discoverMacAddresses(
                 ipAddress, 
-                'public', 
-                '2c', 
+                snmp.community, 
+                snmp.version, 
                 vlanIds, 
                 updateProgress,
                 siteId,
                 subnetId,
-                userId
+                userId,
+                snmp.v3,
+                deviceInfo.make || undefined
               );
               
               console.log(`Discovered ${macAddresses.length} MAC addresses on ${ipAddress}`);
@@ -106,6 +122,71 @@ export async function discoverIP(
           } catch (error) {
             console.error(`Error discovering VLANs/MACs on ${ipAddress}:`, error);
           }
+          
+          // Record which switches, APs and phones hang off which ports
+          if (updateProgress) {
+            updateProgress(`Discovering LLDP/CDP neighbors on ${ipAddress}...`, 60);
+          }
+          
+          const neighbors = mergeNeighbors(
+            await discoverNeighbors(ipAddress, snmp.community, snmp.version, snmp.v3, cdpNeighbors.length > 0 ? ["lldp"] : ["lldp", "cdp"]),
+            cdpNeighbors
+          );
+          if (neighbors.length > 0) {
+            discoveredDevice.neighbors = neighbors;
+          }
+          
+          // Routers and L3 switches know which IP each endpoint MAC is using
+          if (updateProgress) {
+            updateProgress(`Harvesting ARP entries on ${ipAddress}...`, 65);
+          }
+          
+          const arpEntries = await discoverArpEntries(ipAddress, snmp);
+          if (arpEntries.length > 0) {
+            discoveredDevice.arpEntries = arpEntries;
+          }
+          
+          // Port counts, speeds and descriptions of the hardware being replaced
+          if (updateProgress) {
+            updateProgress(`Collecting interface inventory on ${ipAddress}...`, 68);
+          }
+          
+          const interfaces = await discoverInterfaces(ipAddress, snmp);
+          if (interfaces.length > 0) {
+            discoveredDevice.interfaces = interfaces;
+          }
+          
+          // Stack members, line cards and serial numbers for the asset list
+          if (updateProgress) {
+            updateProgress(`Collecting hardware inventory on ${ipAddress}...`, 69);
+          }
+          
+          const entities = await discoverEntities(ipAddress, snmp);
+          if (entities.length > 0) {
+            discoveredDevice.entities = entities;
+          }
+          
+          // Port power draw and budgets size the replacement switches
+          if (deviceInfo.category === 'Switch') {
+            if (updateProgress) {
+              updateProgress(`Collecting PoE inventory on ${ipAddress}...`, 70);
+            }
+            
+            const poe = await discoverPoe(ipAddress, snmp);
+            if (poe) {
+              discoveredDevice.poe = poe;
+            }
+            
+            // Trunks, native VLANs and voice VLANs decide which segments each port needs
+            if (updateProgress) {
+              updateProgress(`Collecting port VLANs on ${ipAddress}...`, 71);
+            }
+            
+            const portVlans = await discoverPortVlans(ipAddress, snmp);
+            if (portVlans.length > 0) {
+              discoveredDevice.portVlans = portVlans;
+            }
+          }
         } else {
           console.log(`Device at ${ipAddress} is not a network device (category: ${deviceInfo.category})`);
         }
@@ -135,7 +216,8 @@ export async function discoverDevicesInSubnet(
   backendConnected: boolean = false,
   userId?: string,
   siteId?: string, 
-  subnetId?: string
+  subnetId?: string,
+  snmp: SnmpConnectionDetails = DEFAULT_SNMP_CONNECTION
 ): Promise<DiscoveredDevice[]> {
   try {
     console.log(`Starting discovery for subnet ${cidr}`);
@@ -156,7 +238,7 @@ export async function discoverDevicesInSubnet(
     for (let i = 0; i < ipAddresses.length; i += batchSize) {
       const batch = ipAddresses.slice(i, i + batchSize);
       const batchResults = await Promise.all(
-        batch.map(ip => discoverIP(ip, undefined, backendConnected, userId, siteId, subnetId))
+        batch.map(ip => discoverIP(ip, undefined, backendConnected, userId, siteId, subnetId, snmp))
       );
       
       processed += batch.length;
@@ -0,0 +1,339 @@
+import { ClassificationRuleData, DeviceLinkData, EndpointType, MacAddressData } from "@/types/network";
+import { supabase } from "@/integrations/supabase/client";
+import { fetchAllRows } from "../supabasePaging";
+import { normalizeMac } from "./arpDiscovery";
+
+/**
+ * Endpoint classification rules engine
+ * Each enabled rule whose pattern matches one of a MAC's signals adds evidence for its device type;
+ * the type with the most evidence wins and its combined weight becomes the confidence score
+ */
+
+export type ClassificationRule = Pick<ClassificationRuleData, "signal" | "pattern" | "device_type" | "weight" | "enabled">;
+
+export const ENDPOINT_TYPES: EndpointType[] = ["Phone", "Camera", "Printer", "IoT", "Workstation", "AP"];
+
+/**
+ * Signals gathered for one MAC address
+ */
+export interface EndpointSignals {
+  vendor?: string | null; // OUI registry organization
+  capabilities?: string[]; // LLDP/CDP capabilities and LLDP-MED device class of the MAC's own neighbor entry
+  neighbor?: string | null; // Neighbor sysName, platform and sysDescr
+  dhcpFingerprint?: string | null; // DHCP option 55/60 fingerprint, when a source provides one
+  port?: string | null; // Port name and description the MAC sits on
+}
+
+export interface EndpointClassification {
+  deviceType: EndpointType | "Unknown";
+  confidence: number; // 0-100
+  matchedRules: ClassificationRule[];
+}
+
+/**
+ * Rules used for sites that have not customized their own
+ */
+export const DEFAULT_CLASSIFICATION_RULES: ClassificationRule[] = [
+  // Neighbor advertisements are the strongest signal - the endpoint describes itself
+  { signal: "capability", pattern: "^telephone$|^endpointClass3$", device_type: "Phone", weight: 90, enabled: true },
+  { signal: "capability", pattern: "^wlanAccessPoint$", device_type: "AP", weight: 90, enabled: true },
+  { signal: "neighbor", pattern: "phone|^sep[0-9a-f]{12}|^cp-\\d", device_type: "Phone", weight: 85, enabled: true },
+  { signal: "neighbor", pattern: "air-|aironet|access point|^ap[0-9a-f]{4}", device_type: "AP", weight: 85, enabled: true },
+  { signal: "dhcp", pattern: "polycom|yealink|avaya|cisco.*phone|mitel", device_type: "Phone", weight: 80, enabled: true },
+  { signal: "dhcp", pattern: "laserjet|printer|jetdirect", device_type: "Printer", weight: 80, enabled: true },
+  { signal: "dhcp", pattern: "msft|dhcpcd|android", device_type: "Workstation", weight: 40, enabled: true },
+  // Vendors that mostly make one kind of endpoint
+  { signal: "vendor", pattern: "polycom|yealink|avaya|mitel|grandstream|snom|poly\\b", device_type: "Phone", weight: 70, enabled: true },
+  { signal: "vendor", pattern: "axis communications|hikvision|dahua|hanwha|vivotek|mobotix|avigilon|verkada", device_type: "Camera", weight: 80, enabled: true },
+  { signal: "vendor", pattern: "lexmark|xerox|brother|canon|ricoh|kyocera|konica|epson|zebra|hp inc", device_type: "Printer", weight: 60, enabled: true },
+  { signal: "vendor", pattern: "aruba|ruckus|ubiquiti|meraki|mist systems|aerohive|cambium", device_type: "AP", weight: 50, enabled: true },
+  { signal: "vendor", pattern: "espressif|tuya|raspberry pi|nest labs|ecobee|signify|sonos|honeywell|johnson controls", device_type: "IoT", weight: 60, enabled: true },
+  { signal: "vendor", pattern: "dell|lenovo|intel corporate|apple|microsoft|asustek|micro-star|gigabyte|realtek", device_type: "Workstation", weight: 50, enabled: true },
+  // Port names and descriptions are hand-maintained, so weigh them lower
+  { signal: "port", pattern: "print|prn", device_type: "Printer", weight: 50, enabled: true },
+  { signal: "port", pattern: "cam|cctv|video", device_type: "Camera", weight: 50, enabled: true },
+  { signal: "port", pattern: "phone|voip|voice", device_type: "Phone", weight: 40, enabled: true },
+  { signal: "port", pattern: "\\bw?ap\\d*\\b|wifi|wireless", device_type: "AP", weight: 50, enabled: true }
+];
+
+const patternCache = new Map<string, RegExp | null>();
+
+/**
+ * Compile a rule pattern as a case-insensitive regular expression, or null when it is invalid
+ */
+export function compileRulePattern(pattern: string): RegExp | null {
+  if (!patternCache.has(pattern)) {
+    try {
+      patternCache.set(pattern, new RegExp(pattern, "i"));
+    } catch {
+      patternCache.set(pattern, null);
+    }
+  }
+  return patternCache.get(pattern)!;
+}
+
+function getSignalValues(signals: EndpointSignals, rule: ClassificationRule): string[] {
+  switch (rule.signal) {
+    case "vendor":
+      return signals.vendor ? [signals.vendor] : [];
+    case "capability":
+      return signals.capabilities || [];
+    case "neighbor":
+      return signals.neighbor ? [signals.neighbor] : [];
+    case "dhcp":
+      return signals.dhcpFingerprint ? [signals.dhcpFingerprint] : [];
+    case "port":
+      return signals.port ? [signals.port] : [];
+    default:
+      return [];
+  }
+}
+
+/**
+ * Classify an endpoint from its signals
+ * Matches for the same type combine as independent evidence (1 - (1 - w1)(1 - w2)...);
+ * matches for competing types scale the winner's confidence down by its share of the total
+ */
+export function classifyEndpoint(signals: EndpointSignals, rules: ClassificationRule[]): EndpointClassification {
+  const scores = new Map<EndpointType, number>();
+  const matchedRules: ClassificationRule[] = [];
+
+  for (const rule of rules) {
+    if (!rule.enabled) continue;
+    const regex = compileRulePattern(rule.pattern);
+    if (!regex || !getSignalValues(signals, rule).some(value => regex.test(value))) continue;
+
+    const previous = scores.get(rule.device_type) || 0;
+    scores.set(rule.device_type, 1 - (1 - previous) * (1 - Math.min(rule.weight, 100) / 100));
+    matchedRules.push(rule);
+  }
+
+  let best: EndpointType | null = null;
+  let bestScore = 0;
+  let total = 0;
+  for (const [type, score] of scores) {
+    total += score;
+    if (score > bestScore) {
+      best = type;
+      bestScore = score;
+    }
+  }
+
+  if (!best) {
+    return { deviceType: "Unknown", confidence: 0, matchedRules };
+  }
+
+  return {
+    deviceType: best,
+    confidence: Math.round(100 * bestScore * (bestScore / total)),
+    matchedRules: matchedRules.filter(rule => rule.device_type === best)
+  };
+}
+
+/**
+ * Human-readable summary of why a MAC was classified the way it was, for tooltips
+ */
+export function describeClassification(classification: EndpointClassification): string {
+  if (classification.matchedRules.length === 0) {
+    return "No classification rule matched";
+  }
+  return classification.matchedRules
+    .map(rule => `${rule.signal} ~ /${rule.pattern}/ (${rule.weight})`)
+    .join("\n");
+}
+
+/**
+ * Load a site's classification rules, falling back to the defaults when the site has none
+ * Throws when the rules cannot be read, so a failed read never silently classifies with the defaults
+ */
+export async function getClassificationRules(
+  siteId: string
+): Promise<{ rules: ClassificationRule[]; isDefault: boolean }> {
+  const { data, error } = await supabase
+    .from('classification_rules')
+    .select('*')
+    .eq('site_id', siteId)
+    .order('position', { ascending: true });
+
+  if (error) {
+    console.error(`Error loading classification rules for site ${siteId}:`, error);
+    throw new Error(`Failed to load classification rules: ${error.message}`);
+  }
+
+  if (!data || data.length === 0) {
+    return { rules: DEFAULT_CLASSIFICATION_RULES, isDefault: true };
+  }
+
+  return { rules: data as ClassificationRuleData[], isDefault: false };
+}
+
+/**
+ * Replace a site's classification rules, keeping the given order
+ */
+export async function saveClassificationRules(
+  siteId: string,
+  userId: string,
+  rules: ClassificationRule[]
+): Promise<void> {
+  const { error: deleteError } = await supabase
+    .from('classification_rules')
+    .delete()
+    .eq('site_id', siteId);
+
+  if (deleteError) {
+    console.error(`Error clearing classification rules for site ${siteId}:`, deleteError);
+    throw new Error(`Failed to save classification rules: ${deleteError.message}`);
+  }
+
+  if (rules.length === 0) return;
+
+  const { error } = await supabase
+    .from('classification_rules')
+    .insert(rules.map((rule, index) => ({
+      site_id: siteId,
+      user_id: userId,
+      signal: rule.signal,
+      pattern: rule.pattern,
+      device_type: rule.device_type,
+      weight: rule.weight,
+      enabled: rule.enabled,
+      position: index
+    })));
+
+  if (error) {
+    console.error(`Error saving classification rules for site ${siteId}:`, error);
+    throw new Error(`Failed to save classification rules: ${error.message}`);
+  }
+}
+
+/**
+ * Drop a site's custom rules so it goes back to the defaults
+ */
+export async function resetClassificationRules(siteId: string): Promise<void> {
+  const { error } = await supabase
+    .from('classification_rules')
+    .delete()
+    .eq('site_id', siteId);
+
+  if (error) {
+    console.error(`Error resetting classification rules for site ${siteId}:`, error);
+    throw new Error(`Failed to reset classification rules: ${error.message}`);
+  }
+}
+
+/**
+ * Load a site's neighbor links and return a lookup of the neighbor entry advertised by an endpoint itself
+ * Endpoints are matched on their LLDP chassis ID (phones and APs usually send their MAC) or management IP,
+ * never on the port alone - a PC daisy-chained behind a phone shares the phone's port
+ */
+export async function getEndpointNeighborLookup(
+  siteId: string
+): Promise<(macAddress: string, ipAddress?: string) => DeviceLinkData | undefined> {
+  const data = await fetchAllRows<DeviceLinkData>((from, to) => supabase
+    .from('device_links')
+    .select('*')
+    .eq('site_id', siteId)
+    .order('id', { ascending: true })
+    .range(from, to)
+  ).catch(error => {
+    console.error(`Error loading neighbor links for site ${siteId}:`, error);
+    return [] as DeviceLinkData[];
+  });
+
+  const linksByMac = new Map<string, DeviceLinkData>();
+  const linksByIp = new Map<string, DeviceLinkData>();
+  for (const link of data) {
+    const chassisId = normalizeMac(link.remote_chassis_id || "");
+    if (chassisId.length === 12) {
+      linksByMac.set(chassisId, link);
+    }
+    if (link.remote_management_address) {
+      linksByIp.set(link.remote_management_address, link);
+    }
+  }
+
+  return (macAddress, ipAddress) =>
+    linksByMac.get(normalizeMac(macAddress)) || (ipAddress ? linksByIp.get(ipAddress) : undefined);
+}
+
+/**
+ * Gather the classification signals for a MAC from its vendor, its own neighbor entry and its port
+ */
+export function buildEndpointSignals(
+  mac: { vendor?: string | null; port?: string | null; portDescription?: string | null; dhcpFingerprint?: string | null },
+  neighbor?: DeviceLinkData
+): EndpointSignals {
+  return {
+    vendor: mac.vendor,
+    capabilities: neighbor
+      ? [...(neighbor.remote_capabilities || []), ...(neighbor.med_device_class ? [neighbor.med_device_class] : [])]
+      : [],
+    neighbor: neighbor
+      ? [neighbor.remote_sys_name, neighbor.platform, neighbor.remote_sys_description].filter(Boolean).join(" ")
+      : null,
+    dhcpFingerprint: mac.dhcpFingerprint,
+    port: [mac.port, mac.portDescription].filter(Boolean).join(" ") || null
+  };
+}
+
+/**
+ * Load a site's rules and neighbor links and return a classifier for its MAC addresses
+ */
+export async function getEndpointClassifier(
+  siteId: string
+): Promise<(mac: { macAddress: string; ipAddress?: string; vendor?: string | null; port?: string | null; portDescription?: string | null }) => EndpointClassification> {
+  const { rules } = await getClassificationRules(siteId);
+  const findNeighbor = await getEndpointNeighborLookup(siteId);
+
+  return (mac) => classifyEndpoint(buildEndpointSignals(mac, findNeighbor(mac.macAddress, mac.ipAddress)), rules);
+}
+
+/**
+ * Store classification results in mac_addresses.device_type and device_type_confidence
+ * Only rows whose stored type or confidence differs are written, in a single upsert keyed on id
+ * @returns Number of rows changed and number that failed to save
+ */
+export async function saveEndpointClassifications(
+  siteId: string,
+  classifications: { macAddress: string; vlanId: number; deviceType: string; confidence: number }[]
+): Promise<{ changed: number; errorCount: number }> {
+  let stored: MacAddressData[];
+  try {
+    stored = await fetchAllRows<MacAddressData>((from, to) => supabase
+      .from('mac_addresses')
+      .select('*')
+      .eq('site_id', siteId)
+      .order('id', { ascending: true })
+      .range(from, to));
+  } catch (error) {
+    console.error(`Error loading stored MAC addresses for site ${siteId}:`, error);
+    return { changed: classifications.length, errorCount: classifications.length };
+  }
+
+  const storedByKey = new Map(stored.map(row => [`${normalizeMac(row.mac_address)}|${row.vlan_id}`, row]));
+  const updates = classifications
+    .map(classification => {
+      const row = storedByKey.get(`${normalizeMac(classification.macAddress)}|${classification.vlanId}`);
+      if (!row || (row.device_type === classification.deviceType && row.device_type_confidence === classification.confidence)) {
+        return null;
+      }
+      // An upsert checks NOT NULL columns before it resolves the id conflict, so the stored row goes back whole
+      return { ...row, device_type: classification.deviceType, device_type_confidence: classification.confidence };
+    })
+    .filter((row): row is MacAddressData => row !== null);
+
+  if (updates.length === 0) {
+    return { changed: 0, errorCount: 0 };
+  }
+
+  const { error } = await supabase
+    .from('mac_addresses')
+    .upsert(updates, { onConflict: 'id' });
+
+  if (error) {
+    console.error(`Error saving endpoint classifications for site ${siteId}:`, error);
+    return { changed: updates.length, errorCount: updates.length };
+  }
+  console.log(`Saved ${updates.length} endpoint classifications for site ${siteId}`);
+  return { changed: updates.length, errorCount: 0 };
+}
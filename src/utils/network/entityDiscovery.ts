@@ -0,0 +1,103 @@
+import { DeviceEntityData, DiscoveredEntity, SnmpConnectionDetails } from "@/types/network";
+import { callBackendApi } from "../apiClient";
+
+// Entity classes that are tracked as assets - ports, sensors and containers (empty slots) are not
+const ASSET_CLASSES = ["chassis", "module", "powerSupply", "fan"];
+
+/**
+ * Discover a device's physical inventory (entPhysicalTable) via the backend agent
+ */
+export async function discoverEntities(
+  ip: string,
+  snmp: SnmpConnectionDetails
+): Promise<DiscoveredEntity[]> {
+  try {
+    console.log(`Discovering hardware inventory on ${ip}...`);
+    const result = await callBackendApi("/snmp/discover-entities", {
+      ip,
+      community: snmp.community,
+      version: snmp.version,
+      v3: snmp.v3
+    });
+
+    if (!result || !Array.isArray(result.entities)) {
+      console.warn(`Invalid entity discovery response from ${ip}:`, result);
+      return [];
+    }
+
+    console.log(`Found ${result.entities.length} physical entities on ${ip}`);
+    return result.entities;
+  } catch (error) {
+    console.error(`Error discovering hardware inventory on ${ip}:`, error);
+    return [];
+  }
+}
+
+/**
+ * Whether an entity is a trackable asset (chassis, line card, power supply or fan)
+ * Modules without a serial number are usually built-in and not tracked separately
+ */
+export function isAssetEntity(entity: DeviceEntityData): boolean {
+  if (!ASSET_CLASSES.includes(entity.entity_class)) return false;
+  return entity.entity_class === "chassis" || !!entity.serial_number;
+}
+
+/**
+ * The chassis an entity is installed in, following contained_in up the tree
+ * Returns the entity itself for a chassis, or null when it is not inside one
+ */
+export function getParentChassis(entity: DeviceEntityData, entities: DeviceEntityData[]): DeviceEntityData | null {
+  const byIndex = new Map(entities.map(item => [item.ent_index, item]));
+  const visited = new Set<number>();
+  let current: DeviceEntityData | undefined = entity;
+
+  while (current && !visited.has(current.ent_index)) {
+    if (current.entity_class === "chassis") return current;
+    visited.add(current.ent_index);
+    current = current.contained_in !== null ? byIndex.get(current.contained_in) : undefined;
+  }
+  return null;
+}
+
+/**
+ * Label for a chassis - "Member 2" inside a stack, otherwise its name
+ */
+export function getChassisLabel(chassis: DeviceEntityData, entities: DeviceEntityData[]): string {
+  const parent = entities.find(item => item.ent_index === chassis.contained_in);
+  if (parent?.entity_class === "stack" && chassis.rel_pos !== null) {
+    return `Member ${chassis.rel_pos}`;
+  }
+  return chassis.name || chassis.description || `Chassis ${chassis.ent_index}`;
+}
+
+/**
+ * Build the asset list CSV (one row per chassis, line card, power supply and fan with a serial number)
+ */
+export function getAssetListCsv(
+  entities: DeviceEntityData[],
+  devices: { id: string; ipAddress: string; hostname: string }[]
+): string {
+  const escape = (value: string | null) => !value ? "" : /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+  let csvContent = "hostname,ip address,chassis,class,name,model,serial number,hardware rev,firmware rev,software rev,field replaceable\n";
+  devices.forEach(device => {
+    const deviceEntities = entities.filter(entity => entity.device_id === device.id);
+    deviceEntities.filter(isAssetEntity).forEach(entity => {
+      const chassis = getParentChassis(entity, deviceEntities);
+      csvContent += [
+        escape(device.hostname),
+        device.ipAddress,
+        escape(chassis ? getChassisLabel(chassis, deviceEntities) : null),
+        entity.entity_class,
+        escape(entity.name || entity.description),
+        escape(entity.model),
+        escape(entity.serial_number),
+        escape(entity.hardware_rev),
+        escape(entity.firmware_rev),
+        escape(entity.software_rev),
+        entity.is_fru ? "yes" : "no"
+      ].join(",") + "\n";
+    });
+  });
+  return csvContent;
+}
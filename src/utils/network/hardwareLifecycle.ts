@@ -0,0 +1,196 @@
+import { DeviceEntityData, EolCatalogEntryData } from "@/types/network";
+import { supabase } from "@/integrations/supabase/client";
+import { compileRulePattern } from "./endpointClassification";
+
+/**
+ * Hardware lifecycle: firmware versions and vendor end-of-life dates
+ * Device models (and the models of each stack member) are matched against an end-of-life catalog
+ * to find hardware that is out of support, no longer sold, or about to lose support
+ */
+
+export type EolCatalogEntry = Pick<EolCatalogEntryData, "vendor" | "model_pattern" | "end_of_sale" | "end_of_support" | "notes">;
+
+/**
+ * Lifecycle state of a device, worst first
+ * - unsupported: past the last date of support
+ * - supportEnding: support ends within SUPPORT_WARNING_DAYS
+ * - endOfSale: no longer sold, still supported
+ * - current: in the catalog, not yet end-of-sale
+ * - unknown: model not in the catalog
+ */
+export type LifecycleStatus = "unsupported" | "supportEnding" | "endOfSale" | "current" | "unknown";
+
+export const SUPPORT_WARNING_DAYS = 365;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Catalog used by users who have not customized their own
+ * Dates are the base-SKU dates from the vendor end-of-life bulletins; edit the catalog in the app for other SKUs
+ */
+export const DEFAULT_EOL_CATALOG: EolCatalogEntry[] = [
+  { vendor: "Cisco", model_pattern: "^WS-C3(750|560)E-", end_of_sale: "2012-01-30", end_of_support: "2017-01-31", notes: "Catalyst 3750-E / 3560-E" },
+  { vendor: "Cisco", model_pattern: "^WS-C3(750|560)X-", end_of_sale: "2016-10-30", end_of_support: "2021-10-31", notes: "Catalyst 3750-X / 3560-X" },
+  { vendor: "Cisco", model_pattern: "^WS-C3(650|850)-", end_of_sale: "2021-10-30", end_of_support: "2026-10-31", notes: "Catalyst 3650 / 3850" },
+  { vendor: "Cisco", model_pattern: "^WS-C2960XR?-", end_of_sale: "2022-10-30", end_of_support: "2027-10-31", notes: "Catalyst 2960-X / 2960-XR" }
+];
+
+// sysDescr version formats, most specific first
+const FIRMWARE_PATTERNS = [
+  /JUNOS\s+([0-9][\w.-]*)/i, // Juniper: "JUNOS 12.3R12.4"
+  /revision\s+([A-Z]{1,2}\.[0-9][\w.]*)/i, // HPE/Aruba ProCurve: "revision WC.16.10.0009"
+  /\b([A-Z]{2}\.[0-9]{2}\.[0-9]{2}\.[0-9]{4})\b/, // ArubaOS-CX: "FL.10.08.1010"
+  /\bVersion\s+([0-9][\w.()-]*)/i, // Cisco IOS, IOS-XE and NX-OS: "Version 15.2(4)E10"
+  /\b(?:ver\.?|v)\s*([0-9]+(?:\.[0-9][\w()-]*)+)/i
+];
+
+/**
+ * Parse the firmware version from a sysDescr string
+ */
+export function parseFirmwareVersion(sysDescr: string | null | undefined): string | null {
+  if (!sysDescr) return null;
+
+  for (const pattern of FIRMWARE_PATTERNS) {
+    const match = sysDescr.match(pattern);
+    if (match) {
+      return match[1].replace(/[,;]+$/, "");
+    }
+  }
+  return null;
+}
+
+/**
+ * Firmware version of a device - parsed from sysDescr, falling back to the chassis entPhysicalSoftwareRev
+ */
+export function getFirmwareVersion(sysDescr: string | null | undefined, entities: DeviceEntityData[]): string | null {
+  const parsed = parseFirmwareVersion(sysDescr);
+  if (parsed) return parsed;
+
+  const chassis = entities.find(entity => entity.entity_class === "chassis" && entity.software_rev);
+  return chassis?.software_rev || entities.find(entity => entity.software_rev)?.software_rev || null;
+}
+
+/**
+ * First catalog entry whose pattern matches the model
+ */
+export function findEolEntry(model: string | null | undefined, catalog: EolCatalogEntry[]): EolCatalogEntry | null {
+  if (!model) return null;
+  return catalog.find(entry => compileRulePattern(entry.model_pattern)?.test(model)) || null;
+}
+
+/**
+ * Lifecycle status of a catalog entry at a point in time
+ */
+export function getLifecycleStatus(entry: EolCatalogEntry | null, now: number = Date.now()): LifecycleStatus {
+  if (!entry) return "unknown";
+
+  const endOfSupport = entry.end_of_support ? Date.parse(entry.end_of_support) : null;
+  if (endOfSupport !== null && endOfSupport <= now) return "unsupported";
+  if (endOfSupport !== null && endOfSupport - now <= SUPPORT_WARNING_DAYS * DAY_MS) return "supportEnding";
+
+  const endOfSale = entry.end_of_sale ? Date.parse(entry.end_of_sale) : null;
+  if (endOfSale !== null && endOfSale <= now) return "endOfSale";
+  return "current";
+}
+
+const STATUS_ORDER: LifecycleStatus[] = ["unsupported", "supportEnding", "endOfSale", "current", "unknown"];
+
+export interface HardwareRisk {
+  model: string; // The model that set the status - a stack is as at-risk as its oldest member
+  entry: EolCatalogEntry | null;
+  status: LifecycleStatus;
+  firmware: string | null;
+}
+
+/**
+ * Assess one device against the catalog, using its own model and the model of every chassis in it
+ */
+export function assessDevice(
+  device: { model: string | null | undefined; sysDescr?: string | null },
+  entities: DeviceEntityData[],
+  catalog: EolCatalogEntry[],
+  now: number = Date.now()
+): HardwareRisk {
+  const models = Array.from(new Set(
+    [device.model, ...entities.filter(entity => entity.entity_class === "chassis").map(entity => entity.model)]
+      .filter((model): model is string => !!model)
+  ));
+
+  const assessments = models.map(model => {
+    const entry = findEolEntry(model, catalog);
+    return { model, entry, status: getLifecycleStatus(entry, now) };
+  });
+  assessments.sort((a, b) => STATUS_ORDER.indexOf(a.status) - STATUS_ORDER.indexOf(b.status));
+
+  const worst = assessments[0] || { model: device.model || "", entry: null, status: "unknown" as const };
+  return { ...worst, firmware: getFirmwareVersion(device.sysDescr, entities) };
+}
+
+/**
+ * Load the user's end-of-life catalog, falling back to the bundled one when they have none
+ */
+export async function getEolCatalog(): Promise<{ catalog: EolCatalogEntry[]; isDefault: boolean }> {
+  const { data, error } = await supabase
+    .from('eol_catalog')
+    .select('*')
+    .order('position', { ascending: true });
+
+  if (error) {
+    console.error("Error loading EoL catalog:", error);
+  }
+
+  if (!data || data.length === 0) {
+    return { catalog: DEFAULT_EOL_CATALOG, isDefault: true };
+  }
+
+  return { catalog: data as EolCatalogEntryData[], isDefault: false };
+}
+
+/**
+ * Replace the user's end-of-life catalog, keeping the given order
+ */
+export async function saveEolCatalog(userId: string, catalog: EolCatalogEntry[]): Promise<void> {
+  const { error: deleteError } = await supabase
+    .from('eol_catalog')
+    .delete()
+    .eq('user_id', userId);
+
+  if (deleteError) {
+    console.error("Error clearing EoL catalog:", deleteError);
+    throw new Error(`Failed to save EoL catalog: ${deleteError.message}`);
+  }
+
+  if (catalog.length === 0) return;
+
+  const { error } = await supabase
+    .from('eol_catalog')
+    .insert(catalog.map((entry, index) => ({
+      user_id: userId,
+      vendor: entry.vendor,
+      model_pattern: entry.model_pattern,
+      end_of_sale: entry.end_of_sale || null,
+      end_of_support: entry.end_of_support || null,
+      notes: entry.notes || null,
+      position: index
+    })));
+
+  if (error) {
+    console.error("Error saving EoL catalog:", error);
+    throw new Error(`Failed to save EoL catalog: ${error.message}`);
+  }
+}
+
+/**
+ * Drop the user's catalog so they go back to the bundled one
+ */
+export async function resetEolCatalog(userId: string): Promise<void> {
+  const { error } = await supabase
+    .from('eol_catalog')
+    .delete()
+    .eq('user_id', userId);
+
+  if (error) {
+    console.error("Error resetting EoL catalog:", error);
+    throw new Error(`Failed to reset EoL catalog: ${error.message}`);
+  }
+}
@@ -0,0 +1,174 @@
+import { DeviceEntityData, IdentificationRuleData, IdentificationRuleType } from "@/types/network";
+import { supabase } from "@/integrations/supabase/client";
+import { fetchAllRows } from "../supabasePaging";
+import { getManufacturerFromOID, parseModelFromSNMP } from "./deviceIdentification";
+
+/**
+ * User-defined sysObjectID identification rules
+ * Vendor rules map an enterprise OID prefix to a vendor and model rules map a sysObjectID to a model.
+ * When several rules match, the longest prefix wins; with none, vendors fall back to the built-in
+ * OID_MANUFACTURER_MAP and models to ENTITY-MIB and sysDescr parsing
+ */
+
+export type IdentificationRule = Pick<IdentificationRuleData, "rule_type" | "oid_prefix" | "value">;
+
+let rulesPromise: Promise<IdentificationRule[]> | null = null;
+
+/**
+ * Normalize an OID as "1.3.6.1..." - agents and users write it with a leading dot, "iso." or a trailing dot
+ */
+export function normalizeOid(oid: string): string {
+  return oid.trim().replace(/^iso\./i, "1.").replace(/^\.+|\.+$/g, "");
+}
+
+export function isValidOidPrefix(prefix: string): boolean {
+  return /^\d+(\.\d+)*$/.test(normalizeOid(prefix));
+}
+
+/**
+ * The most specific rule of a type whose prefix is the sysObjectID or one of its ancestors
+ */
+export function findIdentificationRule(
+  ruleType: IdentificationRuleType,
+  sysObjectID: string | null | undefined,
+  rules: IdentificationRule[]
+): IdentificationRule | null {
+  if (!sysObjectID) return null;
+  const oid = normalizeOid(sysObjectID);
+
+  return rules
+    .filter(rule => rule.rule_type === ruleType && rule.value)
+    .filter(rule => {
+      const prefix = normalizeOid(rule.oid_prefix);
+      return prefix && (oid === prefix || oid.startsWith(`${prefix}.`));
+    })
+    .sort((a, b) => normalizeOid(b.oid_prefix).length - normalizeOid(a.oid_prefix).length)[0] || null;
+}
+
+/**
+ * Load the user's identification rules once; later calls reuse them until the rules are saved
+ */
+export function loadIdentificationRules(): Promise<IdentificationRule[]> {
+  if (!rulesPromise) {
+    rulesPromise = getIdentificationRules().catch(error => {
+      console.error("Error loading identification rules:", error);
+      // Allow a retry on the next call instead of caching the failure
+      rulesPromise = null;
+      return [];
+    });
+  }
+  return rulesPromise;
+}
+
+/**
+ * Load the user's identification rules in their saved order
+ */
+export async function getIdentificationRules(): Promise<IdentificationRule[]> {
+  const { data, error } = await supabase
+    .from('identification_rules')
+    .select('*')
+    .order('position', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load identification rules: ${error.message}`);
+  }
+
+  return (data || []) as IdentificationRuleData[];
+}
+
+/**
+ * Replace the user's identification rules, keeping the given order
+ */
+export async function saveIdentificationRules(userId: string, rules: IdentificationRule[]): Promise<void> {
+  rulesPromise = null;
+
+  const { error: deleteError } = await supabase
+    .from('identification_rules')
+    .delete()
+    .eq('user_id', userId);
+
+  if (deleteError) {
+    console.error("Error clearing identification rules:", deleteError);
+    throw new Error(`Failed to save identification rules: ${deleteError.message}`);
+  }
+
+  if (rules.length === 0) return;
+
+  const { error } = await supabase
+    .from('identification_rules')
+    .insert(rules.map((rule, index) => ({
+      user_id: userId,
+      rule_type: rule.rule_type,
+      oid_prefix: normalizeOid(rule.oid_prefix),
+      value: rule.value.trim(),
+      position: index
+    })));
+
+  if (error) {
+    console.error("Error saving identification rules:", error);
+    throw new Error(`Failed to save identification rules: ${error.message}`);
+  }
+}
+
+/**
+ * Re-run vendor and model identification on every stored device that has a sysObjectID
+ * Without a matching model rule the model falls back the way discovery does - the stored ENTITY-MIB chassis
+ * model, then sysDescr parsing - so a removed or corrected rule does not leave its model behind
+ * @returns The number of devices whose make or model changed
+ */
+export async function reidentifyDevices(rules: IdentificationRule[]): Promise<number> {
+  const { data: devices, error } = await supabase
+    .from('devices')
+    .select('id, make, model, sysobjectid, sysdescr')
+    .not('sysobjectid', 'is', null);
+
+  if (error) {
+    console.error("Error loading devices for re-identification:", error);
+    throw new Error(`Failed to re-identify devices: ${error.message}`);
+  }
+
+  const chassisModels = new Map<string, string>();
+  try {
+    const chassis = await fetchAllRows<Pick<DeviceEntityData, "device_id" | "model">>((from, to) => supabase
+      .from('device_entities')
+      .select('device_id, model')
+      .eq('entity_class', 'chassis')
+      .not('model', 'is', null)
+      .order('device_id', { ascending: true })
+      .order('ent_index', { ascending: true })
+      .range(from, to));
+    // The first chassis of a stack is the one discovery reads its model from
+    chassis.forEach(entity => {
+      if (!chassisModels.has(entity.device_id)) chassisModels.set(entity.device_id, entity.model);
+    });
+  } catch (entityError) {
+    console.error("Error loading chassis models for re-identification:", entityError);
+  }
+
+  let updatedCount = 0;
+  for (const device of devices || []) {
+    const make = findIdentificationRule("vendor", device.sysobjectid, rules)?.value
+      || getManufacturerFromOID(normalizeOid(device.sysobjectid))
+      || device.make;
+    const model = findIdentificationRule("model", device.sysobjectid, rules)?.value
+      || chassisModels.get(device.id)
+      || parseModelFromSNMP(device.sysdescr || "", make)
+      || device.model;
+
+    if (make === device.make && model === device.model) continue;
+
+    const { error: updateError } = await supabase
+      .from('devices')
+      .update({ make, model })
+      .eq('id', device.id);
+
+    if (updateError) {
+      console.error(`Error re-identifying device ${device.id}:`, updateError);
+    } else {
+      updatedCount++;
+    }
+  }
+
+  console.log(`Re-identified ${updatedCount} of ${devices?.length || 0} devices`);
+  return updatedCount;
+}
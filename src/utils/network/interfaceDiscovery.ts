@@ -0,0 +1,88 @@
+import { DeviceInterfaceData, DiscoveredInterface, SnmpConnectionDetails } from "@/types/network";
+import { supabase } from "@/integrations/supabase/client";
+import { callBackendApi } from "../apiClient";
+import { fetchAllRows } from "../supabasePaging";
+
+// IANAifType values for switch ports: ethernetCsmacd, gigabitEthernet (obsolete but still reported), fibreChannel
+const PHYSICAL_PORT_TYPES = [6, 117, 56];
+
+/**
+ * Discover a device's interfaces (ifTable/ifXTable) via the backend agent
+ */
+export async function discoverInterfaces(
+  ip: string,
+  snmp: SnmpConnectionDetails
+): Promise<DiscoveredInterface[]> {
+  try {
+    console.log(`Discovering interfaces on ${ip}...`);
+    const result = await callBackendApi("/snmp/discover-interfaces", {
+      ip,
+      community: snmp.community,
+      version: snmp.version,
+      v3: snmp.v3
+    });
+
+    if (!result || !Array.isArray(result.interfaces)) {
+      console.warn(`Invalid interface discovery response from ${ip}:`, result);
+      return [];
+    }
+
+    console.log(`Found ${result.interfaces.length} interfaces on ${ip}`);
+    return result.interfaces;
+  } catch (error) {
+    console.error(`Error discovering interfaces on ${ip}:`, error);
+    return [];
+  }
+}
+
+/**
+ * Load the stored interface inventory of a device, in ifIndex order
+ */
+export async function getDeviceInterfaces(deviceId: string): Promise<DeviceInterfaceData[]> {
+  const { data, error } = await supabase
+    .from('device_interfaces')
+    .select('*')
+    .eq('device_id', deviceId)
+    .order('if_index', { ascending: true });
+
+  if (error) {
+    console.error(`Error loading interfaces for device ${deviceId}:`, error);
+    throw new Error(`Failed to load interfaces: ${error.message}`);
+  }
+
+  return data || [];
+}
+
+/**
+ * Load the stored interface inventory of every device in a site
+ * Paged, since every ifTable row is kept and a site passes the per-select row cap after a dozen switches
+ */
+export async function getSiteInterfaces(siteId: string): Promise<DeviceInterfaceData[]> {
+  try {
+    return await fetchAllRows<DeviceInterfaceData>((from, to) => supabase
+      .from('device_interfaces')
+      .select('*')
+      .eq('site_id', siteId)
+      .order('device_id', { ascending: true })
+      .order('if_index', { ascending: true })
+      .range(from, to));
+  } catch (error) {
+    console.error(`Error loading interfaces for site ${siteId}:`, error);
+    throw new Error(`Failed to load interfaces: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+/**
+ * Physical switch ports, as opposed to VLAN interfaces, port-channels, loopbacks and tunnels
+ */
+export function isPhysicalInterface(ifType: number | null): boolean {
+  return ifType !== null && PHYSICAL_PORT_TYPES.includes(ifType);
+}
+
+/**
+ * Format an interface speed in Mbps as "100M", "1G", "10G", ...
+ */
+export function formatInterfaceSpeed(speedMbps: number | null): string {
+  if (!speedMbps) return "—";
+  return speedMbps >= 1000 ? `${speedMbps / 1000}G` : `${speedMbps}M`;
+}
@@ -37,6 +37,25 @@ export function isInSameSubnet(ip1: string, ip2: string, maskBits: number): bool
   return (ip1Long & mask) === (ip2Long & mask);
 }
 
+// Check if an IP falls inside a CIDR block
+export function isIpInCidr(ip: string, cidr: string): boolean {
+  const { baseIP, maskBits } = parseCIDR(cidr);
+  if (isNaN(maskBits)) return ip === baseIP;
+  if (maskBits === 0) return true;
+  return isInSameSubnet(ip, baseIP, maskBits);
+}
+
+// Find the most specific CIDR containing an IP (longest prefix match)
+export function findContainingCidr(ip: string, cidrs: string[]): string | null {
+  let best: string | null = null;
+  for (const cidr of cidrs) {
+    if (isIpInCidr(ip, cidr) && (!best || parseCIDR(cidr).maskBits > parseCIDR(best).maskBits)) {
+      best = cidr;
+    }
+  }
+  return best;
+}
+
 // Get all host IP addresses in a subnet
 export function getHostsInSubnet(cidr: string): string[] {
   const { baseIP, maskBits } = parseCIDR(cidr);
@@ -101,7 +120,7 @@ export function getIPRange(cidr: string): { startIP: string, endIP: string, tota
   };
 }
 
-// Simulate ping and ARP lookup - in a real implementation this would use actual network calls
+// Simulate ping and ARP lookup - only used in demo mode (VITE_DEMO_MODE), real scans use the backend probe
 // This has been modified to consider subnet boundaries
 export function simulatePingAndARPLookup(ipAddress: string, localIP: string, subnetMask: number): { 
   reachable: boolean, 
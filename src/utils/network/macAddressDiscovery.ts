@@ -1,6 +1,9 @@
 
+import { DeviceData, DiscoveredMacAddress } from "@/types/network";
 import { discoverMacAddresses } from "./snmpDiscovery";
 import { supabase } from "@/integrations/supabase/client";
+import { getSnmpConnectionForSubnet } from "./snmpCredentials";
+import { isTransitPortRole } from "./portRoles";
 
 interface MacAddressResult {
   macAddresses: Array<{
@@ -15,6 +18,96 @@ interface MacAddressResult {
   error: string | null;
 }
 
+export interface SwitchMacAddresses {
+  device: DeviceData;
+  macAddresses: DiscoveredMacAddress[];
+}
+
+/**
+ * A MAC address together with the switch it was taken from
+ */
+export interface SiteMacAddress extends DiscoveredMacAddress {
+  device: DeviceData;
+}
+
+/**
+ * Discover MAC addresses from every switch in a site, each with the SNMP credentials of its own subnet
+ * Switches that fail or return no MACs are skipped and returned in failedSwitches
+ */
+export async function discoverSiteMacAddresses(
+  switches: DeviceData[],
+  vlanIds: number[],
+  progressCallback?: (message: string, progress: number) => void
+): Promise<{ results: SwitchMacAddresses[]; failedSwitches: DeviceData[] }> {
+  const results: SwitchMacAddresses[] = [];
+  const failedSwitches: DeviceData[] = [];
+
+  for (const [index, device] of switches.entries()) {
+    const switchName = device.hostname || device.ip_address;
+    if (progressCallback) {
+      progressCallback(`Discovering MAC addresses on ${switchName} (${index + 1} of ${switches.length})...`, Math.round((index / switches.length) * 100));
+    }
+
+    try {
+      const snmp = await getSnmpConnectionForSubnet(device.subnet_id);
+      const { macAddresses } = await discoverMacAddresses(
+        device.ip_address,
+        snmp.community,
+        snmp.version,
+        vlanIds,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        snmp.v3,
+        device.make || undefined
+      );
+
+      if (macAddresses.length === 0) {
+        console.warn(`No MAC addresses discovered on ${switchName}`);
+        failedSwitches.push(device);
+      } else {
+        results.push({ device, macAddresses });
+      }
+    } catch (error) {
+      console.error(`Error discovering MAC addresses on ${switchName}:`, error);
+      failedSwitches.push(device);
+    }
+  }
+
+  if (progressCallback) {
+    progressCallback(`Discovered MAC addresses on ${results.length} of ${switches.length} switches`, 100);
+  }
+  return { results, failedSwitches };
+}
+
+// Access ports first, then ports whose role is unknown, then trunks and uplinks
+function getPortRoleRank(role?: string): number {
+  if (role === "access") return 0;
+  return isTransitPortRole(role) ? 2 : 1;
+}
+
+/**
+ * Merge per-switch MAC tables, keeping one entry per MAC and VLAN
+ * A MAC is learned on its edge port by the switch it is plugged into and on trunks/uplinks by every switch
+ * upstream of it, so the sighting on the best-ranked port wins
+ */
+export function mergeSwitchMacAddresses(results: SwitchMacAddresses[]): SiteMacAddress[] {
+  const merged = new Map<string, SiteMacAddress>();
+
+  results.forEach(({ device, macAddresses }) => {
+    macAddresses.forEach(mac => {
+      const key = `${mac.macAddress.toLowerCase()}|${mac.vlanId}`;
+      const existing = merged.get(key);
+      if (!existing || getPortRoleRank(mac.portRole) < getPortRoleRank(existing.portRole)) {
+        merged.set(key, { ...mac, device });
+      }
+    });
+  });
+
+  return Array.from(merged.values());
+}
+
 /**
  * Fetch MAC addresses for a site using SNMP
  */
@@ -88,8 +181,7 @@ export async function fetchMacAddressesForSite(
       .from('devices')
       .select('*')
       .eq('site_id', siteId)
-      .eq('category', 'Switch')
-      .limit(1);
+      .eq('category', 'Switch');
       
     if (devicesError) {
       console.error("Error fetching switch devices:", devicesError);
@@ -107,27 +199,15 @@ export async function fetchMacAddressesForSite(
       };
     }
     
-    const switchIp = devices[0].ip_address;
-    const subnet = subnets[0]; // Use the first subnet for SNMP credentials
-    const community = subnet.snmp_community || 'public';
-    const version = subnet.snmp_version || '2c';
-    
-    console.log(`Using switch ${switchIp} with community ${community} and version ${version}`);
-    
     // Extract VLAN IDs from the database records
     const vlanIds = vlans.map(vlan => vlan.vlan_id);
     console.log(`Using VLAN IDs: ${vlanIds.join(', ')}`);
     
-    // Get MAC addresses from the switch using our discoverMacAddresses function
-    const macAddressResults = await discoverMacAddresses(
-      switchIp,
-      community,
-      version,
-      vlanIds,
-      progressCallback
-    );
+    // Poll every switch, each with its own subnet's credentials
+    const { results } = await discoverSiteMacAddresses(devices as DeviceData[], vlanIds, progressCallback);
+    const siteMacAddresses = mergeSwitchMacAddresses(results);
     
-    console.log(`Discovered ${macAddressResults.macAddresses.length} MAC addresses across ${macAddressResults.vlanIds.length} VLANs`);
+    console.log(`Discovered ${siteMacAddresses.length} MAC addresses on ${results.length} of ${devices.length} switches`);
     
     // Create a map of VLAN IDs to names from the database
     const vlanMap = new Map();
@@ -136,7 +216,7 @@ export async function fetchMacAddressesForSite(
     });
     
     // Transform the MAC addresses into our format with unique IDs
-    const transformedMacs = macAddressResults.macAddresses.map((mac, index) => ({
+    const transformedMacs = siteMacAddresses.map((mac, index) => ({
       id: `mac-${index}`,
       macAddress: mac.macAddress,
       vlanId: mac.vlanId,
@@ -149,7 +229,7 @@ export async function fetchMacAddressesForSite(
     if (transformedMacs.length === 0) {
       return {
         macAddresses: [],
-        error: "No MAC addresses found. The switch did not return any MAC address information."
+        error: "No MAC addresses found. The switches did not return any MAC address information."
       };
     }
     
@@ -0,0 +1,67 @@
+import { DeviceNeighbor, SnmpV3Credentials } from "@/types/network";
+import { callBackendApi } from "../apiClient";
+
+/**
+ * Discover the LLDP and/or CDP neighbors of a switch via the backend agent
+ */
+export async function discoverNeighbors(
+  ip: string,
+  community: string = "public",
+  version: "1" | "2c" | "3" = "2c",
+  v3?: SnmpV3Credentials,
+  protocols: DeviceNeighbor["protocol"][] = ["lldp", "cdp"]
+): Promise<DeviceNeighbor[]> {
+  try {
+    console.log(`Discovering ${protocols.join("/").toUpperCase()} neighbors on ${ip}...`);
+    const result = await callBackendApi("/snmp/discover-neighbors", {
+      ip,
+      community,
+      version,
+      v3,
+      protocols
+    });
+
+    if (!result || !Array.isArray(result.neighbors)) {
+      console.warn(`Invalid neighbor discovery response from ${ip}:`, result);
+      return [];
+    }
+
+    console.log(`Discovered ${result.neighbors.length} neighbors on ${ip}`);
+    return result.neighbors;
+  } catch (error) {
+    console.error(`Error discovering neighbors on ${ip}:`, error);
+    return [];
+  }
+}
+
+/**
+ * Combine LLDP and CDP neighbor lists, collapsing neighbors that speak both protocols
+ * The LLDP entry is kept and enriched with the CDP platform and native VLAN
+ */
+export function mergeNeighbors(...lists: DeviceNeighbor[][]): DeviceNeighbor[] {
+  // Hostnames differ between protocols (FQDN vs short name, upper vs lower case)
+  const neighborKey = (neighbor: DeviceNeighbor) => {
+    const name = (neighbor.remoteSysName || neighbor.remoteChassisId || "").split(".")[0].toLowerCase();
+    return `${neighbor.localPort}|${name}`;
+  };
+
+  const merged = new Map<string, DeviceNeighbor>();
+  for (const neighbor of lists.flat()) {
+    const key = neighborKey(neighbor);
+    const existing = merged.get(key);
+    if (!existing) {
+      merged.set(key, { ...neighbor });
+      continue;
+    }
+
+    const [lldp, cdp] = existing.protocol === "lldp" ? [existing, neighbor] : [neighbor, existing];
+    merged.set(key, {
+      ...cdp,
+      ...Object.fromEntries(Object.entries(lldp).filter(([, value]) => value !== null && value !== undefined)),
+      platform: cdp.platform ?? lldp.platform,
+      nativeVlan: cdp.nativeVlan ?? lldp.nativeVlan
+    } as DeviceNeighbor);
+  }
+
+  return Array.from(merged.values());
+}
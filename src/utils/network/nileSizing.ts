@@ -0,0 +1,195 @@
+import { DeviceData, DeviceInterfaceData, DeviceLinkData, PoePortData, PoeSupplyData } from "@/types/network";
+import { determineNeighborDeviceType } from "./deviceIdentification";
+import { analyzePorts, summarizePorts, DEFAULT_UNUSED_DAYS } from "./portUtilization";
+
+/**
+ * Headroom added on top of what is in use today, in percent
+ */
+export interface SizingHeadroom {
+  portPercent: number;
+  poePercent: number;
+  apPercent: number;
+}
+
+/**
+ * Capacity of one Nile access switch, used to turn port and PoE demand into a switch count
+ */
+export interface NileSwitchProfile {
+  portsPerSwitch: number;
+  poeBudgetW: number;
+}
+
+export const DEFAULT_SIZING_HEADROOM: SizingHeadroom = {
+  portPercent: 20,
+  poePercent: 20,
+  apPercent: 10
+};
+
+export const DEFAULT_SWITCH_PROFILE: NileSwitchProfile = {
+  portsPerSwitch: 48,
+  poeBudgetW: 740
+};
+
+// Maximum power at the PSE per IEEE 802.3af/at class, used when a switch reports powered ports but no readings
+const POE_CLASS_MAX_W: Record<number, number> = {
+  0: 15.4,
+  1: 4,
+  2: 7,
+  3: 15.4,
+  4: 30
+};
+
+export interface ClosetSizing {
+  closet: string; // sysLocation of the closet's switches, or the switch name when it has none
+  switches: DeviceData[];
+  activePorts: number; // Active access ports (plus ports with no usable history)
+  requiredPorts: number;
+  poeDrawW: number;
+  requiredPoeW: number;
+  uplinkCount: number; // Active uplinks to other switches and routers
+  uplinkSpeedMbps: number | null; // Fastest active uplink
+  apCount: number;
+  recommendedSwitches: number;
+  recommendedAps: number;
+  limitedBy: "ports" | "poe" | null;
+}
+
+export interface SizingInput {
+  devices: DeviceData[];
+  interfaces: DeviceInterfaceData[];
+  links: DeviceLinkData[];
+  poeSupplies: PoeSupplyData[];
+  poePorts: PoePortData[];
+}
+
+/**
+ * Current PoE draw of one switch in watts
+ * Prefers the PSE's consumption figure, then per-port readings, then the class maximum of each powered port
+ */
+export function getPoeDrawW(supplies: PoeSupplyData[], ports: PoePortData[]): number {
+  if (supplies.some(supply => supply.consumption_w !== null)) {
+    return supplies.reduce((total, supply) => total + (supply.consumption_w || 0), 0);
+  }
+
+  const poweredPorts = ports.filter(port => port.detection_status === "deliveringPower");
+  if (poweredPorts.some(port => port.power_mw !== null)) {
+    return poweredPorts.reduce((total, port) => total + (port.power_mw || 0), 0) / 1000;
+  }
+
+  return poweredPorts.reduce((total, port) => total + (POE_CLASS_MAX_W[port.power_class ?? 0] ?? POE_CLASS_MAX_W[0]), 0);
+}
+
+function withHeadroom(value: number, percent: number): number {
+  return Math.ceil(value * (1 + Math.max(0, percent) / 100));
+}
+
+/**
+ * Closet a switch belongs to - switches sharing a sysLocation are sized together
+ */
+export function getClosetName(device: DeviceData): string {
+  return device.location?.trim() || device.hostname || device.ip_address;
+}
+
+/**
+ * Recommend a Nile switch and AP count per closet from the discovered site data
+ */
+export function estimateNileSizing(
+  input: SizingInput,
+  headroom: SizingHeadroom = DEFAULT_SIZING_HEADROOM,
+  profile: NileSwitchProfile = DEFAULT_SWITCH_PROFILE,
+  unusedDays: number = DEFAULT_UNUSED_DAYS
+): ClosetSizing[] {
+  const closets = new Map<string, DeviceData[]>();
+  input.devices
+    .filter(device => device.category === "Switch")
+    .forEach(device => {
+      const closet = getClosetName(device);
+      closets.set(closet, [...(closets.get(closet) || []), device]);
+    });
+
+  const now = Date.now();
+
+  return Array.from(closets)
+    .map(([closet, switches]) => {
+      const deviceIds = new Set(switches.map(device => device.id));
+      const closetLinks = input.links.filter(link => deviceIds.has(link.device_id));
+
+      const ports = switches.flatMap(device => analyzePorts(
+        input.interfaces.filter(iface => iface.device_id === device.id),
+        closetLinks.filter(link => link.device_id === device.id),
+        unusedDays,
+        now
+      ));
+      const activePorts = summarizePorts(ports).suggestedAccessPorts;
+      const activeUplinks = ports.filter(port => port.isUplink && port.usage === "active");
+      const uplinkSpeeds = activeUplinks.map(port => port.iface.speed_mbps || 0).filter(speed => speed > 0);
+
+      const poeDrawW = switches.reduce((total, device) => total + getPoeDrawW(
+        input.poeSupplies.filter(supply => supply.device_id === device.id),
+        input.poePorts.filter(port => port.device_id === device.id)
+      ), 0);
+
+      // An AP can show up on several ports (or via both LLDP and CDP), so count each neighbor once
+      const aps = new Set(
+        closetLinks
+          .filter(link => determineNeighborDeviceType({
+            platform: link.platform,
+            remoteSysName: link.remote_sys_name,
+            remoteCapabilities: link.remote_capabilities
+          }) === "AP")
+          .map(link => link.remote_chassis_id || link.remote_sys_name || `${link.device_id}:${link.local_port}`)
+      );
+
+      const requiredPorts = withHeadroom(activePorts, headroom.portPercent);
+      const requiredPoeW = withHeadroom(poeDrawW, headroom.poePercent);
+      const switchesForPorts = Math.ceil(requiredPorts / Math.max(1, profile.portsPerSwitch));
+      const switchesForPoe = profile.poeBudgetW > 0 ? Math.ceil(requiredPoeW / profile.poeBudgetW) : 0;
+      const recommendedSwitches = Math.max(switchesForPorts, switchesForPoe);
+
+      return {
+        closet,
+        switches,
+        activePorts,
+        requiredPorts,
+        poeDrawW: Math.round(poeDrawW * 10) / 10,
+        requiredPoeW,
+        uplinkCount: activeUplinks.length,
+        uplinkSpeedMbps: uplinkSpeeds.length > 0 ? Math.max(...uplinkSpeeds) : null,
+        apCount: aps.size,
+        recommendedSwitches,
+        recommendedAps: withHeadroom(aps.size, headroom.apPercent),
+        limitedBy: recommendedSwitches === 0 ? null : switchesForPoe > switchesForPorts ? "poe" as const : "ports" as const
+      };
+    })
+    .sort((a, b) => a.closet.localeCompare(b.closet, undefined, { numeric: true }));
+}
+
+/**
+ * Build the bill-of-materials CSV that goes alongside the Nile import CSV
+ */
+export function getSizingCsv(closets: ClosetSizing[], headroom: SizingHeadroom, profile: NileSwitchProfile): string {
+  const escape = (value: string) => /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+  let csvContent = "closet,existing switches,active ports,required ports,poe draw w,required poe w,uplinks,uplink speed mbps,existing aps,nile switches,nile aps\n";
+  closets.forEach(closet => {
+    csvContent += [
+      escape(closet.closet),
+      escape(closet.switches.map(device => device.hostname || device.ip_address).join(" ")),
+      closet.activePorts,
+      closet.requiredPorts,
+      closet.poeDrawW,
+      closet.requiredPoeW,
+      closet.uplinkCount,
+      closet.uplinkSpeedMbps ?? "",
+      closet.apCount,
+      closet.recommendedSwitches,
+      closet.recommendedAps
+    ].join(",") + "\n";
+  });
+
+  const totalSwitches = closets.reduce((total, closet) => total + closet.recommendedSwitches, 0);
+  const totalAps = closets.reduce((total, closet) => total + closet.recommendedAps, 0);
+  csvContent += `total,,,,,,,,,${totalSwitches},${totalAps}\n`;
+  csvContent += `# headroom: ports ${headroom.portPercent}% poe ${headroom.poePercent}% aps ${headroom.apPercent}%; switch: ${profile.portsPerSwitch} ports ${profile.poeBudgetW} W\n`;
+  return csvContent;
+}
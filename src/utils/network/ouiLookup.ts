@@ -0,0 +1,76 @@
+/**
+ * MAC vendor identification against the bundled IEEE OUI registry (public/oui/oui.tsv)
+ * Refresh the registry with `npm run update-oui`
+ */
+
+// MA-S (36-bit) and MA-M (28-bit) blocks are carved out of MA-L (24-bit) prefixes, so check the longest first
+const PREFIX_LENGTHS = [9, 7, 6];
+
+let registry: Map<string, string> | null = null;
+let registryPromise: Promise<Map<string, string>> | null = null;
+
+/**
+ * Load the OUI registry once; later calls reuse the same promise
+ */
+export function loadOuiRegistry(): Promise<Map<string, string>> {
+  if (!registryPromise) {
+    registryPromise = fetch(`${import.meta.env.BASE_URL}oui/oui.tsv`)
+      .then(response => {
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}`);
+        }
+        return response.text();
+      })
+      .then(text => {
+        const entries = new Map<string, string>();
+        for (const line of text.split("\n")) {
+          if (!line || line.startsWith("#")) continue;
+          const [prefix, organization] = line.split("\t");
+          if (prefix && organization) {
+            entries.set(prefix, organization);
+          }
+        }
+        console.log(`Loaded ${entries.size} OUI prefixes`);
+        registry = entries;
+        return entries;
+      })
+      .catch(error => {
+        console.error("Error loading OUI registry:", error);
+        // Allow a retry on the next call instead of caching the failure
+        registryPromise = null;
+        return new Map<string, string>();
+      });
+  }
+  return registryPromise;
+}
+
+/**
+ * Look up the IEEE-registered vendor of a MAC address
+ * Returns null for unknown prefixes, and until loadOuiRegistry() has resolved
+ */
+export function lookupVendor(mac: string): string | null {
+  if (!registry || !mac) return null;
+
+  const hex = mac.replace(/[^0-9a-f]/gi, "").toUpperCase();
+  if (hex.length < 6) return null;
+
+  for (const length of PREFIX_LENGTHS) {
+    const vendor = registry.get(hex.substring(0, length));
+    // MA-M/MA-S parent blocks are registered to the IEEE itself, which says nothing about the device
+    if (vendor && vendor !== "IEEE Registration Authority") {
+      return vendor;
+    }
+  }
+  return null;
+}
+
+/**
+ * Check the locally administered bit (0x02 of the first octet)
+ * Phones and laptops with private/randomized MAC features set it, so the address will not be seen again
+ * after the device rotates it - such endpoints need 802.1X rather than MAC allow-listing
+ */
+export function isRandomizedMac(mac: string): boolean {
+  const hex = (mac || "").replace(/[^0-9a-f]/gi, "");
+  if (hex.length < 2) return false;
+  return (parseInt(hex.substring(0, 2), 16) & 0x02) !== 0;
+}
@@ -0,0 +1,37 @@
+import { PoeInventory, SnmpConnectionDetails } from "@/types/network";
+import { callBackendApi } from "../apiClient";
+
+/**
+ * Discover a switch's PoE budget and per-port power draw (POWER-ETHERNET-MIB) via the backend agent
+ * Returns null for devices without PoE
+ */
+export async function discoverPoe(
+  ip: string,
+  snmp: SnmpConnectionDetails
+): Promise<PoeInventory | null> {
+  try {
+    console.log(`Discovering PoE inventory on ${ip}...`);
+    const result = await callBackendApi("/snmp/discover-poe", {
+      ip,
+      community: snmp.community,
+      version: snmp.version,
+      v3: snmp.v3
+    });
+
+    if (!result || !Array.isArray(result.supplies) || !Array.isArray(result.ports)) {
+      console.warn(`Invalid PoE discovery response from ${ip}:`, result);
+      return null;
+    }
+
+    if (result.supplies.length === 0 && result.ports.length === 0) {
+      console.log(`No PoE support found on ${ip}`);
+      return null;
+    }
+
+    console.log(`Found ${result.supplies.length} PoE supplies and ${result.ports.length} PoE ports on ${ip}`);
+    return { supplies: result.supplies, ports: result.ports };
+  } catch (error) {
+    console.error(`Error discovering PoE inventory on ${ip}:`, error);
+    return null;
+  }
+}
@@ -0,0 +1,25 @@
+import { PortRole } from "@/types/network";
+
+/**
+ * MACs learned on trunks and uplinks belong to devices behind other switches
+ * and should not be exported as if they were connected locally
+ */
+export function isTransitPortRole(role?: PortRole | string | null): boolean {
+  return role === "trunk" || role === "uplink";
+}
+
+/**
+ * Short label for a port role, for badges and tooltips
+ */
+export function getPortRoleLabel(role?: PortRole | string | null): string {
+  switch (role) {
+    case "trunk":
+      return "Trunk";
+    case "uplink":
+      return "Uplink";
+    case "access":
+      return "Access";
+    default:
+      return "Unknown";
+  }
+}
@@ -0,0 +1,114 @@
+import { DeviceInterfaceData, DeviceLinkData } from "@/types/network";
+import { isPhysicalInterface } from "./interfaceDiscovery";
+import { determineNeighborDeviceType } from "./deviceIdentification";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_UNUSED_DAYS = 30;
+
+/**
+ * Usage state of a physical port
+ * - active: up, or down for less than the threshold
+ * - unused: down for longer than the threshold, or administratively disabled
+ * - unknown: down, but the agent gave no usable ifLastChange
+ */
+export type PortUsage = "active" | "unused" | "unknown";
+
+export interface PortAnalysis {
+  iface: DeviceInterfaceData;
+  usage: PortUsage;
+  downDays: number | null; // Whole days since the port went down (at least, when it has been down since boot)
+  isUplink: boolean; // Connects to another switch or router - not an access port
+}
+
+export interface PortUtilizationSummary {
+  totalPorts: number;
+  activePorts: number;
+  unusedPorts: number;
+  unknownPorts: number;
+  uplinkPorts: number;
+  activeBySpeed: [number, number][]; // [speed in Mbps, active port count], slowest first
+  suggestedAccessPorts: number; // Active and unknown access ports - what the Nile access layer has to serve
+}
+
+/**
+ * Classify a physical port as active, unused or unknown
+ * last_change is derived from ifLastChange and sysUpTime at discovery time, so a port that has been
+ * down since the switch booted reports the boot time and counts as down for the whole uptime
+ */
+export function getPortUsage(
+  iface: DeviceInterfaceData,
+  unusedDays: number,
+  now: number = Date.now()
+): { usage: PortUsage; downDays: number | null } {
+  if (iface.admin_status === "down") {
+    return { usage: "unused", downDays: iface.last_change ? Math.floor((now - Date.parse(iface.last_change)) / DAY_MS) : null };
+  }
+  if (iface.oper_status === "up") {
+    return { usage: "active", downDays: null };
+  }
+  if (!iface.last_change) {
+    return { usage: "unknown", downDays: null };
+  }
+
+  const downDays = Math.floor((now - Date.parse(iface.last_change)) / DAY_MS);
+  return { usage: downDays >= unusedDays ? "unused" : "active", downDays };
+}
+
+/**
+ * Analyze the physical ports of one switch
+ * @param interfaces - The switch's interface inventory
+ * @param links - The switch's LLDP/CDP links, used to tell uplinks from access ports
+ */
+export function analyzePorts(
+  interfaces: DeviceInterfaceData[],
+  links: DeviceLinkData[],
+  unusedDays: number = DEFAULT_UNUSED_DAYS,
+  now: number = Date.now()
+): PortAnalysis[] {
+  const uplinkPorts = new Set(
+    links
+      .filter(link => {
+        const type = determineNeighborDeviceType({
+          platform: link.platform,
+          remoteSysName: link.remote_sys_name,
+          remoteCapabilities: link.remote_capabilities
+        });
+        return type === "Switch" || type === "Router";
+      })
+      .map(link => link.local_port)
+  );
+
+  return interfaces
+    .filter(iface => isPhysicalInterface(iface.if_type))
+    .map(iface => ({
+      iface,
+      ...getPortUsage(iface, unusedDays, now),
+      isUplink: uplinkPorts.has(iface.name) || uplinkPorts.has(iface.description || "")
+    }));
+}
+
+/**
+ * Roll port analyses (of one switch or a whole site) up into counts
+ */
+export function summarizePorts(ports: PortAnalysis[]): PortUtilizationSummary {
+  const accessPorts = ports.filter(port => !port.isUplink);
+  const activeBySpeed = new Map<number, number>();
+  accessPorts
+    .filter(port => port.usage === "active")
+    .forEach(port => {
+      const speed = port.iface.speed_mbps || 0;
+      activeBySpeed.set(speed, (activeBySpeed.get(speed) || 0) + 1);
+    });
+
+  return {
+    totalPorts: ports.length,
+    activePorts: ports.filter(port => port.usage === "active").length,
+    unusedPorts: ports.filter(port => port.usage === "unused").length,
+    unknownPorts: ports.filter(port => port.usage === "unknown").length,
+    uplinkPorts: ports.length - accessPorts.length,
+    activeBySpeed: Array.from(activeBySpeed).sort(([a], [b]) => a - b),
+    // Ports with no usable history are counted as in use rather than risk under-sizing
+    suggestedAccessPorts: accessPorts.filter(port => port.usage !== "unused").length
+  };
+}
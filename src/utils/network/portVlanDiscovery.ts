@@ -0,0 +1,75 @@
+import { DiscoveredPortVlan, PortVlanData, SnmpConnectionDetails } from "@/types/network";
+import { supabase } from "@/integrations/supabase/client";
+import { callBackendApi } from "../apiClient";
+import { fetchAllRows } from "../supabasePaging";
+
+/**
+ * Discover the VLAN mode, access, native, allowed and voice VLANs of each switchport via the backend agent
+ */
+export async function discoverPortVlans(
+  ip: string,
+  snmp: SnmpConnectionDetails
+): Promise<DiscoveredPortVlan[]> {
+  try {
+    console.log(`Discovering port VLANs on ${ip}...`);
+    const result = await callBackendApi("/snmp/discover-port-vlans", {
+      ip,
+      community: snmp.community,
+      version: snmp.version,
+      v3: snmp.v3
+    });
+
+    if (!result || !Array.isArray(result.ports)) {
+      console.warn(`Invalid port VLAN discovery response from ${ip}:`, result);
+      return [];
+    }
+
+    console.log(`Found VLAN configuration for ${result.ports.length} ports on ${ip} (${result.source || "none"})`);
+    return result.ports;
+  } catch (error) {
+    console.error(`Error discovering port VLANs on ${ip}:`, error);
+    return [];
+  }
+}
+
+/**
+ * Access ports with a voice VLAN - an IP phone with a PC plugged in behind it, which needs both
+ * the voice and the data segment on the same port
+ */
+export function isPhonePort(port: PortVlanData): boolean {
+  return port.mode === "access" && port.voice_vlan !== null && port.voice_vlan !== port.access_vlan;
+}
+
+/**
+ * Whether a switchport passes a VLAN - in its allowed list on a trunk, as its data or voice VLAN on an access port
+ * An empty allowed list means the agent reported none, which is treated as all VLANs
+ */
+export function portCarriesVlan(port: PortVlanData, vlanId: number): boolean {
+  if (port.mode !== "trunk") {
+    return port.access_vlan === vlanId || port.voice_vlan === vlanId;
+  }
+  if (!port.allowed_vlans) return true;
+
+  return port.allowed_vlans.split(",").some(range => {
+    const [start, end] = range.split("-").map(part => parseInt(part, 10));
+    return vlanId >= start && vlanId <= (isNaN(end) ? start : end);
+  });
+}
+
+/**
+ * Load the stored port VLAN configuration of every switch in a site
+ */
+export async function getSitePortVlans(siteId: string): Promise<PortVlanData[]> {
+  try {
+    return await fetchAllRows<PortVlanData>((from, to) => supabase
+      .from('port_vlans')
+      .select('*')
+      .eq('site_id', siteId)
+      .order('device_id', { ascending: true })
+      .order('if_index', { ascending: true })
+      .range(from, to));
+  } catch (error) {
+    console.error(`Error loading port VLANs for site ${siteId}:`, error);
+    throw new Error(`Failed to load port VLANs: ${error instanceof Error ? error.message : error}`);
+  }
+}
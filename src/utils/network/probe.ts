@@ -0,0 +1,41 @@
+import { ProbeResult } from "@/types/network";
+import { callBackendApi } from "../apiClient";
+
+/**
+ * Demo mode replaces real probing with simulatePingAndARPLookup so the UI can be shown without a network
+ * Enable it explicitly with VITE_DEMO_MODE=true - it reports every host as reachable with a fabricated MAC
+ */
+export const DEMO_MODE = import.meta.env.VITE_DEMO_MODE === "true";
+
+// The backend probes up to 256 hosts per request
+const PROBE_BATCH_SIZE = 256;
+
+/**
+ * Probe hosts for reachability (ICMP plus TCP 22/23/80/161/443) via the backend agent
+ * Hosts the backend could not answer for are reported as unreachable
+ */
+export async function probeHosts(ips: string[], timeout: number = 1000): Promise<ProbeResult[]> {
+  const results: ProbeResult[] = [];
+
+  for (let i = 0; i < ips.length; i += PROBE_BATCH_SIZE) {
+    const batch = ips.slice(i, i + PROBE_BATCH_SIZE);
+    try {
+      // Allow for the per-host timeout across the backend's concurrency batches
+      const result = await callBackendApi("/probe", { ips: batch, timeout }, timeout * Math.ceil(batch.length / 16) + 10000);
+      results.push(...(result?.results || []));
+    } catch (error) {
+      console.error(`Error probing ${batch.length} hosts:`, error);
+      results.push(...batch.map(ip => ({ ip, reachable: false, icmp: false, latencyMs: null, openPorts: [], closedPorts: [] })));
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Probe a single host for reachability
+ */
+export async function probeHost(ip: string, timeout: number = 1000): Promise<ProbeResult> {
+  const [result] = await probeHosts([ip], timeout);
+  return result;
+}
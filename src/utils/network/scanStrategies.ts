@@ -4,13 +4,42 @@
 
 import { simulatePingAndARPLookup } from "./ipUtils";
 import { getDeviceInfoViaSNMP } from "./snmpDiscovery";
+import { DEFAULT_SNMP_CONNECTION } from "./snmpCredentials";
+import { DEMO_MODE, probeHost, probeHosts } from "./probe";
+import { SnmpConnectionDetails } from "@/types/network";
+
+/**
+ * Check whether hosts respond, using the backend probe or the simulation in demo mode
+ * Real probes never yield a MAC address - that comes from SNMP/ARP later in discovery
+ */
+async function checkReachability(
+  ips: string[],
+  localIP: string,
+  maskBits: number
+): Promise<Map<string, { reachable: boolean, macAddress: string | null }>> {
+  const reachability = new Map<string, { reachable: boolean, macAddress: string | null }>();
+
+  if (DEMO_MODE) {
+    for (const ip of ips) {
+      const pingResult = simulatePingAndARPLookup(ip, localIP, maskBits);
+      reachability.set(ip, { reachable: pingResult.reachable, macAddress: pingResult.macAddress });
+    }
+    return reachability;
+  }
+
+  for (const result of await probeHosts(ips)) {
+    reachability.set(result.ip, { reachable: result.reachable, macAddress: null });
+  }
+  return reachability;
+}
 
 /**
  * Scan a single network device
  */
 export async function scanNetworkDevice(
   ip: string, 
-  updateProgress?: (message: string, progress: number) => void
+  updateProgress?: (message: string, progress: number) => void,
+  snmp: SnmpConnectionDetails = DEFAULT_SNMP_CONNECTION
 ): Promise<{isReachable: boolean, macAddress?: string}> {
   try {
     if (updateProgress) {
@@ -18,7 +47,7 @@ export async function scanNetworkDevice(
     }
     
     // First try SNMP walk as a validation
-    const snmpTest = await getDeviceInfoViaSNMP(ip, updateProgress, true);
+    const snmpTest = await getDeviceInfoViaSNMP(ip, updateProgress, true, snmp);
     
     // If SNMP responds, device is definitely reachable
     if (snmpTest && !snmpTest.error) {
@@ -29,14 +58,26 @@ export async function scanNetworkDevice(
       };
     }
     
-    // If SNMP fails, fall back to simulated ping for now
-    // In production, this would be a real ping
-    console.log(`SNMP validation failed for ${ip}, falling back to ping simulation`);
-    const pingResult = simulatePingAndARPLookup(ip, "192.168.1.1", 24);
+    // If SNMP fails, the device may still be up without SNMP enabled
+    if (DEMO_MODE) {
+      console.log(`SNMP validation failed for ${ip}, falling back to ping simulation (demo mode)`);
+      const pingResult = simulatePingAndARPLookup(ip, "192.168.1.1", 24);
+      
+      return {
+        isReachable: pingResult.reachable,
+        macAddress: pingResult.macAddress
+      };
+    }
+    
+    console.log(`SNMP validation failed for ${ip}, probing ICMP/TCP reachability`);
+    const probeResult = await probeHost(ip);
+    if (probeResult.reachable) {
+      console.log(`Device ${ip} is reachable (ICMP: ${probeResult.icmp}, open ports: ${probeResult.openPorts.join(', ') || 'none'})`);
+    }
     
     return {
-      isReachable: pingResult.reachable,
-      macAddress: pingResult.macAddress
+      isReachable: probeResult.reachable,
+      macAddress: undefined
     };
   } catch (error) {
     console.error(`Error scanning device ${ip}:`, error);
@@ -61,10 +102,10 @@ export async function scanSingleHost(
   updateProgress(`Beginning scan of host ${ip}...`, 0);
   updateProgress(`Scanning ${ip}...`, 20);
   
-  // Check if device responds to ping
-  const pingResult = simulatePingAndARPLookup(ip, localIP, maskBits);
+  // Check if device responds to ICMP/TCP
+  const pingResult = (await checkReachability([ip], localIP, maskBits)).get(ip);
   
-  if (pingResult.reachable) {
+  if (pingResult?.reachable) {
     // Basic device info
     const newDevice: any = {
       ip_address: ip,
@@ -220,6 +261,10 @@ export async function scanNetworkRange(
   console.log(`Will scan ${ipCount} IPs in subnet ${cidr}`);
   let scannedCount = 0;
   
+  // Probe the whole range up front - the backend checks hosts in parallel
+  updateProgress(`Probing ${ipCount} IPs in ${cidr}...`, 0);
+  const reachability = await checkReachability(ipsToScan, localIP, maskBits);
+  
   // Process each IP in the subnet range
   for (const ipAddress of ipsToScan) {
     // Calculate percentage progress
@@ -228,10 +273,10 @@ export async function scanNetworkRange(
     // Update progress before starting this IP
     updateProgress(`Scanning ${ipAddress}...`, progress);
     
-    // Check if device responds to ping
-    const pingResult = simulatePingAndARPLookup(ipAddress, localIP, maskBits);
+    // Check if device responded to the probe
+    const pingResult = reachability.get(ipAddress);
     
-    if (pingResult.reachable) {
+    if (pingResult?.reachable) {
       // Basic device info
       const newDevice: any = {
         ip_address: ipAddress,
@@ -0,0 +1,133 @@
+import { SegmentData } from "@/types/network";
+import { supabase } from "@/integrations/supabase/client";
+import { ipToLong, parseCIDR } from "./ipUtils";
+
+/**
+ * Nile segment planning
+ * Several VLANs can be consolidated into one Nile segment. The plan is stored per site in `segments`
+ * and the export maps each MAC to the segment that holds its VLAN
+ */
+
+export type SegmentPlanEntry = Pick<SegmentData, "name" | "vlan_ids">;
+
+/**
+ * Segment names go into the Nile import CSV as they are, so they cannot contain its delimiters
+ */
+export function isValidSegmentName(name: string): boolean {
+  return name.trim().length > 0 && !/[",\r\n]/.test(name);
+}
+
+/**
+ * Starting plan for a site without a saved one - one segment per segment name already given to its VLANs
+ */
+export function getDefaultSegmentPlan(vlans: { vlan_id: number; name: string; description: string | null }[]): SegmentPlanEntry[] {
+  const segments = new Map<string, number[]>();
+  [...vlans]
+    .sort((a, b) => a.vlan_id - b.vlan_id)
+    .forEach(vlan => {
+      const name = (vlan.description || vlan.name || `VLAN ${vlan.vlan_id}`).trim();
+      segments.set(name, [...(segments.get(name) || []), vlan.vlan_id]);
+    });
+
+  return Array.from(segments.entries()).map(([name, vlan_ids]) => ({ name, vlan_ids }));
+}
+
+/**
+ * Address range of a subnet written as "10.1.20.0/24" or as an interface address such as "10.1.20.1/24"
+ */
+function getSubnetRange(subnet: string): { start: number; end: number } | null {
+  const { baseIP, maskBits } = parseCIDR(subnet.trim());
+  if (!/^\d{1,3}(\.\d{1,3}){3}$/.test(baseIP || "") || isNaN(maskBits) || maskBits < 0 || maskBits > 32) {
+    return null;
+  }
+
+  const mask = maskBits === 0 ? 0 : (~0 << (32 - maskBits)) >>> 0;
+  const start = (ipToLong(baseIP) & mask) >>> 0;
+  return { start, end: (start | (~mask >>> 0)) >>> 0 };
+}
+
+/**
+ * Pairs of subnets whose address ranges overlap - merging their VLANs would put both on one segment
+ * with conflicting addressing
+ */
+export function findOverlappingSubnets(subnets: { vlanId: number; subnet: string }[]): { a: string; b: string; vlanIds: [number, number] }[] {
+  const ranges = subnets
+    .map(item => ({ ...item, range: getSubnetRange(item.subnet) }))
+    .filter(item => item.range !== null);
+
+  const overlaps: { a: string; b: string; vlanIds: [number, number] }[] = [];
+  ranges.forEach((first, index) => {
+    ranges.slice(index + 1).forEach(second => {
+      if (first.vlanId !== second.vlanId && first.range.start <= second.range.end && second.range.start <= first.range.end) {
+        overlaps.push({ a: first.subnet, b: second.subnet, vlanIds: [first.vlanId, second.vlanId] });
+      }
+    });
+  });
+  return overlaps;
+}
+
+/**
+ * Load the saved segment plan of a site in its saved order
+ */
+export async function getSegmentPlan(siteId: string): Promise<SegmentPlanEntry[]> {
+  const { data, error } = await supabase
+    .from('segments')
+    .select('*')
+    .eq('site_id', siteId)
+    .order('position', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load segment plan: ${error.message}`);
+  }
+
+  return (data || []) as SegmentData[];
+}
+
+/**
+ * Replace the segment plan of a site, keeping the given order
+ */
+export async function saveSegmentPlan(siteId: string, userId: string, segments: SegmentPlanEntry[]): Promise<void> {
+  const { error: deleteError } = await supabase
+    .from('segments')
+    .delete()
+    .eq('site_id', siteId);
+
+  if (deleteError) {
+    console.error("Error clearing segment plan:", deleteError);
+    throw new Error(`Failed to save segment plan: ${deleteError.message}`);
+  }
+
+  if (segments.length === 0) return;
+
+  const { error } = await supabase
+    .from('segments')
+    .insert(segments.map((segment, index) => ({
+      site_id: siteId,
+      user_id: userId,
+      name: segment.name.trim(),
+      vlan_ids: segment.vlan_ids,
+      position: index
+    })));
+
+  if (error) {
+    console.error("Error saving segment plan:", error);
+    throw new Error(`Failed to save segment plan: ${error.message}`);
+  }
+}
+
+/**
+ * Load a site's segment plan and return a lookup of the segment a VLAN was planned into
+ * Returns null when the site has no saved plan
+ */
+export async function getSegmentLookup(siteId: string): Promise<((vlanId: number) => string | undefined) | null> {
+  const segments = await getSegmentPlan(siteId).catch(error => {
+    console.error(`Error loading segment plan for site ${siteId}:`, error);
+    return [] as SegmentPlanEntry[];
+  });
+
+  if (segments.length === 0) return null;
+
+  const segmentByVlan = new Map<number, string>();
+  segments.forEach(segment => segment.vlan_ids.forEach(vlanId => segmentByVlan.set(vlanId, segment.name)));
+  return vlanId => segmentByVlan.get(vlanId);
+}
@@ -0,0 +1,73 @@
+import { supabase } from "@/integrations/supabase/client";
+import { SnmpConnectionDetails, SnmpV3Credentials } from "@/types/network";
+
+/**
+ * SNMP columns of a subnet record, as stored in the subnets table
+ */
+export type SubnetSnmpSettings = Partial<Record<
+  | "snmp_community"
+  | "snmp_version"
+  | "snmp_v3_security_name"
+  | "snmp_v3_security_level"
+  | "snmp_v3_auth_protocol"
+  | "snmp_v3_auth_password"
+  | "snmp_v3_priv_protocol"
+  | "snmp_v3_priv_password"
+  | "snmp_v3_context",
+  string | null
+>>;
+
+export const DEFAULT_SNMP_CONNECTION: SnmpConnectionDetails = {
+  community: "public",
+  version: "2c"
+};
+
+/**
+ * Build SNMP connection details (including SNMPv3 USM credentials) from a subnet record
+ */
+export function getSnmpConnectionFromSubnet(subnet?: SubnetSnmpSettings | null): SnmpConnectionDetails {
+  if (!subnet) {
+    return { ...DEFAULT_SNMP_CONNECTION };
+  }
+
+  const version = subnet.snmp_version === "1" || subnet.snmp_version === "3" ? subnet.snmp_version : "2c";
+  const connection: SnmpConnectionDetails = {
+    community: subnet.snmp_community || "public",
+    version
+  };
+
+  if (version === "3") {
+    connection.v3 = {
+      securityName: subnet.snmp_v3_security_name || "",
+      securityLevel: (subnet.snmp_v3_security_level as SnmpV3Credentials["securityLevel"]) || "authPriv",
+      authProtocol: (subnet.snmp_v3_auth_protocol as SnmpV3Credentials["authProtocol"]) || "sha",
+      authKey: subnet.snmp_v3_auth_password || undefined,
+      privProtocol: (subnet.snmp_v3_priv_protocol as SnmpV3Credentials["privProtocol"]) || "aes",
+      privKey: subnet.snmp_v3_priv_password || undefined,
+      context: subnet.snmp_v3_context || undefined
+    };
+  }
+
+  return connection;
+}
+
+/**
+ * Load the SNMP connection details configured for a subnet
+ */
+export async function getSnmpConnectionForSubnet(subnetId?: string | null): Promise<SnmpConnectionDetails> {
+  if (!subnetId) {
+    return { ...DEFAULT_SNMP_CONNECTION };
+  }
+
+  const { data: subnet, error } = await supabase
+    .from('subnets')
+    .select('*')
+    .eq('id', subnetId)
+    .maybeSingle();
+
+  if (error) {
+    console.error(`Error loading SNMP settings for subnet ${subnetId}:`, error);
+  }
+
+  return getSnmpConnectionFromSubnet(subnet);
+}
@@ -1,8 +1,10 @@
-import { DiscoveredMacAddress } from "@/types/network";
+import { DiscoveredMacAddress, SnmpConnectionDetails, SnmpV3Credentials } from "@/types/network";
 import { executeSnmpWalk, callBackendApi } from "@/utils/apiClient";
 import { useToast, toast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
 import { SNMP_OIDS, getExactModelFromEntityMIB } from "./deviceIdentification";
+import { DEFAULT_SNMP_CONNECTION } from "./snmpCredentials";
+import { loadIdentificationRules, findIdentificationRule } from "./identificationRules";
 
 interface MacAddressDiscoveryResult {
   macAddresses: DiscoveredMacAddress[];
@@ -17,7 +19,8 @@ interface MacAddressDiscoveryResult {
 export async function getDeviceInfoViaSNMP(
   ip: string,
   updateProgress?: (message: string, progress: number) => void,
-  backendConnected: boolean = false
+  backendConnected: boolean = false,
+  snmp: SnmpConnectionDetails = DEFAULT_SNMP_CONNECTION
 ): Promise<any> {
   try {
     if (updateProgress) {
@@ -28,29 +31,27 @@ export async function getDeviceInfoViaSNMP(
     if (backendConnected) {
       console.log(`Discovering device info for ${ip} using backend API`);
       
-      // First get basic device info
-      const { data, error } = await fetch('/api/devices/discover', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
+      // First get basic device info using the subnet's SNMP credentials (v1/v2c community or v3 USM user)
+      let data;
+      try {
+        data = await callBackendApi("/snmp/discover-device", {
           ip,
-          community: 'public',
-          version: '2c'
-        }),
-      }).then(res => res.json());
-
-      if (error) {
+          community: snmp.community,
+          version: snmp.version,
+          v3: snmp.v3
+        });
+      } catch (error) {
         console.error(`Error discovering device info for ${ip}:`, error);
         return { error };
       }
 
+      const walkOptions = { community: snmp.community, version: snmp.version, v3: snmp.v3 };
+
       // Next, try to get exact model information from Entity MIB
       let exactModel = null;
       try {
         console.log(`Getting exact model information from Entity MIB for ${ip}`);
-        const entityMIBResponse = await executeSnmpWalk(ip, SNMP_OIDS.entityPhysicalName);
+        const entityMIBResponse = await executeSnmpWalk(ip, SNMP_OIDS.entityPhysicalName, walkOptions);
         
         if (entityMIBResponse && !entityMIBResponse.error) {
           console.log(`Entity MIB response for ${ip}:`, entityMIBResponse);
@@ -69,9 +70,9 @@ export async function getDeviceInfoViaSNMP(
       try {
         console.log(`Getting entity physical class information for ${ip}`);
         // Get entity physical class data
-        const entityClassResponse = await executeSnmpWalk(ip, SNMP_OIDS.entPhysicalClass);
+        const entityClassResponse = await executeSnmpWalk(ip, SNMP_OIDS.entPhysicalClass, walkOptions);
         // Get entity physical description data
-        const entityDescrResponse = await executeSnmpWalk(ip, SNMP_OIDS.entPhysicalDescr);
+        const entityDescrResponse = await executeSnmpWalk(ip, SNMP_OIDS.entPhysicalDescr, walkOptions);
         
         if (entityClassResponse && !entityClassResponse.error && 
             entityDescrResponse && !entityDescrResponse.error) {
@@ -97,14 +98,20 @@ export async function getDeviceInfoViaSNMP(
         updateProgress(`Received SNMP information for ${ip}`, 10);
       }
 
+      // User-defined sysObjectID rules take precedence over the built-in vendor map and model parsing
+      const identificationRules = await loadIdentificationRules();
+      const vendorRule = findIdentificationRule("vendor", data?.device?.sysObjectID, identificationRules);
+      const modelRule = findIdentificationRule("model", data?.device?.sysObjectID, identificationRules);
+
       // Ensure we prioritize the sysName as hostname from SNMP discovery
       const deviceInfo = {
         hostname: data?.device?.sysName || null, // Using sysName directly as the hostname
-        make: data?.device?.manufacturer || null,
-        model: exactModel || data?.device?.model || null, // Prioritize exact model if available
+        make: vendorRule?.value || data?.device?.manufacturer || null,
+        model: modelRule?.value || exactModel || data?.device?.model || null, // Prioritize exact model if available
         category: enhancedCategory || data?.device?.type || 'Unknown',
         sysDescr: data?.device?.sysDescr || null,
-        sysObjectID: data?.device?.sysObjectID || null
+        sysObjectID: data?.device?.sysObjectID || null,
+        location: data?.device?.sysLocation || null
       };
       
       if (deviceInfo.hostname) {
@@ -144,7 +151,9 @@ export async function discoverMacAddresses(
   progressCallback?: (message: string, progress: number) => void,
   siteId?: string,
   subnetId?: string,
-  userId?: string
+  userId?: string,
+  v3?: SnmpV3Credentials,
+  make?: string
 ): Promise<MacAddressDiscoveryResult> {
   try {
     if (progressCallback) {
@@ -191,6 +200,8 @@ export async function discoverMacAddresses(
         ip,
         community,
         version,
+        v3,
+        make,
         vlanIds: uniquePriorityVlans,
         priorityOnly: true  // Signal to the backend to only process these priority VLANs
       };
@@ -238,6 +249,8 @@ export async function discoverMacAddresses(
       let textDecoder = new TextDecoder();
       let partialChunk = '';
       let processedMacs = 0;
+      // A Q-BRIDGE walk covers every VLAN, so the backend reports which VLANs it actually returned
+      let reportedVlanIds: number[] | undefined;
       
       // Function to save a batch of MAC addresses to Supabase
       const saveMacBatch = async (batch: DiscoveredMacAddress[]) => {
@@ -248,6 +261,9 @@ export async function discoverMacAddresses(
             mac_address: mac.macAddress,
             vlan_id: mac.vlanId,
             device_type: mac.deviceType || 'Unknown',
+            port: mac.port || null,
+            port_description: mac.portDescription || null,
+            port_role: mac.portRole || null,
             site_id: siteId,
             subnet_id: subnetId,
             user_id: userId
@@ -284,6 +300,10 @@ export async function discoverMacAddresses(
           // The response is a stream, so we need to handle partial data
           const result = JSON.parse(textChunk);
           
+          if (Array.isArray(result.vlanIds)) {
+            reportedVlanIds = result.vlanIds;
+          }
+          
           // Process MAC addresses
           if (result.macAddresses && Array.isArray(result.macAddresses)) {
             allMacAddresses.push(...result.macAddresses);
@@ -350,7 +370,7 @@ export async function discoverMacAddresses(
       // Ensure we return a properly formatted result
       return {
         macAddresses: allMacAddresses,
-        vlanIds: uniquePriorityVlans,
+        vlanIds: reportedVlanIds || uniquePriorityVlans,
         status: 'success'
       };
     } catch (error) {
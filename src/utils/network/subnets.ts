@@ -1,6 +1,6 @@
 
 import { supabase } from "@/integrations/supabase/client";
-import { SubnetData, DiscoveredMacAddress } from "@/types/network";
+import { SubnetData, DiscoveredMacAddress, DeviceNeighbor, DiscoveredArpEntry, DiscoveredInterface, DiscoveredEntity, DiscoveredPortVlan, PoeInventory } from "@/types/network";
 import { toast } from "@/hooks/use-toast";
 
 /**
@@ -32,7 +32,9 @@ export async function saveDiscoveredDevices(
         user_id: userId,
         confirmed: device.confirmed || false,
         needs_verification: device.needs_verification || true,
-        sysdescr: device.sysDescr || null
+        sysdescr: device.sysDescr || null,
+        sysobjectid: device.sysObjectID || null,
+        location: device.location || null
       };
       
       console.log('Saving device record:', deviceRecord);
@@ -40,7 +42,9 @@ export async function saveDiscoveredDevices(
       // Use upsert without onConflict parameter
       const { error: deviceError, data: savedDevice } = await supabase
         .from('devices')
-        .upsert(deviceRecord);
+        .upsert(deviceRecord)
+        .select('id')
+        .single();
       
       if (deviceError) {
         console.error('Error inserting device:', deviceError);
@@ -49,6 +53,189 @@ export async function saveDiscoveredDevices(
       
       console.log('Successfully saved device:', savedDevice || deviceRecord.ip_address);
       
+      // Save LLDP/CDP neighbors as links from this device's ports
+      if (savedDevice && device.neighbors && Array.isArray(device.neighbors) && device.neighbors.length > 0) {
+        const linkRecords = device.neighbors.map((neighbor: DeviceNeighbor) => ({
+          device_id: savedDevice.id,
+          site_id: siteId,
+          user_id: userId,
+          protocol: neighbor.protocol,
+          local_port: neighbor.localPort,
+          remote_chassis_id: neighbor.remoteChassisId || null,
+          remote_port: neighbor.remotePortId || null,
+          remote_port_description: neighbor.remotePortDescription || null,
+          remote_sys_name: neighbor.remoteSysName || null,
+          remote_sys_description: neighbor.remoteSysDescription || null,
+          remote_capabilities: neighbor.remoteCapabilities || null,
+          remote_management_address: neighbor.remoteManagementAddress || null,
+          platform: neighbor.platform || null,
+          native_vlan: neighbor.nativeVlan ?? null,
+          med_device_class: neighbor.medDeviceClass || null
+        }));
+        
+        const { error: linkError } = await supabase
+          .from('device_links')
+          .insert(linkRecords);
+        
+        if (linkError) {
+          console.error(`Error saving neighbor links for device ${device.ip_address}:`, linkError);
+        } else {
+          console.log(`Saved ${linkRecords.length} neighbor links for device ${device.ip_address}`);
+        }
+      }
+      
+      // Save ARP entries as the site's IP/MAC bindings so MACs can be shown with their last known IP
+      if (savedDevice && device.arpEntries && Array.isArray(device.arpEntries) && device.arpEntries.length > 0) {
+        const lastSeen = new Date().toISOString();
+        const bindingRecords = device.arpEntries.map((entry: DiscoveredArpEntry) => ({
+          device_id: savedDevice.id,
+          site_id: siteId,
+          user_id: userId,
+          mac_address: entry.macAddress,
+          ip_address: entry.ipAddress,
+          vlan_id: entry.vlanId ?? null,
+          interface: entry.interface || null,
+          last_seen: lastSeen
+        }));
+        
+        const { error: bindingError } = await supabase
+          .from('ip_mac_bindings')
+          .upsert(bindingRecords, { onConflict: 'site_id,mac_address,ip_address' });
+        
+        if (bindingError) {
+          console.error(`Error saving IP/MAC bindings for device ${device.ip_address}:`, bindingError);
+        } else {
+          console.log(`Saved ${bindingRecords.length} IP/MAC bindings for device ${device.ip_address}`);
+        }
+      }
+      
+      // Save the interface inventory
+      if (savedDevice && device.interfaces && Array.isArray(device.interfaces) && device.interfaces.length > 0) {
+        const interfaceRecords = device.interfaces.map((iface: DiscoveredInterface) => ({
+          device_id: savedDevice.id,
+          site_id: siteId,
+          user_id: userId,
+          if_index: iface.ifIndex,
+          name: iface.name,
+          description: iface.description,
+          alias: iface.alias,
+          if_type: iface.type,
+          speed_mbps: iface.speedMbps,
+          admin_status: iface.adminStatus,
+          oper_status: iface.operStatus,
+          last_change: iface.lastChange
+        }));
+        
+        const { error: interfaceError } = await supabase
+          .from('device_interfaces')
+          .upsert(interfaceRecords, { onConflict: 'device_id,if_index' });
+        
+        if (interfaceError) {
+          console.error(`Error saving interfaces for device ${device.ip_address}:`, interfaceError);
+        } else {
+          console.log(`Saved ${interfaceRecords.length} interfaces for device ${device.ip_address}`);
+        }
+      }
+      
+      // Save the physical inventory (chassis, stack members, modules, power supplies)
+      if (savedDevice && device.entities && Array.isArray(device.entities) && device.entities.length > 0) {
+        const entityRecords = device.entities.map((entity: DiscoveredEntity) => ({
+          device_id: savedDevice.id,
+          site_id: siteId,
+          user_id: userId,
+          ent_index: entity.entIndex,
+          contained_in: entity.containedIn,
+          entity_class: entity.class,
+          rel_pos: entity.relPos,
+          name: entity.name,
+          description: entity.description,
+          model: entity.model,
+          serial_number: entity.serialNumber,
+          manufacturer: entity.manufacturer,
+          hardware_rev: entity.hardwareRev,
+          firmware_rev: entity.firmwareRev,
+          software_rev: entity.softwareRev,
+          is_fru: entity.isFru
+        }));
+        
+        const { error: entityError } = await supabase
+          .from('device_entities')
+          .upsert(entityRecords, { onConflict: 'device_id,ent_index' });
+        
+        if (entityError) {
+          console.error(`Error saving hardware inventory for device ${device.ip_address}:`, entityError);
+        } else {
+          console.log(`Saved ${entityRecords.length} physical entities for device ${device.ip_address}`);
+        }
+      }
+      
+      // Save the VLAN mode, access/native/allowed VLANs and voice VLAN of each switchport
+      if (savedDevice && device.portVlans && Array.isArray(device.portVlans) && device.portVlans.length > 0) {
+        const portVlanRecords = device.portVlans.map((port: DiscoveredPortVlan) => ({
+          device_id: savedDevice.id,
+          site_id: siteId,
+          user_id: userId,
+          if_index: port.ifIndex,
+          interface: port.interface,
+          mode: port.mode,
+          access_vlan: port.accessVlan,
+          native_vlan: port.nativeVlan,
+          allowed_vlans: port.allowedVlans,
+          voice_vlan: port.voiceVlan
+        }));
+        
+        const { error: portVlanError } = await supabase
+          .from('port_vlans')
+          .upsert(portVlanRecords, { onConflict: 'device_id,if_index' });
+        
+        if (portVlanError) {
+          console.error(`Error saving port VLANs for device ${device.ip_address}:`, portVlanError);
+        } else {
+          console.log(`Saved VLAN configuration for ${portVlanRecords.length} ports on device ${device.ip_address}`);
+        }
+      }
+      
+      // Save the PoE budget per supply and the power state of each PoE port
+      if (savedDevice && device.poe) {
+        const poe: PoeInventory = device.poe;
+        const supplyRecords = poe.supplies.map(supply => ({
+          device_id: savedDevice.id,
+          site_id: siteId,
+          user_id: userId,
+          group_index: supply.group,
+          power_w: supply.powerW,
+          consumption_w: supply.consumptionW,
+          oper_status: supply.operStatus,
+          usage_threshold: supply.usageThreshold
+        }));
+        const portRecords = poe.ports.map(port => ({
+          device_id: savedDevice.id,
+          site_id: siteId,
+          user_id: userId,
+          group_index: port.group,
+          port_index: port.port,
+          interface: port.interface,
+          admin_enabled: port.adminEnabled,
+          detection_status: port.detectionStatus,
+          power_class: port.powerClass,
+          power_mw: port.powerMw,
+          allocated_mw: port.allocatedMw
+        }));
+        
+        const { error: supplyError } = supplyRecords.length > 0
+          ? await supabase.from('poe_supplies').insert(supplyRecords)
+          : { error: null };
+        const { error: portError } = portRecords.length > 0
+          ? await supabase.from('poe_ports').insert(portRecords)
+          : { error: null };
+        
+        if (supplyError || portError) {
+          console.error(`Error saving PoE inventory for device ${device.ip_address}:`, supplyError || portError);
+        } else {
+          console.log(`Saved ${supplyRecords.length} PoE supplies and ${portRecords.length} PoE ports for device ${device.ip_address}`);
+        }
+      }
+      
       // Process MAC addresses if available
       if (device.macAddresses && Array.isArray(device.macAddresses) && device.macAddresses.length > 0) {
         console.log(`Processing ${device.macAddresses.length} MAC addresses for device ${device.ip_address}`);
@@ -70,6 +257,10 @@ export async function saveDiscoveredDevices(
             mac_address: mac.macAddress,
             vlan_id: mac.vlanId,
             device_type: mac.deviceType || 'Unknown',
+            port: mac.port || null,
+            port_description: mac.portDescription || null,
+            port_role: mac.portRole || null,
+            device_id: savedDevice?.id || null,
             site_id: siteId,
             subnet_id: subnetId,
             user_id: userId
@@ -0,0 +1,260 @@
+import { DeviceData, DeviceLinkData, DeviceVlanData, MergedVlan, PortVlanData } from "@/types/network";
+import { supabase } from "@/integrations/supabase/client";
+import { fetchAllRows } from "../supabasePaging";
+import { normalizeMac } from "./arpDiscovery";
+import { mergeSwitchVlans } from "./vlanDiscovery";
+import { getSitePortVlans, portCarriesVlan } from "./portVlanDiscovery";
+
+/**
+ * VLAN consistency report
+ * Finds VLANs to clean up before they are mapped to Nile segments: VLANs no endpoint uses, VLANs that
+ * cannot reach all of their switches because a switch in between does not have them or a trunk in between
+ * does not allow them, and VLANs named differently on different switches
+ */
+
+export interface TrunkGap {
+  vlanId: number;
+  name: string;
+  switches: string[]; // Switches the VLAN is configured on
+  missingOn: string[]; // Switches on the path between them that do not have it
+  prunedOn: string[]; // Links on that path whose trunk ports do not allow it, as "switch port - switch port"
+}
+
+export interface VlanConsistencyReport {
+  unusedVlans: { vlanId: number; name: string }[] | null; // null until MACs have been discovered for the site
+  macCountError?: string; // Set when the MAC counts could not be loaded, so unusedVlans is unknown rather than empty
+  trunkGaps: TrunkGap[];
+  nameMismatches: MergedVlan[];
+  polledSwitches: number;
+}
+
+// CDP reports NX-OS names as "switch(SERIAL)" and both protocols may include the domain
+function getShortName(name: string | null | undefined): string {
+  return (name || "").replace(/\(.*\)$/, "").split(".")[0].trim().toLowerCase();
+}
+
+/**
+ * The site device at the far end of a neighbor link, matched by management address, chassis MAC or name
+ */
+export function findLinkedDevice(link: DeviceLinkData, devices: DeviceData[]): DeviceData | undefined {
+  const chassisId = normalizeMac(link.remote_chassis_id || "");
+  const sysName = getShortName(link.remote_sys_name);
+
+  return devices.find(device => device.id !== link.device_id && (
+    (link.remote_management_address && device.ip_address === link.remote_management_address)
+    || (chassisId.length === 12 && device.mac_address && normalizeMac(device.mac_address) === chassisId)
+    || (sysName && getShortName(device.hostname) === sysName)
+  ));
+}
+
+/**
+ * Switches that lack a VLAN and links that do not carry it on the shortest path between switches that have it
+ * @param carries Whether the link between two switches passes the VLAN
+ */
+function findMissingOnPath(
+  vlanSwitches: Set<string>,
+  neighbors: Map<string, Set<string>>,
+  carries: (a: string, b: string) => boolean
+): { missingOn: string[]; prunedLinks: [string, string][] } {
+  // Group the VLAN's switches by what they can reach over links and switches that also carry the VLAN
+  const components: Set<string>[] = [];
+  const seen = new Set<string>();
+  for (const start of vlanSwitches) {
+    if (seen.has(start)) continue;
+    const component = new Set<string>([start]);
+    const queue = [start];
+    seen.add(start);
+    while (queue.length > 0) {
+      const current = queue.shift() as string;
+      for (const next of neighbors.get(current) || []) {
+        if (vlanSwitches.has(next) && !seen.has(next) && carries(current, next)) {
+          seen.add(next);
+          component.add(next);
+          queue.push(next);
+        }
+      }
+    }
+    components.push(component);
+  }
+
+  if (components.length < 2) return { missingOn: [], prunedLinks: [] };
+
+  // Walk out from the first group through any switch and trace the path to each other group
+  const previous = new Map<string, string | null>();
+  const queue = Array.from(components[0]);
+  queue.forEach(id => previous.set(id, null));
+  while (queue.length > 0) {
+    const current = queue.shift() as string;
+    for (const next of neighbors.get(current) || []) {
+      if (!previous.has(next)) {
+        previous.set(next, current);
+        queue.push(next);
+      }
+    }
+  }
+
+  const missing = new Set<string>();
+  const pruned = new Map<string, [string, string]>();
+  components.slice(1).forEach(component => {
+    let step = Array.from(component).find(id => previous.has(id));
+    while (step) {
+      const from = previous.get(step) || undefined;
+      if (!vlanSwitches.has(step)) missing.add(step);
+      if (from && !carries(from, step)) pruned.set([from, step].sort().join("|"), [from, step]);
+      step = from;
+    }
+  });
+  return { missingOn: Array.from(missing), prunedLinks: Array.from(pruned.values()) };
+}
+
+/**
+ * Build the report from per-switch VLANs, neighbor links, port VLAN configuration and the number of MACs seen in each VLAN
+ * @param macCounts MACs per VLAN ID, or null when no MACs have been discovered yet
+ * @param portVlans Per-port VLAN configuration; links whose ports have none are assumed to carry every VLAN
+ */
+export function buildVlanConsistencyReport(
+  vlans: { vlanId: number; name: string }[],
+  devices: DeviceData[],
+  deviceVlans: DeviceVlanData[],
+  links: DeviceLinkData[],
+  macCounts: Map<number, number> | null,
+  portVlans: PortVlanData[] = []
+): VlanConsistencyReport {
+  const getSwitchName = (device: DeviceData) => device.hostname || device.ip_address;
+  const polled = devices.filter(device => deviceVlans.some(row => row.device_id === device.id));
+
+  // Only links between two polled switches can carry a VLAN we know about
+  const neighbors = new Map<string, Set<string>>(polled.map(device => [device.id, new Set<string>()]));
+  // Each switch reports the link under its own port name, which is how port_vlans names the port too
+  const linkPorts = new Map<string, { deviceId: string; port: string }[]>();
+  const getLinkKey = (a: string, b: string) => [a, b].sort().join("|");
+  links.forEach(link => {
+    const remote = findLinkedDevice(link, polled);
+    if (remote && neighbors.has(link.device_id)) {
+      neighbors.get(link.device_id)?.add(remote.id);
+      neighbors.get(remote.id)?.add(link.device_id);
+      const key = getLinkKey(link.device_id, remote.id);
+      linkPorts.set(key, [...(linkPorts.get(key) || []), { deviceId: link.device_id, port: link.local_port }]);
+    }
+  });
+
+  const portConfig = new Map(portVlans.map(port => [`${port.device_id}|${port.interface}`, port]));
+  const linkCarries = (vlanId: number) => (a: string, b: string) =>
+    (linkPorts.get(getLinkKey(a, b)) || []).every(({ deviceId, port }) => {
+      const config = portConfig.get(`${deviceId}|${port}`);
+      return !config || portCarriesVlan(config, vlanId);
+    });
+  const getDevice = (id: string) => polled.find(device => device.id === id) as DeviceData;
+  const describeLink = ([a, b]: [string, string]) => {
+    const ports = linkPorts.get(getLinkKey(a, b)) || [];
+    return [a, b].map(id => {
+      const port = ports.find(item => item.deviceId === id)?.port;
+      return port ? `${getSwitchName(getDevice(id))} ${port}` : getSwitchName(getDevice(id));
+    }).join(" - ");
+  };
+
+  const trunkGaps: TrunkGap[] = [];
+  vlans.forEach(vlan => {
+    const vlanSwitches = new Set(
+      deviceVlans.filter(row => row.vlan_id === vlan.vlanId).map(row => row.device_id)
+    );
+    const { missingOn, prunedLinks } = findMissingOnPath(vlanSwitches, neighbors, linkCarries(vlan.vlanId));
+    if (missingOn.length > 0 || prunedLinks.length > 0) {
+      trunkGaps.push({
+        vlanId: vlan.vlanId,
+        name: vlan.name,
+        switches: polled.filter(device => vlanSwitches.has(device.id)).map(getSwitchName),
+        missingOn: polled.filter(device => missingOn.includes(device.id)).map(getSwitchName),
+        prunedOn: prunedLinks.map(describeLink)
+      });
+    }
+  });
+
+  const merged = mergeSwitchVlans(polled.map(device => ({
+    switchName: getSwitchName(device),
+    vlans: deviceVlans
+      .filter(row => row.device_id === device.id)
+      .map(row => ({ vlanId: row.vlan_id, name: row.name }))
+  })));
+
+  return {
+    unusedVlans: macCounts ? vlans.filter(vlan => !macCounts.get(vlan.vlanId)) : null,
+    trunkGaps,
+    nameMismatches: merged.filter(vlan => vlan.nameVariants.length > 1 && vlans.some(item => item.vlanId === vlan.vlanId)),
+    polledSwitches: polled.length
+  };
+}
+
+/**
+ * Count a site's MAC addresses in each VLAN, or null when no MACs have been discovered for the site
+ * Only the VLAN column is read, a page at a time, so large sites neither hit the row cap nor send a query per VLAN
+ * Throws when the MACs cannot be read, so a failed read is not mistaken for VLANs without endpoints
+ */
+export async function getMacCountsByVlan(siteId: string, vlanIds: number[]): Promise<Map<number, number> | null> {
+  let rows: { vlan_id: number }[];
+  try {
+    rows = await fetchAllRows<{ vlan_id: number }>((from, to) => supabase
+      .from('mac_addresses')
+      .select('vlan_id')
+      .eq('site_id', siteId)
+      .order('id', { ascending: true })
+      .range(from, to));
+  } catch (error) {
+    console.error(`Error counting MAC addresses for site ${siteId}:`, error);
+    throw new Error(`Failed to count MAC addresses: ${error instanceof Error ? error.message : error}`);
+  }
+
+  if (rows.length === 0) return null;
+
+  const counts = new Map<number, number>(vlanIds.map(vlanId => [vlanId, 0]));
+  rows.forEach(row => {
+    if (counts.has(row.vlan_id)) counts.set(row.vlan_id, (counts.get(row.vlan_id) as number) + 1);
+  });
+  return counts;
+}
+
+/**
+ * Load a site's per-switch VLANs, neighbor links, port VLANs and MAC counts and build its consistency report
+ */
+export async function getVlanConsistencyReport(
+  siteId: string,
+  devices: DeviceData[],
+  vlans: { vlanId: number; name: string }[]
+): Promise<VlanConsistencyReport> {
+  const [deviceVlans, links] = await Promise.all([
+    fetchAllRows<DeviceVlanData>((from, to) => supabase
+      .from('device_vlans')
+      .select('*')
+      .eq('site_id', siteId)
+      .order('id', { ascending: true })
+      .range(from, to)
+    ).catch(error => {
+      console.error(`Error loading switch VLANs for site ${siteId}:`, error);
+      return [] as DeviceVlanData[];
+    }),
+    fetchAllRows<DeviceLinkData>((from, to) => supabase
+      .from('device_links')
+      .select('*')
+      .eq('site_id', siteId)
+      .order('id', { ascending: true })
+      .range(from, to)
+    ).catch(error => {
+      console.error(`Error loading neighbor links for site ${siteId}:`, error);
+      return [] as DeviceLinkData[];
+    })
+  ]);
+  const portVlans = await getSitePortVlans(siteId).catch(() => [] as PortVlanData[]);
+
+  let macCounts: Map<number, number> | null = null;
+  let macCountError: string | undefined;
+  try {
+    macCounts = await getMacCountsByVlan(siteId, vlans.map(vlan => vlan.vlanId));
+  } catch (error) {
+    macCountError = error instanceof Error ? error.message : String(error);
+  }
+
+  return {
+    ...buildVlanConsistencyReport(vlans, devices, deviceVlans, links, macCounts, portVlans),
+    macCountError
+  };
+}
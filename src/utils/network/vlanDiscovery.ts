@@ -1,10 +1,13 @@
 
-import { DiscoveredVlan } from "../../types/network";
+import { DeviceData, DeviceNeighbor, DeviceVlanData, DiscoveredVlan, MergedVlan, SnmpV3Credentials } from "../../types/network";
+import { supabase } from "@/integrations/supabase/client";
 import { connectToSwitch } from "../deviceConnection";
 import { executeCommands } from "../deviceConnection";
 import { parseVlanOutput } from "./vlanParsing";
 import { isValidVlanId } from "../networkValidation";
 import { callBackendApi, disconnectSession, getDeviceHostname } from "../apiClient";
+import { getSnmpConnectionForSubnet } from "./snmpCredentials";
+import { fetchAllRows } from "../supabasePaging";
 
 /**
  * Discover VLANs from a network switch using specified connection details
@@ -13,13 +16,18 @@ export async function discoverVlans(
   ip: string,
   community: string = "public",
   version: "1" | "2c" | "3" = "2c",
-  make: string = "Cisco"
+  make?: string,
+  v3?: SnmpV3Credentials
 ): Promise<{
   vlans: DiscoveredVlan[];
   deviceHostname?: string;
+  discoveryMethod?: "vtp" | "qbridge";
+  neighbors?: DeviceNeighbor[]; // CDP neighbors, collected alongside VTP on Cisco devices
   rawData?: {
     vlanState: { oid: string; value: string }[];
     vlanName: { oid: string; value: string }[];
+    qbridgeName?: { oid: string; value: string }[];
+    qbridgeEgress?: { oid: string; value: string; bridgePorts: number[] }[];
     ipAddrIfIndex?: { oid: string; value: string; ipAddress: string; ifIndex: number }[];
     ipAddrNetMask?: { oid: string; value: string; ipAddress: string; subnet: string }[];
     ifDescr?: { oid: string; value: string; ifIndex: number; vlanId: number }[];
@@ -31,7 +39,7 @@ export async function discoverVlans(
     // Get device hostname first
     let deviceHostname = null;
     try {
-      deviceHostname = await getDeviceHostname(ip, community, version);
+      deviceHostname = await getDeviceHostname(ip, community, version, v3);
       console.log(`Using hostname for device: ${deviceHostname || 'Not available'}`);
     } catch (e) {
       console.warn(`Could not retrieve device hostname: ${e instanceof Error ? e.message : 'Unknown error'}`);
@@ -43,7 +51,8 @@ export async function discoverVlans(
       ip,
       community,
       version,
-      make
+      make,
+      v3
     });
     
     console.log(`VLAN discovery API response for ${ip}:`, result);
@@ -94,7 +103,8 @@ export async function discoverVlans(
         subnet: vlan.subnet,
         // Use hostname instead of IP address if available
         usedBy: Array.isArray(vlan.usedBy) && vlan.usedBy.length > 0 ? vlan.usedBy : [deviceIdentifier],
-        deviceHostname: deviceIdentifier !== ip ? deviceIdentifier : undefined // Save device hostname explicitly
+        deviceHostname: deviceIdentifier !== ip ? deviceIdentifier : undefined, // Save device hostname explicitly
+        ports: Array.isArray(vlan.ports) ? vlan.ports : undefined
       });
     }
     
@@ -119,7 +129,7 @@ export async function discoverVlans(
     if (result.activeCount !== undefined && result.inactiveCount !== undefined) {
       console.log(`Discovered ${validVlans.length} active VLANs from ${deviceIdentifier} (backend reported ignoring ${result.inactiveCount} inactive VLANs)`);
     } else {
-      console.log(`Discovered ${validVlans.length} VLANs from ${deviceIdentifier}`);
+      console.log(`Discovered ${validVlans.length} VLANs from ${deviceIdentifier} via ${result.discoveryMethod === "qbridge" ? "Q-BRIDGE-MIB" : "Cisco VTP"}`);
     }
     
     if (validVlans.length > 4094) {
@@ -128,6 +138,8 @@ export async function discoverVlans(
       return {
         vlans: validVlans.slice(0, 4094),
         deviceHostname: deviceIdentifier !== ip ? deviceIdentifier : undefined,
+        discoveryMethod: result.discoveryMethod,
+        neighbors: result.neighbors,
         rawData: result.rawData
       };
     }
@@ -135,6 +147,8 @@ export async function discoverVlans(
     return {
       vlans: validVlans,
       deviceHostname: deviceIdentifier !== ip ? deviceIdentifier : undefined,
+      discoveryMethod: result.discoveryMethod,
+      neighbors: result.neighbors,
       rawData: result.rawData
     };
   } catch (error) {
@@ -142,3 +156,147 @@ export async function discoverVlans(
     return { vlans: [], rawData: { vlanState: [], vlanName: [] } };
   }
 }
+
+/**
+ * VLANs found on one switch
+ */
+export interface SwitchVlans {
+  device: DeviceData;
+  vlans: DiscoveredVlan[];
+}
+
+/**
+ * Discover VLANs from every switch in a site, each with the SNMP credentials of its own subnet
+ * Switches that fail are skipped and returned in failedSwitches
+ */
+export async function discoverSiteVlans(
+  switches: DeviceData[],
+  updateProgress?: (message: string, progress: number) => void
+): Promise<{ results: SwitchVlans[]; failedSwitches: DeviceData[] }> {
+  const results: SwitchVlans[] = [];
+  const failedSwitches: DeviceData[] = [];
+
+  for (const [index, device] of switches.entries()) {
+    const switchName = device.hostname || device.ip_address;
+    if (updateProgress) {
+      updateProgress(`Discovering VLANs on ${switchName} (${index + 1} of ${switches.length})...`, Math.round((index / switches.length) * 100));
+    }
+
+    const snmp = await getSnmpConnectionForSubnet(device.subnet_id);
+    const { vlans } = await discoverVlans(device.ip_address, snmp.community, snmp.version, device.make || undefined, snmp.v3);
+
+    if (vlans.length === 0) {
+      console.warn(`No VLANs discovered on ${switchName}`);
+      failedSwitches.push(device);
+    } else {
+      results.push({ device, vlans });
+    }
+  }
+
+  if (updateProgress) {
+    updateProgress(`Discovered VLANs on ${results.length} of ${switches.length} switches`, 100);
+  }
+  return { results, failedSwitches };
+}
+
+/**
+ * Merge per-switch VLANs by VLAN ID, keeping which switches carry each VLAN and under which names
+ */
+export function mergeSwitchVlans(
+  results: { switchName: string; vlans: { vlanId: number; name?: string | null; subnet?: string | null; ports?: string[] }[] }[]
+): MergedVlan[] {
+  const merged = new Map<number, MergedVlan>();
+
+  results.forEach(({ switchName, vlans }) => {
+    vlans.forEach(vlan => {
+      const entry = merged.get(vlan.vlanId) || { vlanId: vlan.vlanId, name: "", switches: [], ports: [], nameVariants: [] };
+
+      if (!entry.switches.includes(switchName)) {
+        entry.switches.push(switchName);
+      }
+      entry.subnet = entry.subnet || vlan.subnet || undefined;
+      // Port names repeat across switches, so qualify them with the switch
+      (vlan.ports || []).forEach(port => entry.ports.push(`${switchName} ${port}`));
+
+      const name = vlan.name?.trim();
+      if (name) {
+        const variant = entry.nameVariants.find(item => item.name === name);
+        if (variant) {
+          variant.switches.push(switchName);
+        } else {
+          entry.nameVariants.push({ name, switches: [switchName] });
+        }
+      }
+
+      merged.set(vlan.vlanId, entry);
+    });
+  });
+
+  return Array.from(merged.values())
+    .map(entry => {
+      entry.nameVariants.sort((a, b) => b.switches.length - a.switches.length);
+      return { ...entry, name: entry.nameVariants[0]?.name || `VLAN${entry.vlanId}` };
+    })
+    .sort((a, b) => a.vlanId - b.vlanId);
+}
+
+/**
+ * Replace the stored VLANs of each polled switch with what was just discovered
+ */
+export async function saveDeviceVlans(siteId: string, userId: string, results: SwitchVlans[]): Promise<void> {
+  for (const { device, vlans } of results) {
+    const { error: deleteError } = await supabase
+      .from('device_vlans')
+      .delete()
+      .eq('device_id', device.id);
+
+    if (deleteError) {
+      console.error(`Error clearing VLANs for device ${device.ip_address}:`, deleteError);
+      continue;
+    }
+
+    const { error } = await supabase
+      .from('device_vlans')
+      .insert(vlans.map(vlan => ({
+        device_id: device.id,
+        site_id: siteId,
+        user_id: userId,
+        vlan_id: vlan.vlanId,
+        name: vlan.name || null,
+        subnet: vlan.subnet || null
+      })));
+
+    if (error) {
+      console.error(`Error saving VLANs for device ${device.ip_address}:`, error);
+    }
+  }
+}
+
+/**
+ * Load the per-switch VLANs of a site and merge them
+ */
+export async function getSiteVlanPresence(siteId: string, devices: DeviceData[]): Promise<MergedVlan[]> {
+  let rows: DeviceVlanData[];
+  try {
+    rows = await fetchAllRows<DeviceVlanData>((from, to) => supabase
+      .from('device_vlans')
+      .select('*')
+      .eq('site_id', siteId)
+      .order('id', { ascending: true })
+      .range(from, to));
+  } catch (error) {
+    console.error(`Error loading switch VLANs for site ${siteId}:`, error);
+    return [];
+  }
+
+  return mergeSwitchVlans(
+    devices
+      .map(device => ({
+        switchName: device.hostname || device.ip_address,
+        vlans: rows
+          .filter(row => row.device_id === device.id)
+          .map(row => ({ vlanId: row.vlan_id, name: row.name, subnet: row.subnet }))
+      }))
+      .filter(result => result.vlans.length > 0)
+  );
+}
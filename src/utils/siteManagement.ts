@@ -105,7 +105,116 @@ export const deleteSite = async ({
     }
     console.log("VLANs deleted successfully");
     
-    // Step 5: Delete related devices
+    // Step 5: Delete related devices, starting with their neighbor links
+    console.log("Deleting related device links...");
+    const { error: linkError } = await supabase
+      .from('device_links')
+      .delete()
+      .eq('site_id', siteId);
+    
+    if (linkError) {
+      console.error("Error deleting device links:", linkError);
+      throw new Error(`Failed to delete device links: ${linkError.message}`);
+    }
+    
+    console.log("Deleting related IP/MAC bindings...");
+    const { error: bindingError } = await supabase
+      .from('ip_mac_bindings')
+      .delete()
+      .eq('site_id', siteId);
+    
+    if (bindingError) {
+      console.error("Error deleting IP/MAC bindings:", bindingError);
+      throw new Error(`Failed to delete IP/MAC bindings: ${bindingError.message}`);
+    }
+    
+    console.log("Deleting related device interfaces...");
+    const { error: interfaceError } = await supabase
+      .from('device_interfaces')
+      .delete()
+      .eq('site_id', siteId);
+    
+    if (interfaceError) {
+      console.error("Error deleting device interfaces:", interfaceError);
+      throw new Error(`Failed to delete device interfaces: ${interfaceError.message}`);
+    }
+    
+    console.log("Deleting related switch VLANs...");
+    const { error: deviceVlanError } = await supabase
+      .from('device_vlans')
+      .delete()
+      .eq('site_id', siteId);
+    
+    if (deviceVlanError) {
+      console.error("Error deleting switch VLANs:", deviceVlanError);
+      throw new Error(`Failed to delete switch VLANs: ${deviceVlanError.message}`);
+    }
+    
+    console.log("Deleting related segment plan...");
+    const { error: segmentError } = await supabase
+      .from('segments')
+      .delete()
+      .eq('site_id', siteId);
+    
+    if (segmentError) {
+      console.error("Error deleting segment plan:", segmentError);
+      throw new Error(`Failed to delete segment plan: ${segmentError.message}`);
+    }
+    
+    console.log("Deleting related port VLANs...");
+    const { error: portVlanError } = await supabase
+      .from('port_vlans')
+      .delete()
+      .eq('site_id', siteId);
+    
+    if (portVlanError) {
+      console.error("Error deleting port VLANs:", portVlanError);
+      throw new Error(`Failed to delete port VLANs: ${portVlanError.message}`);
+    }
+    
+    console.log("Deleting related hardware inventory...");
+    const { error: entityError } = await supabase
+      .from('device_entities')
+      .delete()
+      .eq('site_id', siteId);
+    
+    if (entityError) {
+      console.error("Error deleting hardware inventory:", entityError);
+      throw new Error(`Failed to delete hardware inventory: ${entityError.message}`);
+    }
+    
+    console.log("Deleting related PoE inventory...");
+    const { error: poePortError } = await supabase
+      .from('poe_ports')
+      .delete()
+      .eq('site_id', siteId);
+    
+    if (poePortError) {
+      console.error("Error deleting PoE ports:", poePortError);
+      throw new Error(`Failed to delete PoE ports: ${poePortError.message}`);
+    }
+    
+    const { error: poeSupplyError } = await supabase
+      .from('poe_supplies')
+      .delete()
+      .eq('site_id', siteId);
+    
+    if (poeSupplyError) {
+      console.error("Error deleting PoE supplies:", poeSupplyError);
+      throw new Error(`Failed to delete PoE supplies: ${poeSupplyError.message}`);
+    }
+    
+    console.log("Deleting related classification rules...");
+    const { error: ruleError } = await supabase
+      .from('classification_rules')
+      .delete()
+      .eq('site_id', siteId);
+    
+    if (ruleError) {
+      console.error("Error deleting classification rules:", ruleError);
+      throw new Error(`Failed to delete classification rules: ${ruleError.message}`);
+    }
+    
     console.log("Deleting related devices...");
     
     const { error: deviceSiteError } = await supabase
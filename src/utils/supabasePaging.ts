@@ -0,0 +1,29 @@
+/**
+ * Paged reads for site tables that can outgrow a single Supabase select
+ */
+
+// Supabase returns at most this many rows per select unless the project raises its max-rows setting
+const PAGE_SIZE = 1000;
+
+/**
+ * Fetch every row of a query one page at a time
+ * The query must have a stable order (e.g. by id) so pages neither overlap nor skip rows
+ * @param buildQuery - Builds the query for the given inclusive row range, usually ending in .range(from, to)
+ * @returns {Promise<T[]>} All matching rows
+ */
+export async function fetchAllRows<T>(
+  buildQuery: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: { message: string } | null }>
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await buildQuery(from, from + PAGE_SIZE - 1);
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) {
+      return rows;
+    }
+  }
+}
@@ -0,0 +1,11 @@
+
+-- SNMPv3 (USM) credentials per subnet
+ALTER TABLE public.subnets
+  ADD COLUMN IF NOT EXISTS snmp_v3_security_name TEXT,
+  ADD COLUMN IF NOT EXISTS snmp_v3_security_level TEXT
+    CHECK (snmp_v3_security_level IN ('noAuthNoPriv', 'authNoPriv', 'authPriv')),
+  ADD COLUMN IF NOT EXISTS snmp_v3_auth_protocol TEXT,
+  ADD COLUMN IF NOT EXISTS snmp_v3_auth_password TEXT,
+  ADD COLUMN IF NOT EXISTS snmp_v3_priv_protocol TEXT,
+  ADD COLUMN IF NOT EXISTS snmp_v3_priv_password TEXT,
+  ADD COLUMN IF NOT EXISTS snmp_v3_context TEXT;
@@ -0,0 +1,5 @@
+
+-- Switch interface each MAC address was learned on, used for "lock to port" in the Nile export
+ALTER TABLE public.mac_addresses
+  ADD COLUMN IF NOT EXISTS port TEXT,
+  ADD COLUMN IF NOT EXISTS port_description TEXT;
@@ -0,0 +1,5 @@
+
+-- Role of the switch port each MAC was learned on; MACs seen on trunks/uplinks are transit MACs
+ALTER TABLE public.mac_addresses
+  ADD COLUMN IF NOT EXISTS port_role TEXT
+    CHECK (port_role IN ('access', 'trunk', 'uplink'));
@@ -0,0 +1,39 @@
+
+-- Neighbor links discovered via LLDP, one row per neighbor seen on a local port
+CREATE TABLE IF NOT EXISTS public.device_links (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  device_id UUID NOT NULL REFERENCES public.devices(id) ON DELETE CASCADE,
+  site_id UUID NOT NULL REFERENCES public.sites(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  protocol TEXT NOT NULL DEFAULT 'lldp',
+  local_port TEXT NOT NULL,
+  remote_chassis_id TEXT,
+  remote_port TEXT,
+  remote_port_description TEXT,
+  remote_sys_name TEXT,
+  remote_sys_description TEXT,
+  remote_capabilities TEXT[],
+  remote_management_address TEXT,
+  discovered_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS device_links_device_id_idx ON public.device_links(device_id);
+CREATE INDEX IF NOT EXISTS device_links_site_id_idx ON public.device_links(site_id);
+
+ALTER TABLE public.device_links ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own device links"
+  ON public.device_links FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own device links"
+  ON public.device_links FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own device links"
+  ON public.device_links FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own device links"
+  ON public.device_links FOR DELETE
+  USING (auth.uid() = user_id);
@@ -0,0 +1,7 @@
+-- CDP neighbors carry a platform string and native VLAN that LLDP does not
+ALTER TABLE public.device_links
+  ADD COLUMN IF NOT EXISTS platform TEXT,
+  ADD COLUMN IF NOT EXISTS native_vlan INTEGER;
+
+ALTER TABLE public.device_links
+  ADD CONSTRAINT device_links_protocol_check CHECK (protocol IN ('lldp', 'cdp'));
@@ -0,0 +1,36 @@
+-- IP <-> MAC <-> VLAN bindings harvested from router and L3 switch ARP caches
+CREATE TABLE IF NOT EXISTS public.ip_mac_bindings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- Kept when the reporting device is replaced on rediscovery, so the last known IP outlives the ARP cache
+  device_id UUID REFERENCES public.devices(id) ON DELETE SET NULL,
+  site_id UUID NOT NULL REFERENCES public.sites(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  mac_address TEXT NOT NULL,
+  ip_address TEXT NOT NULL,
+  vlan_id INTEGER,
+  interface TEXT,
+  last_seen TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  -- Redundant gateways (HSRP/VRRP pairs) report the same binding, keep one row per site
+  CONSTRAINT ip_mac_bindings_site_mac_ip_key UNIQUE (site_id, mac_address, ip_address)
+);
+
+CREATE INDEX IF NOT EXISTS ip_mac_bindings_site_id_idx ON public.ip_mac_bindings(site_id);
+CREATE INDEX IF NOT EXISTS ip_mac_bindings_mac_address_idx ON public.ip_mac_bindings(mac_address);
+
+ALTER TABLE public.ip_mac_bindings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own IP/MAC bindings"
+  ON public.ip_mac_bindings FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own IP/MAC bindings"
+  ON public.ip_mac_bindings FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own IP/MAC bindings"
+  ON public.ip_mac_bindings FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own IP/MAC bindings"
+  ON public.ip_mac_bindings FOR DELETE
+  USING (auth.uid() = user_id);
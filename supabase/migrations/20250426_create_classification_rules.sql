@@ -0,0 +1,41 @@
+-- Per-site rules that classify endpoint MACs (phone, camera, printer, ...) from vendor, neighbor, DHCP and port signals
+CREATE TABLE IF NOT EXISTS public.classification_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  site_id UUID NOT NULL REFERENCES public.sites(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  signal TEXT NOT NULL CHECK (signal IN ('vendor', 'capability', 'neighbor', 'dhcp', 'port')),
+  pattern TEXT NOT NULL,
+  device_type TEXT NOT NULL CHECK (device_type IN ('Phone', 'Camera', 'Printer', 'IoT', 'Workstation', 'AP')),
+  weight INTEGER NOT NULL CHECK (weight BETWEEN 1 AND 100),
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS classification_rules_site_id_idx ON public.classification_rules(site_id);
+
+ALTER TABLE public.classification_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own classification rules"
+  ON public.classification_rules FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own classification rules"
+  ON public.classification_rules FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own classification rules"
+  ON public.classification_rules FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own classification rules"
+  ON public.classification_rules FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Confidence (0-100) of the classification stored in mac_addresses.device_type
+ALTER TABLE public.mac_addresses
+  ADD COLUMN IF NOT EXISTS device_type_confidence INTEGER CHECK (device_type_confidence BETWEEN 0 AND 100);
+
+-- LLDP-MED device class advertised by endpoints (endpointClass3 = voice)
+ALTER TABLE public.device_links
+  ADD COLUMN IF NOT EXISTS med_device_class TEXT;
@@ -0,0 +1,70 @@
+-- PoE budget per power sourcing equipment (PSE) group, from POWER-ETHERNET-MIB pethMainPseTable
+CREATE TABLE IF NOT EXISTS public.poe_supplies (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  device_id UUID NOT NULL REFERENCES public.devices(id) ON DELETE CASCADE,
+  site_id UUID NOT NULL REFERENCES public.sites(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  group_index INTEGER NOT NULL,
+  power_w INTEGER,
+  consumption_w INTEGER,
+  oper_status TEXT,
+  usage_threshold INTEGER,
+  discovered_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Per-port PoE state and draw, from pethPsePortTable (power readings from vendor MIBs where available)
+CREATE TABLE IF NOT EXISTS public.poe_ports (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  device_id UUID NOT NULL REFERENCES public.devices(id) ON DELETE CASCADE,
+  site_id UUID NOT NULL REFERENCES public.sites(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  group_index INTEGER NOT NULL,
+  port_index INTEGER NOT NULL,
+  interface TEXT,
+  admin_enabled BOOLEAN NOT NULL DEFAULT true,
+  detection_status TEXT,
+  power_class INTEGER CHECK (power_class BETWEEN 0 AND 8),
+  power_mw INTEGER,
+  allocated_mw INTEGER,
+  discovered_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS poe_supplies_device_id_idx ON public.poe_supplies(device_id);
+CREATE INDEX IF NOT EXISTS poe_supplies_site_id_idx ON public.poe_supplies(site_id);
+CREATE INDEX IF NOT EXISTS poe_ports_device_id_idx ON public.poe_ports(device_id);
+CREATE INDEX IF NOT EXISTS poe_ports_site_id_idx ON public.poe_ports(site_id);
+
+ALTER TABLE public.poe_supplies ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.poe_ports ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own PoE supplies"
+  ON public.poe_supplies FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own PoE supplies"
+  ON public.poe_supplies FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own PoE supplies"
+  ON public.poe_supplies FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own PoE supplies"
+  ON public.poe_supplies FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own PoE ports"
+  ON public.poe_ports FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own PoE ports"
+  ON public.poe_ports FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own PoE ports"
+  ON public.poe_ports FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own PoE ports"
+  ON public.poe_ports FOR DELETE
+  USING (auth.uid() = user_id);
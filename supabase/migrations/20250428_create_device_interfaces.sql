@@ -0,0 +1,39 @@
+-- Interface inventory per device from IF-MIB ifTable/ifXTable
+CREATE TABLE IF NOT EXISTS public.device_interfaces (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  device_id UUID NOT NULL REFERENCES public.devices(id) ON DELETE CASCADE,
+  site_id UUID NOT NULL REFERENCES public.sites(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  if_index INTEGER NOT NULL,
+  name TEXT NOT NULL,
+  description TEXT,
+  alias TEXT,
+  if_type INTEGER,
+  speed_mbps INTEGER,
+  admin_status TEXT,
+  oper_status TEXT,
+  last_change TIMESTAMP WITH TIME ZONE,
+  discovered_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT device_interfaces_device_if_index_key UNIQUE (device_id, if_index)
+);
+
+CREATE INDEX IF NOT EXISTS device_interfaces_device_id_idx ON public.device_interfaces(device_id);
+CREATE INDEX IF NOT EXISTS device_interfaces_site_id_idx ON public.device_interfaces(site_id);
+
+ALTER TABLE public.device_interfaces ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own device interfaces"
+  ON public.device_interfaces FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own device interfaces"
+  ON public.device_interfaces FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own device interfaces"
+  ON public.device_interfaces FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own device interfaces"
+  ON public.device_interfaces FOR DELETE
+  USING (auth.uid() = user_id);
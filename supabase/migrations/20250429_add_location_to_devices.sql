@@ -0,0 +1,3 @@
+-- sysLocation, used to group switches into wiring closets for hardware sizing
+ALTER TABLE public.devices
+  ADD COLUMN IF NOT EXISTS location TEXT;
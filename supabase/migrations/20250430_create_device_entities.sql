@@ -0,0 +1,44 @@
+-- Physical inventory per device from ENTITY-MIB entPhysicalTable
+-- contained_in keeps the containment tree, so stack members and line cards can be listed individually
+CREATE TABLE IF NOT EXISTS public.device_entities (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  device_id UUID NOT NULL REFERENCES public.devices(id) ON DELETE CASCADE,
+  site_id UUID NOT NULL REFERENCES public.sites(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  ent_index INTEGER NOT NULL,
+  contained_in INTEGER,
+  entity_class TEXT NOT NULL,
+  rel_pos INTEGER,
+  name TEXT,
+  description TEXT,
+  model TEXT,
+  serial_number TEXT,
+  manufacturer TEXT,
+  hardware_rev TEXT,
+  firmware_rev TEXT,
+  software_rev TEXT,
+  is_fru BOOLEAN NOT NULL DEFAULT false,
+  discovered_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT device_entities_device_ent_index_key UNIQUE (device_id, ent_index)
+);
+
+CREATE INDEX IF NOT EXISTS device_entities_device_id_idx ON public.device_entities(device_id);
+CREATE INDEX IF NOT EXISTS device_entities_site_id_idx ON public.device_entities(site_id);
+
+ALTER TABLE public.device_entities ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own device entities"
+  ON public.device_entities FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own device entities"
+  ON public.device_entities FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own device entities"
+  ON public.device_entities FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own device entities"
+  ON public.device_entities FOR DELETE
+  USING (auth.uid() = user_id);
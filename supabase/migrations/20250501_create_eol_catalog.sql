@@ -0,0 +1,33 @@
+-- User-editable catalog of vendor end-of-sale / end-of-support dates, matched against device models
+-- Users without entries fall back to the catalog bundled with the app
+CREATE TABLE IF NOT EXISTS public.eol_catalog (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL,
+  vendor TEXT NOT NULL,
+  model_pattern TEXT NOT NULL,
+  end_of_sale DATE,
+  end_of_support DATE,
+  notes TEXT,
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS eol_catalog_user_id_idx ON public.eol_catalog(user_id);
+
+ALTER TABLE public.eol_catalog ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own EoL catalog"
+  ON public.eol_catalog FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own EoL catalog"
+  ON public.eol_catalog FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own EoL catalog"
+  ON public.eol_catalog FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own EoL catalog"
+  ON public.eol_catalog FOR DELETE
+  USING (auth.uid() = user_id);
@@ -0,0 +1,35 @@
+-- User-defined sysObjectID mappings: enterprise OID prefix -> vendor, and sysObjectID -> model
+-- Checked before the built-in vendor map and sysDescr model parsing
+CREATE TABLE IF NOT EXISTS public.identification_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL,
+  rule_type TEXT NOT NULL CHECK (rule_type IN ('vendor', 'model')),
+  oid_prefix TEXT NOT NULL,
+  value TEXT NOT NULL,
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS identification_rules_user_id_idx ON public.identification_rules(user_id);
+
+ALTER TABLE public.identification_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own identification rules"
+  ON public.identification_rules FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own identification rules"
+  ON public.identification_rules FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own identification rules"
+  ON public.identification_rules FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own identification rules"
+  ON public.identification_rules FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Kept so existing devices can be re-identified when the rules change
+ALTER TABLE public.devices
+  ADD COLUMN IF NOT EXISTS sysobjectid TEXT;
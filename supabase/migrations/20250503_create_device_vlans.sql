@@ -0,0 +1,33 @@
+-- VLANs as configured on each switch, so site-wide VLANs keep per-switch presence and names
+CREATE TABLE IF NOT EXISTS public.device_vlans (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  device_id UUID NOT NULL REFERENCES public.devices(id) ON DELETE CASCADE,
+  site_id UUID NOT NULL REFERENCES public.sites(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  vlan_id INTEGER NOT NULL,
+  name TEXT,
+  subnet TEXT,
+  discovered_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT device_vlans_device_vlan_id_key UNIQUE (device_id, vlan_id)
+);
+
+CREATE INDEX IF NOT EXISTS device_vlans_device_id_idx ON public.device_vlans(device_id);
+CREATE INDEX IF NOT EXISTS device_vlans_site_id_idx ON public.device_vlans(site_id);
+
+ALTER TABLE public.device_vlans ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own device VLANs"
+  ON public.device_vlans FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own device VLANs"
+  ON public.device_vlans FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own device VLANs"
+  ON public.device_vlans FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own device VLANs"
+  ON public.device_vlans FOR DELETE
+  USING (auth.uid() = user_id);
@@ -0,0 +1,5 @@
+-- Switch each MAC was learned on; when several switches see a MAC, the one with it on an access port
+ALTER TABLE public.mac_addresses
+  ADD COLUMN IF NOT EXISTS device_id UUID REFERENCES public.devices(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_mac_addresses_device_id ON public.mac_addresses(device_id);
@@ -0,0 +1,38 @@
+-- VLAN configuration of each switchport: mode, access or native VLAN, allowed VLANs on trunks and voice VLAN
+-- allowed_vlans is a range list such as "1,10,20-30"
+CREATE TABLE IF NOT EXISTS public.port_vlans (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  device_id UUID NOT NULL REFERENCES public.devices(id) ON DELETE CASCADE,
+  site_id UUID NOT NULL REFERENCES public.sites(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  if_index INTEGER NOT NULL,
+  interface TEXT,
+  mode TEXT NOT NULL CHECK (mode IN ('access', 'trunk')),
+  access_vlan INTEGER,
+  native_vlan INTEGER,
+  allowed_vlans TEXT,
+  voice_vlan INTEGER,
+  discovered_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT port_vlans_device_if_index_key UNIQUE (device_id, if_index)
+);
+
+CREATE INDEX IF NOT EXISTS port_vlans_device_id_idx ON public.port_vlans(device_id);
+CREATE INDEX IF NOT EXISTS port_vlans_site_id_idx ON public.port_vlans(site_id);
+
+ALTER TABLE public.port_vlans ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own port VLANs"
+  ON public.port_vlans FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own port VLANs"
+  ON public.port_vlans FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own port VLANs"
+  ON public.port_vlans FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own port VLANs"
+  ON public.port_vlans FOR DELETE
+  USING (auth.uid() = user_id);
@@ -0,0 +1,32 @@
+-- Nile segment plan per site: each segment consolidates one or more VLANs
+-- A VLAN belongs to at most one segment of a site; the export maps MACs to segments through vlan_ids
+CREATE TABLE IF NOT EXISTS public.segments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  site_id UUID NOT NULL REFERENCES public.sites(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  name TEXT NOT NULL,
+  vlan_ids INTEGER[] NOT NULL DEFAULT '{}',
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT segments_site_name_key UNIQUE (site_id, name)
+);
+
+CREATE INDEX IF NOT EXISTS segments_site_id_idx ON public.segments(site_id);
+
+ALTER TABLE public.segments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own segments"
+  ON public.segments FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own segments"
+  ON public.segments FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own segments"
+  ON public.segments FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own segments"
+  ON public.segments FOR DELETE
+  USING (auth.uid() = user_id);
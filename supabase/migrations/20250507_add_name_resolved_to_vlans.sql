@@ -0,0 +1,3 @@
+-- Set once the user has picked a name for a VLAN whose switches disagree on it, so unresolved conflicts survive a save
+ALTER TABLE public.vlans
+  ADD COLUMN IF NOT EXISTS name_resolved BOOLEAN NOT NULL DEFAULT false;